@@ -1,12 +1,18 @@
 export default {
   // MCP Servers
+  // Each entry is a stdio (local process) or http (remote endpoint) server.
+  // Use ${ENV_VAR} or ${ENV_VAR:-fallback} to keep secrets out of this file.
   mcpServers: {
     figma: {
-      path: './mcp/figma-server',
+      transport: 'stdio',
+      command: 'npx',
+      args: ['-y', 'figma-developer-mcp', '--stdio'],
+      env: { FIGMA_API_KEY: '${FIGMA_MCP_KEY}' },
       enabled: true
     },
-    designSystem: {
-      path: './mcp/design-system-server',
+    naos: {
+      transport: 'http',
+      url: '${NAOS_MCP_URL:-https://naos-mcp.51b.dev/mcp}',
       enabled: true
     }
   },
@@ -5,9 +5,37 @@ import { config } from 'dotenv';
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
-import { runDesignForge, DesignForgeConfig, McpServerConfig } from '@brevo/designforge-core';
+import type { Ora } from 'ora';
+import {
+  DesignForgeAgent,
+  AgentCancelledError,
+  CheckpointStore,
+  createRunId,
+  checkMcpServers,
+  loadConfigFile,
+  loadBatchManifest,
+  resolveBatchTargets,
+  runDesignForgeBatch,
+  DEFAULT_BATCH_CONCURRENCY,
+  resolveMcpServers,
+  ConfigValidationError,
+  CONFIG_FILE_NAME,
+  FigmaWatcher,
+  McpCache,
+  DEFAULT_CACHE_DIR,
+  DesignForgeConfig,
+  DesignForgeFileConfig,
+  McpServerConfig,
+  McpServerDiagnostic,
+  LlmProviderName,
+  WatchEvent,
+  AgentProgress,
+  BatchTarget,
+  BatchReport,
+  ValidationIssue,
+  formatValidationIssue,
+} from '@brevo/designforge-core';
 import * as path from 'path';
-import * as fs from 'fs';
 
 // Load environment variables
 config();
@@ -23,12 +51,21 @@ program
 program
   .command('start')
   .description('Start DesignForge workflow')
-  .requiredOption('--figma <url>', 'Figma file URL')
+  .option('--figma <targets...>', 'Figma URLs or node IDs; node IDs resolve against the first URL')
+  .option('--manifest <file>', 'JSON manifest listing the Figma targets of a batch')
+  .option('--concurrency <number>', 'Targets generated at the same time in a batch')
   .requiredOption('--output <path>', 'Output directory path')
   .option('--coverage <number>', 'Minimum test coverage percentage', '80')
   .option('--storybook', 'Generate Storybook stories', true)
   .option('--validate', 'Validate against Figma after generation', false)
   .option('--max-turns <number>', 'Maximum AI turns', '30')
+  .option('--stream', 'Stream responses and write files as they complete')
+  .option('--output-mode <mode>', 'How the model emits files: fences | tools')
+  .option('--chunked', 'Generate each top-level frame in its own pass, then compose the page')
+  .option('--provider <name>', 'LLM backend: anthropic | openai')
+  .option('--no-cache', 'Call MCP tools without the response cache')
+  .option('--refresh', 'Fetch MCP data again and refresh the cache')
+  .option('--no-vision', 'Send no images to the model (for text-only models)')
   .option('--verbose', 'Detailed logging', false)
   .option('--dry-run', 'Preview without writing files', false)
   .action(async (options) => {
@@ -47,13 +84,19 @@ program
   .requiredOption('--figma <url>', 'Figma file URL')
   .requiredOption('--output <path>', 'Output directory path')
   .option('--interval <seconds>', 'Check interval in seconds', '60')
+  .option('--debounce <seconds>', 'Quiet period after a change before regenerating', '10')
+  .option('--state-file <path>', 'Where to persist node fingerprints', '.designforge/watch-state.json')
+  .option('--coverage <number>', 'Minimum test coverage percentage', '80')
+  .option('--max-turns <number>', 'Maximum AI turns per component', '30')
+  .option('--provider <name>', 'LLM backend: anthropic | openai')
+  .option('--verbose', 'Detailed logging', false)
   .action(async (options) => {
-    console.log(chalk.blue('👀 DesignForge Watch Mode\n'));
-    console.log(`Monitoring: ${options.figma}`);
-    console.log(`Interval: ${options.interval}s\n`);
-
-    // TODO: Implement watch mode with polling
-    console.log(chalk.yellow('⚠️  Watch mode not yet implemented'));
+    try {
+      await watchWorkflow(options);
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
   });
 
 // Interactive command
@@ -103,26 +146,57 @@ program
     });
   });
 
+// Resume command
+program
+  .command('resume <runId>')
+  .description('Resume an interrupted run from its last completed turn')
+  .option('--max-turns <number>', 'Raise the turn limit of the resumed run')
+  .option('--stream', 'Stream responses and write files as they complete')
+  .option('--no-cache', 'Call MCP tools without the response cache')
+  .option('--refresh', 'Fetch MCP data again and refresh the cache')
+  .option('--verbose', 'Detailed logging', false)
+  .action(async (runId: string, options) => {
+    try {
+      await resumeWorkflow(runId, options);
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Debug command
 program
   .command('debug')
   .description('Debug DesignForge configuration')
-  .option('--check-mcp <server>', 'Check MCP server connectivity')
-  .action((options) => {
-    console.log(chalk.blue('🔍 DesignForge Debug\n'));
-
-    // Check environment variables
-    console.log(chalk.bold('Environment Variables:'));
-    console.log(`  ANTHROPIC_API_KEY:   ${process.env.ANTHROPIC_API_KEY ? '✅ Set' : '❌ Not set'}`);
-    console.log(`  ANTHROPIC_BASE_URL:  ${process.env.ANTHROPIC_BASE_URL || '❌ Not set (will use default)'}`);
-    console.log(`  CLAUDE_MODEL:        ${process.env.CLAUDE_MODEL || '❌ Not set (will use default)'}`);
-    console.log(`  FIGMA_MCP_KEY:       ${process.env.FIGMA_MCP_KEY ? '✅ Set (' + process.env.FIGMA_MCP_KEY.slice(0, 8) + '...)' : '❌ Not set'}`);
-    console.log(`  NAOS_MCP_URL:        ${process.env.NAOS_MCP_URL || 'https://naos-mcp.51b.dev/mcp (default)'}`);
-    console.log(`  PROJECT_ROOT:        ${process.env.PROJECT_ROOT || '❌ Not set'}`);
+  .option('--check-mcp <server>', 'Check MCP server connectivity (server name or "all")')
+  .option('--smoke [tool]', 'Also call a tool as a smoke test', false)
+  .option('--json', 'Print the MCP check as JSON', false)
+  .action(async (options) => {
+    if (!options.json) {
+      console.log(chalk.blue('🔍 DesignForge Debug\n'));
+
+      // Check environment variables
+      console.log(chalk.bold('Environment Variables:'));
+      console.log(`  ANTHROPIC_API_KEY:   ${process.env.ANTHROPIC_API_KEY ? '✅ Set' : '❌ Not set'}`);
+      console.log(`  ANTHROPIC_BASE_URL:  ${process.env.ANTHROPIC_BASE_URL || '❌ Not set (will use default)'}`);
+      console.log(`  CLAUDE_MODEL:        ${process.env.CLAUDE_MODEL || '❌ Not set (will use default)'}`);
+      console.log(`  OPENAI_API_KEY:      ${process.env.OPENAI_API_KEY ? '✅ Set' : '❌ Not set (fine for local servers)'}`);
+      console.log(`  OPENAI_BASE_URL:     ${process.env.OPENAI_BASE_URL || '❌ Not set (will use default)'}`);
+      console.log(`  OPENAI_MODEL:        ${process.env.OPENAI_MODEL || '❌ Not set (will use default)'}`);
+      console.log(`  FIGMA_MCP_KEY:       ${process.env.FIGMA_MCP_KEY ? '✅ Set (' + process.env.FIGMA_MCP_KEY.slice(0, 8) + '...)' : '❌ Not set'}`);
+      console.log(`  NAOS_MCP_URL:        ${process.env.NAOS_MCP_URL || 'https://naos-mcp.51b.dev/mcp (default)'}`);
+      console.log(`  PROJECT_ROOT:        ${process.env.PROJECT_ROOT || '❌ Not set'}`);
+    }
 
     // Check MCP connectivity if requested
     if (options.checkMcp) {
-      console.log(chalk.yellow('\n⚠️  MCP connectivity check not yet implemented'));
+      try {
+        const ok = await checkMcp(options);
+        if (!ok) process.exit(1);
+      } catch (error) {
+        console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
     }
   });
 
@@ -133,60 +207,214 @@ program
   .action(async () => {
     console.log(chalk.blue('✅ Configuration Validation\n'));
 
-    const fileConfig = await loadConfigFile();
-    const configPath = path.join(process.cwd(), 'designforge.config.js');
+    try {
+      const { filePath, config: fileConfig } = await loadConfigFile();
+
+      if (filePath) {
+        console.log(chalk.green('✅ Configuration file is valid:'), filePath);
+        console.log(chalk.dim(JSON.stringify(fileConfig, null, 2)));
+      } else {
+        console.log(chalk.yellow(`⚠️  No ${CONFIG_FILE_NAME} found`));
+        console.log('   Using default configuration');
+      }
+    } catch (error) {
+      if (!(error instanceof ConfigValidationError)) throw error;
 
-    if (Object.keys(fileConfig).length > 0) {
-      console.log(chalk.green('✅ Configuration file found:'), configPath);
-      console.log(chalk.dim(JSON.stringify(fileConfig, null, 2)));
-    } else {
-      console.log(chalk.yellow('⚠️  No designforge.config.js found'));
-      console.log('   Using default configuration');
+      console.log(chalk.red(`❌ ${error.filePath}: ${error.issues.length} problem(s)\n`));
+      for (const issue of error.issues) {
+        console.log(`   ${chalk.cyan(issue.path || '(root)')}  ${issue.message}`);
+      }
+      process.exit(1);
     }
   });
 
+// Cache command
+const cacheCommand = program
+  .command('cache')
+  .description('Inspect or clear the MCP response cache');
+
+cacheCommand
+  .command('ls')
+  .description('List cached MCP responses')
+  .action(async () => {
+    const { config: fileConfig } = await loadConfigFile();
+    const entries = openMcpCache(fileConfig).list();
+    if (entries.length === 0) {
+      console.log(chalk.dim('The MCP response cache is empty.'));
+      return;
+    }
+
+    printTable(
+      ['Tool', 'Server', 'Args', 'Size', 'Cached', 'Expires'],
+      entries.map(e => [
+        e.tool,
+        e.server,
+        truncate(JSON.stringify(e.args), 40),
+        formatBytes(e.size),
+        new Date(e.createdAt).toLocaleString(),
+        e.expired ? chalk.yellow('expired') : new Date(e.expiresAt).toLocaleString(),
+      ]),
+    );
+    console.log(chalk.dim(`\n${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}, ${formatBytes(entries.reduce((sum, e) => sum + e.size, 0))}`));
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Delete cached MCP responses')
+  .option('--tool <name>', 'Only entries of this tool')
+  .option('--expired', 'Only expired entries', false)
+  .action(async (options) => {
+    const { config: fileConfig } = await loadConfigFile();
+    const removed = openMcpCache(fileConfig).clear({ tool: options.tool, expired: options.expired });
+    console.log(chalk.green(`✅ Removed ${removed} cached response(s)`));
+  });
+
+// Per-turn run checkpoints, used by `designforge resume`
+const CHECKPOINT_DIR = '.designforge/runs';
+
+const DEFAULT_SMOKE_TOOL = 'get_naos_component_docs';
+
 /**
- * Load designforge.config.js from the current directory if it exists.
- * Returns an empty object if the file is not found or fails to load.
+ * Connect to the same MCP servers `start` would use and report per-server
+ * latency, tools (with input schemas) and an optional smoke call.
+ * Returns false when any checked server failed.
  */
-async function loadConfigFile(): Promise<Record<string, any>> {
-  const configPath = path.join(process.cwd(), 'designforge.config.js');
-  if (!fs.existsSync(configPath)) return {};
+async function checkMcp(options: any): Promise<boolean> {
+  const { config: fileConfig } = await loadConfigFile();
+  const { servers: allServers, skipped: allSkipped } = resolveMcpServerList(fileConfig);
+  const selected = <T extends { name: string }>(list: T[]) =>
+    options.checkMcp === 'all' ? list : list.filter(s => s.name === options.checkMcp);
+  const servers = selected(allServers);
+  const skipped = selected(allSkipped);
+
+  if (servers.length === 0 && skipped.length === 0) {
+    const configured = [...allServers, ...allSkipped].map(s => s.name);
+    const message = `Unknown MCP server "${options.checkMcp}". Configured: ${configured.join(', ') || 'none'}`;
+    if (options.json) {
+      console.log(JSON.stringify({ ok: false, error: message, servers: [] }, null, 2));
+    } else {
+      console.log(chalk.red(`\n❌ ${message}`));
+    }
+    return false;
+  }
 
-  try {
-    // Dynamic import works for both ESM `export default` and CJS `module.exports`
-    const imported = await import(configPath);
-    return imported.default ?? imported;
-  } catch {
-    return {};
+  // `--smoke` alone uses the default tool; `--smoke <tool>` picks one
+  const smokeTool = options.smoke === true ? DEFAULT_SMOKE_TOOL : options.smoke || undefined;
+  // Skipped servers are reported as failed, not left out of the check
+  const results: McpServerDiagnostic[] = [
+    ...await checkMcpServers(servers, { smokeTool }),
+    ...skipped.map(s => ({
+      server: s.name,
+      transport: s.transport,
+      ok: false,
+      skipped: true,
+      tools: [],
+      error: `skipped: ${s.reason}`,
+    })),
+  ];
+  const ok = results.every(r => r.ok);
+
+  if (options.json) {
+    console.log(JSON.stringify({ ok, servers: results }, null, 2));
+    return ok;
+  }
+
+  console.log(chalk.bold('\nMCP Servers:'));
+  const rows = results.map(r => [
+    r.ok ? chalk.green('✅') : r.skipped ? chalk.yellow('⚠') : chalk.red('❌'),
+    r.server,
+    r.transport,
+    r.connectLatencyMs !== undefined ? `${r.connectLatencyMs}ms` : '-',
+    String(r.tools.length),
+    r.smoke ? `${r.smoke.tool} ${r.smoke.ok ? 'ok' : 'failed'} (${r.smoke.latencyMs}ms)` : '-',
+  ]);
+  printTable(['', 'Server', 'Transport', 'Connect', 'Tools', 'Smoke'], rows);
+
+  for (const r of results) {
+    if (r.error) {
+      console.log(chalk.red(`\n  ${r.server}: ${r.error}`));
+    }
+    if (r.smoke && !r.smoke.ok) {
+      console.log(chalk.red(`\n  ${r.server} smoke call failed: ${r.smoke.preview}`));
+    }
+    if (r.tools.length > 0) {
+      console.log(chalk.bold(`\n  ${r.server} tools:`));
+      for (const tool of r.tools) {
+        const props = Object.keys(tool.inputSchema.properties ?? {});
+        const required = new Set(tool.inputSchema.required ?? []);
+        const params = props.map(p => (required.has(p) ? p : `${p}?`)).join(', ');
+        console.log(`    • ${tool.name}(${params})`);
+        if (tool.description) console.log(chalk.dim(`      ${tool.description.split('\n')[0]}`));
+      }
+    }
   }
+
+  console.log(ok
+    ? chalk.green('\n✅ All MCP servers operational')
+    : chalk.red('\n❌ One or more MCP servers failed'));
+  return ok;
 }
 
-async function startWorkflow(options: any): Promise<void> {
-  const spinner = ora('Initializing DesignForge...').start();
+function printTable(headers: string[], rows: string[][]): void {
+  // chalk adds escape codes, so pad on the visible length
+  const visible = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '').length;
+  const widths = headers.map((h, i) => Math.max(visible(h), ...rows.map(r => visible(r[i]))));
+  const format = (cells: string[]) =>
+    '  ' + cells.map((c, i) => c + ' '.repeat(widths[i] - visible(c))).join('  ');
 
-  // Load config file — values are used as defaults; CLI flags take priority
-  const fileConfig = await loadConfigFile();
+  console.log(chalk.dim(format(headers)));
+  rows.forEach(r => console.log(format(r)));
+}
 
-  // Validate API key
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    spinner.fail('ANTHROPIC_API_KEY not found in environment');
-    console.log(chalk.yellow('\nPlease set your API key:'));
-    console.log('  export ANTHROPIC_API_KEY=sk-ant-...');
-    process.exit(1);
+/** A configured server left out because its environment is incomplete */
+interface SkippedMcpServer {
+  name: string;
+  transport: McpServerConfig['transport'];
+  reason: string;
+}
+
+/**
+ * Build the MCP server list, warning about servers that were skipped.
+ * See resolveMcpServerList().
+ */
+function buildMcpServers(fileConfig: DesignForgeFileConfig, warn: boolean = true): McpServerConfig[] {
+  const { servers, skipped } = resolveMcpServerList(fileConfig);
+  if (warn) {
+    for (const server of skipped) {
+      console.log(chalk.yellow(`  ⚠ ${server.reason} — MCP server "${server.name}" skipped`));
+    }
   }
+  return servers;
+}
 
-  spinner.succeed('Configuration loaded');
+/**
+ * Servers declared under `mcpServers` in designforge.config.js are used
+ * as-is, except those whose `${VAR}` references are unset; the env-var
+ * defaults below only apply when the config file declares none.
+ *
+ * Defaults:
+ *   Figma: stdio transport — spawns figma-developer-mcp as a child process.
+ *   Naos:  HTTP transport — connects to the remote Naos MCP endpoint.
+ */
+function resolveMcpServerList(fileConfig: DesignForgeFileConfig): {
+  servers: McpServerConfig[];
+  skipped: SkippedMcpServer[];
+} {
+  const skipped: SkippedMcpServer[] = [];
+
+  const declared = fileConfig.mcpServers;
+  if (declared && Object.keys(declared).length > 0) {
+    const servers = resolveMcpServers(declared, process.env, (name, missingVars) => {
+      skipped.push({ name, transport: declared[name].transport, reason: `${missingVars.join(', ')} not set` });
+    });
+    return { servers, skipped };
+  }
 
-  // Build MCP server connections from environment.
-  // Figma: stdio transport — spawns figma-developer-mcp as a child process.
-  // Naos:  HTTP transport — connects to the remote Naos MCP endpoint.
-  const mcpServers: McpServerConfig[] = [];
+  const servers: McpServerConfig[] = [];
 
   const figmaKey = process.env.FIGMA_MCP_KEY;
   if (figmaKey) {
-    mcpServers.push({
+    servers.push({
       name: 'figma',
       transport: 'stdio',
       command: 'npx',
@@ -194,28 +422,201 @@ async function startWorkflow(options: any): Promise<void> {
       env: { FIGMA_API_KEY: figmaKey },
     });
   } else {
-    console.log(chalk.yellow('  ⚠ FIGMA_MCP_KEY not set — Figma MCP will use mock data'));
+    skipped.push({ name: 'figma', transport: 'stdio', reason: 'FIGMA_MCP_KEY not set' });
   }
 
   const naosUrl = process.env.NAOS_MCP_URL || 'https://naos-mcp.51b.dev/mcp';
-  mcpServers.push({
+  servers.push({
     name: 'naos',
     transport: 'http',
     url: naosUrl,
   });
 
-  // Build config — priority: CLI flags > env vars > designforge.config.js > defaults
-  const config: DesignForgeConfig = {
+  return { servers, skipped };
+}
+
+function openMcpCache(fileConfig: DesignForgeFileConfig, refresh?: boolean): McpCache {
+  return new McpCache({
+    dir: path.resolve(fileConfig.cache?.dir ?? DEFAULT_CACHE_DIR),
+    ttl: fileConfig.cache?.ttl,
+    refresh,
+  });
+}
+
+/**
+ * The MCP response cache for a run: off with --no-cache or
+ * `cache.enabled: false`; --refresh fetches again and rewrites entries.
+ */
+function buildMcpCache(options: any, fileConfig: DesignForgeFileConfig): McpCache | null {
+  if (options.cache === false || fileConfig.cache?.enabled === false) return null;
+  return openMcpCache(fileConfig, options.refresh);
+}
+
+/** Coverage is null when no tests ran */
+function formatCoverage(coverage: number | null): string {
+  return coverage === null ? 'not measured' : `${coverage}%`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Build the agent config — priority: CLI flags > env vars > designforge.config.js > defaults
+ */
+function buildAgentConfig(
+  options: any,
+  fileConfig: DesignForgeFileConfig,
+  apiKeys: ApiKeys,
+  mcpServers: McpServerConfig[],
+): DesignForgeConfig {
+  const provider = resolveProvider(options, fileConfig);
+  const envBaseURL = provider === 'openai' ? process.env.OPENAI_BASE_URL : process.env.ANTHROPIC_BASE_URL;
+  const envModel = provider === 'openai' ? process.env.OPENAI_MODEL : process.env.CLAUDE_MODEL;
+  return {
     figmaUrl: options.figma,
     outputPath: path.resolve(options.output || fileConfig.output?.baseDir || './src/components'),
-    anthropicApiKey: apiKey,
+    ...apiKeys,
     minCoverage: parseInt(options.coverage) || fileConfig.codegen?.minCoverage || 80,
     maxTurns: parseInt(options.maxTurns) || fileConfig.agent?.maxTurns || 30,
     verbose: options.verbose,
-    baseURL: process.env.ANTHROPIC_BASE_URL,
-    model: process.env.CLAUDE_MODEL || fileConfig.agent?.model,
+    provider,
+    baseURL: envBaseURL || fileConfig.agent?.baseURL,
+    model: envModel || fileConfig.agent?.model,
     mcpServers,
+    mcpCache: buildMcpCache(options, fileConfig),
+    stream: options.stream ?? fileConfig.agent?.stream,
+    outputMode: parseOutputMode(options.outputMode) ?? fileConfig.agent?.outputMode,
+    figmaTokenBudget: fileConfig.agent?.figmaTokenBudget,
+    chunked: options.chunked ?? fileConfig.agent?.chunked,
+    prefetch: fileConfig.agent?.prefetch,
+    vision: options.vision === false
+      ? { ...fileConfig.agent?.vision, enabled: false }
+      : fileConfig.agent?.vision,
+    validation: {
+      typeCheck: fileConfig.validation?.typeChecking ?? true,
+      tsconfig: fileConfig.validation?.tsconfig && path.resolve(fileConfig.validation.tsconfig),
+      // Jest runs from the project root so its jest config applies; when it
+      // cannot run the generated tests, that is only a warning
+      runTests: (fileConfig.validation?.runTests ?? true) && fileConfig.codegen?.generateTests !== false,
+      projectRoot: process.cwd(),
+      designParity: fileConfig.validation?.designParity?.enabled === false
+        ? undefined
+        : { minScore: fileConfig.validation?.designParity?.minScore },
+      codeRules: fileConfig.validation?.linting === false
+        ? undefined
+        : {
+          rules: fileConfig.validation?.rules,
+          autoFix: fileConfig.validation?.autoFix,
+          allowedImports: fileConfig.validation?.allowedImports,
+        },
+      naosCatalog: fileConfig.validation?.naosCatalog ?? true,
+      accessibility: fileConfig.validation?.accessibility?.enabled === false
+        ? undefined
+        : {
+          level: fileConfig.validation?.accessibility?.level,
+          checkContrast: fileConfig.validation?.accessibility?.checkContrast,
+          checkKeyboard: fileConfig.validation?.accessibility?.checkKeyboard,
+          checkAria: fileConfig.validation?.accessibility?.checkAria,
+          repair: fileConfig.validation?.accessibility?.repair,
+        },
+      maxRepairIterations: fileConfig.validation?.maxRepairIterations,
+    },
+  };
+}
+
+function resolveProvider(options: any, fileConfig: DesignForgeFileConfig): LlmProviderName {
+  const provider = options.provider ?? fileConfig.agent?.provider ?? 'anthropic';
+  if (provider !== 'anthropic' && provider !== 'openai') {
+    throw new Error(`Invalid --provider "${provider}" (expected "anthropic" or "openai")`);
+  }
+  return provider;
+}
+
+type ApiKeys = Pick<DesignForgeConfig, 'anthropicApiKey' | 'openaiApiKey'>;
+
+/**
+ * API keys from the environment, or null when the provider needs one that
+ * is missing. OpenAI-compatible servers are often local and take none.
+ */
+function providerApiKeys(provider: LlmProviderName): ApiKeys | null {
+  if (provider === 'openai') return { openaiApiKey: process.env.OPENAI_API_KEY };
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  return apiKey ? { anthropicApiKey: apiKey } : null;
+}
+
+function parseOutputMode(value: string | undefined): DesignForgeConfig['outputMode'] {
+  if (value === undefined) return undefined;
+  if (value !== 'fences' && value !== 'tools') {
+    throw new Error(`Invalid --output-mode "${value}" (expected "fences" or "tools")`);
+  }
+  return value;
+}
+
+async function startWorkflow(options: any): Promise<void> {
+  const spinner = ora('Initializing DesignForge...').start();
+
+  // Load config file — values are used as defaults; CLI flags take priority.
+  // An invalid file stops the run rather than silently using defaults.
+  let fileConfig: DesignForgeFileConfig;
+  try {
+    ({ config: fileConfig } = await loadConfigFile());
+  } catch (error) {
+    spinner.fail('Invalid configuration');
+    throw error;
+  }
+
+  // Validate API key
+  let apiKeys: ApiKeys | null;
+  try {
+    apiKeys = providerApiKeys(resolveProvider(options, fileConfig));
+  } catch (error) {
+    spinner.fail('Invalid LLM provider');
+    throw error;
+  }
+  if (!apiKeys) {
+    spinner.fail('ANTHROPIC_API_KEY not found in environment');
+    console.log(chalk.yellow('\nPlease set your API key:'));
+    console.log('  export ANTHROPIC_API_KEY=sk-ant-...');
+    process.exit(1);
+  }
+
+  let targets: BatchTarget[];
+  let concurrency: number | undefined;
+  try {
+    ({ targets, concurrency } = collectTargets(options, fileConfig));
+  } catch (error) {
+    spinner.fail('Invalid Figma targets');
+    throw error;
+  }
+
+  spinner.succeed('Configuration loaded');
+
+  const mcpServers = buildMcpServers(fileConfig);
+
+  if (targets.length > 1) {
+    const base = buildAgentConfig({ ...options, figma: targets[0].figmaUrl }, fileConfig, apiKeys, mcpServers);
+    const { figmaUrl: _url, ...agentConfig } = base;
+    await batchWorkflow(targets, {
+      ...agentConfig,
+      checkpointDir: path.resolve(CHECKPOINT_DIR),
+      runId: createRunId(),
+    }, parseInt(options.concurrency) || concurrency || DEFAULT_BATCH_CONCURRENCY, options.dryRun);
+    return;
+  }
+
+  const config: DesignForgeConfig = {
+    ...buildAgentConfig({ ...options, figma: targets[0].figmaUrl }, fileConfig, apiKeys, mcpServers),
+    checkpointDir: path.resolve(CHECKPOINT_DIR),
+    runId: createRunId(),
   };
+  if (targets[0].outputPath) config.outputPath = targets[0].outputPath;
 
   if (options.dryRun) {
     console.log(chalk.blue('\n🔍 Dry Run Mode - Preview Only\n'));
@@ -235,6 +636,7 @@ async function startWorkflow(options: any): Promise<void> {
   console.log(`   Output:     ${chalk.cyan(config.outputPath)}`);
   console.log(`   Coverage:   ${chalk.cyan(config.minCoverage + '%')}`);
   console.log(`   Max Turns:  ${chalk.cyan(config.maxTurns)}`);
+  console.log(`   Run ID:     ${chalk.cyan(config.runId)}`);
   console.log(chalk.bold('\n🔌 MCP Servers:'));
   for (const srv of mcpServers) {
     const transport = srv.transport === 'stdio' ? 'stdio' : 'http';
@@ -244,31 +646,369 @@ async function startWorkflow(options: any): Promise<void> {
 
   // Run workflow
   const workflowSpinner = ora('Starting autonomous workflow...').start();
+  const agent = new DesignForgeAgent(config);
+  const cancellation = cancelOnSignals();
 
   try {
-    const result = await runDesignForge(config);
+    const result = await agent.run(reportProgress(workflowSpinner), { signal: cancellation.signal });
 
     workflowSpinner.succeed('Workflow completed!');
+    printSummary(result);
+  } catch (error) {
+    if (error instanceof AgentCancelledError) {
+      workflowSpinner.warn(`Cancelled after turn ${error.turn}`);
+      console.log(chalk.dim(`\nResume with: designforge resume ${config.runId}`));
+      process.exit(130);
+    }
+    workflowSpinner.fail('Workflow failed');
+    console.log(chalk.dim(`\nResume with: designforge resume ${config.runId}`));
+    throw error;
+  } finally {
+    cancellation.dispose();
+  }
+}
 
-    // Display results
-    console.log('\n' + chalk.bold.green('✅ DesignForge Complete!\n'));
-    console.log(chalk.bold('📊 Summary:'));
-    console.log(`   Files: ${chalk.cyan(result.filesGenerated)}`);
-    console.log(`   Components: ${chalk.cyan(result.components)}`);
-    console.log(`   Tests: ${chalk.cyan(result.tests)}`);
-    console.log(`   Coverage: ${chalk.cyan(result.coverage + '%')}`);
-    console.log(`   Design Parity: ${chalk.cyan(result.designParity + '%')}`);
-
-    if (result.gaps && result.gaps.length > 0) {
-      console.log(chalk.yellow('\n⚠️  Design System Gaps:'));
-      result.gaps.forEach((gap: string) => console.log(`   • ${gap}`));
+/**
+ * Figma targets of a `start` — priority: --manifest > --figma > the config
+ * file's batch.manifest > batch.targets. Manifest outputs are relative to
+ * the manifest.
+ */
+function collectTargets(
+  options: any,
+  fileConfig: DesignForgeFileConfig,
+): { targets: BatchTarget[]; concurrency?: number } {
+  const manifest = options.manifest ?? (options.figma ? undefined : fileConfig.batch?.manifest);
+  if (manifest) {
+    const file = path.resolve(manifest);
+    const loaded = loadBatchManifest(file);
+    return { targets: resolveBatchTargets(loaded.targets, path.dirname(file)), concurrency: loaded.concurrency };
+  }
+
+  // Interactive mode passes a single URL
+  const figma: string[] = [options.figma ?? []].flat();
+  const entries = figma.length > 0 ? figma.map(f => ({ figma: f })) : fileConfig.batch?.targets ?? [];
+  if (entries.length === 0) {
+    throw new Error(`No Figma target — pass --figma <url> or --manifest <file>, or set batch.targets in ${CONFIG_FILE_NAME}`);
+  }
+  return { targets: resolveBatchTargets(entries), concurrency: fileConfig.batch?.concurrency };
+}
+
+async function batchWorkflow(
+  targets: BatchTarget[],
+  config: Omit<DesignForgeConfig, 'figmaUrl'>,
+  concurrency: number,
+  dryRun: boolean,
+): Promise<void> {
+  console.log('\n' + chalk.bold.blue('🔨 DesignForge — Batch'));
+  console.log(chalk.dim('Autonomous Figma to Code Agent\n'));
+  console.log(chalk.bold(`📋 Targets (${targets.length}, ${concurrency} at a time):`));
+  for (const target of targets) {
+    console.log(`   ${chalk.cyan(target.name)}  ${chalk.dim(target.figmaUrl)} → ${target.outputPath ?? config.outputPath}`);
+  }
+  if (dryRun) {
+    console.log(chalk.blue('\n🔍 Dry Run Mode - Preview Only\n'));
+    return;
+  }
+  console.log(`   Run ID:     ${chalk.cyan(config.runId)}\n`);
+
+  const spinner = ora('Connecting MCP servers...').start();
+  const cancellation = cancelOnSignals();
+  let done = 0;
+
+  try {
+    const report = await runDesignForgeBatch({
+      agentConfig: config,
+      targets,
+      concurrency,
+      signal: cancellation.signal,
+      onEvent: (event) => {
+        switch (event.type) {
+          case 'started':
+          case 'progress':
+            spinner.text = `[${done}/${targets.length} done] ${event.name}` +
+              (event.type === 'progress' && event.progress.turn > 0 ? ` · turn ${event.progress.turn}` : '');
+            break;
+          case 'finished': {
+            done++;
+            const { status, result, error } = event.result;
+            const symbol = status === 'complete' ? chalk.green('✅') : status === 'failed' ? chalk.red('❌') : chalk.yellow('⏹');
+            const detail = status === 'complete' ? `${result.filesGenerated} file(s)` : error ?? status;
+            spinner.stopAndPersist({ symbol, text: `${event.name}: ${detail}` });
+            spinner.start(`[${done}/${targets.length} done]`);
+            break;
+          }
+        }
+      },
+    });
+
+    spinner.stop();
+    printBatchSummary(report);
+    if (cancellation.signal.aborted) process.exit(130);
+    if (report.totals.failed > 0) process.exitCode = 1;
+  } catch (error) {
+    spinner.fail('Batch failed');
+    throw error;
+  } finally {
+    cancellation.dispose();
+  }
+}
+
+function printBatchSummary(report: BatchReport): void {
+  const { totals } = report;
+  console.log('\n' + chalk.bold(`📊 Batch: ${totals.complete}/${totals.targets} complete`) +
+    (totals.failed > 0 ? chalk.red(`, ${totals.failed} failed`) : '') +
+    (totals.cancelled > 0 ? chalk.yellow(`, ${totals.cancelled} cancelled`) : ''));
+  console.log(`   Files: ${chalk.cyan(totals.filesGenerated)} · Components: ${chalk.cyan(totals.components)}` +
+    ` · Tests: ${chalk.cyan(totals.tests)} · Stories: ${chalk.cyan(totals.stories)}\n`);
+
+  printTable(
+    ['Target', 'Status', 'Files', 'Coverage', 'Parity', 'Time'],
+    report.targets.map(t => [
+      t.name,
+      t.status === 'complete' ? chalk.green(t.status) : t.status === 'failed' ? chalk.red(t.status) : chalk.yellow(t.status),
+      t.result ? String(t.result.filesGenerated) : '-',
+      t.result ? formatCoverage(t.result.coverage) : '-',
+      t.result ? `${t.result.designParity}%` : '-',
+      `${Math.round(t.durationMs / 1000)}s`,
+    ]),
+  );
+
+  if (report.gaps.length > 0) {
+    console.log(chalk.yellow('\n⚠️  Design System Gaps:'));
+    report.gaps.forEach(gap => console.log(`   • ${gap}`));
+  }
+
+  const unfinished = report.targets.filter(t => t.status !== 'complete' && t.runId && t.durationMs > 0);
+  if (unfinished.length > 0) {
+    console.log(chalk.dim('\nResume with:'));
+    unfinished.forEach(t => console.log(chalk.dim(`  designforge resume ${t.runId}   # ${t.name}`)));
+  }
+  console.log();
+}
+
+/**
+ * Turn SIGINT/SIGTERM into an AbortSignal so the agent can stop cleanly:
+ * in-flight requests are aborted and MCP servers (including stdio child
+ * processes) are disconnected. A second Ctrl-C exits immediately.
+ */
+function cancelOnSignals(): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+
+  const onSignal = () => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    console.log(chalk.yellow('\n\n⏹  Cancelling — closing MCP connections (Ctrl-C again to force quit)...'));
+    controller.abort();
+  };
+
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      process.off('SIGINT', onSignal);
+      process.off('SIGTERM', onSignal);
+    },
+  };
+}
+
+/**
+ * Spinner updates for agent progress. With streaming on, the spinner shows
+ * the file currently being generated and each file is listed once written.
+ */
+function reportProgress(spinner: Ora): (progress: AgentProgress) => void {
+  return (progress) => {
+    // Chunked runs: "[2/5 Header] Turn 1..."
+    const chunk = progress.chunk;
+    const pass = chunk
+      ? `[${chunk.phase === 'chunk' ? `${chunk.index}/${chunk.total}` : 'page'} ${chunk.name}] `
+      : '';
+
+    if (progress.status === 'running') {
+      spinner.text = progress.turn === 0 ? progress.message : `${pass}Turn ${progress.turn}...`;
+      return;
+    }
+    if (progress.status !== 'streaming') return;
+
+    if (progress.writtenFiles) {
+      for (const file of progress.writtenFiles) {
+        spinner.stopAndPersist({ symbol: '📄', text: path.relative(process.cwd(), file) });
+      }
+      spinner.start(`${pass}Turn ${progress.turn}...`);
+    } else if (progress.currentFile) {
+      spinner.text = `${pass}Turn ${progress.turn} · generating ${chalk.cyan(progress.currentFile)}`;
+    } else {
+      spinner.text = `${pass}Turn ${progress.turn} · writing...`;
     }
+  };
+}
+
+function printSummary(result: any): void {
+  console.log('\n' + chalk.bold.green('✅ DesignForge Complete!\n'));
+  console.log(chalk.bold('📊 Summary:'));
+  console.log(`   Files: ${chalk.cyan(result.filesGenerated)}`);
+  console.log(`   Components: ${chalk.cyan(result.components)}`);
+  console.log(`   Tests: ${chalk.cyan(result.tests)}`);
+  console.log(`   Coverage: ${chalk.cyan(formatCoverage(result.coverage))}`);
+  console.log(`   Design Parity: ${chalk.cyan(result.designParity + '%')}`);
+
+  if (result.chunks) {
+    console.log(chalk.bold(`\n🧩 Chunks (${result.chunks.length}):`));
+    for (const chunk of result.chunks) {
+      console.log(`   • ${chunk.name} → ${chalk.cyan(chunk.component)} (${chunk.files.length} files, parity ${chunk.designParity}%)`);
+    }
+  }
+
+  if (result.gaps && result.gaps.length > 0) {
+    console.log(chalk.yellow('\n⚠️  Design System Gaps:'));
+    result.gaps.forEach((gap: string) => console.log(`   • ${gap}`));
+  }
+
+  if (result.parity && result.parity.unmatched.length > 0) {
+    console.log(chalk.yellow(`\n🎯 Unmatched Figma nodes (${result.parity.unmatched.length}):`));
+    for (const node of result.parity.unmatched.slice(0, 10)) {
+      console.log(`   • [${node.component}] ${node.reason}`);
+    }
+  }
+
+  // Report-only findings (they carry the rule id as code; render warnings
+  // don't). Blocking ones are listed with the unresolved errors below.
+  const accessibility = (result.diagnostics ?? []).filter(
+    (d: ValidationIssue) => d.source === 'accessibility' && d.severity === 'warning' && d.code,
+  );
+  if (accessibility.length > 0) {
+    console.log(chalk.yellow(`\n♿ Accessibility findings, WCAG ${result.accessibility.level} (${accessibility.length}):`));
+    for (const d of accessibility.slice(0, 10)) {
+      console.log(`   • ${formatValidationIssue(d, result.outputPath)}`);
+    }
+  }
+
+  const diagnostics: ValidationIssue[] = result.diagnostics ?? [];
+  const errors = diagnostics.filter(d => d.severity === 'error');
+  if (errors.length > 0) {
+    console.log(chalk.red(`\n❌ Unresolved validation errors (${errors.length}):`));
+    errors.forEach(d => console.log(`   • ${formatValidationIssue(d, result.outputPath)}`));
+  }
+
+  console.log(`\n${chalk.bold('📁 Output:')} ${chalk.cyan(result.outputPath)}\n`);
+}
+
+async function resumeWorkflow(runId: string, options: any): Promise<void> {
+  const store = new CheckpointStore(path.resolve(CHECKPOINT_DIR));
+  const checkpoint = store.load(runId);
+
+  const apiKeys = providerApiKeys(checkpoint.config.provider ?? 'anthropic');
+  if (!apiKeys) {
+    console.error(chalk.red('ANTHROPIC_API_KEY not found in environment'));
+    process.exit(1);
+  }
+
+  // Checkpoints hold no secrets: MCP servers are rebuilt the same way
+  // `start` builds them, everything else comes from the checkpoint.
+  const { config: fileConfig } = await loadConfigFile();
+  const config: DesignForgeConfig = {
+    ...checkpoint.config,
+    ...apiKeys,
+    mcpServers: buildMcpServers(fileConfig),
+    mcpCache: buildMcpCache(options, fileConfig),
+    checkpointDir: path.resolve(CHECKPOINT_DIR),
+    runId,
+    maxTurns: parseInt(options.maxTurns) || checkpoint.config.maxTurns,
+    verbose: options.verbose || checkpoint.config.verbose,
+    stream: options.stream ?? checkpoint.config.stream,
+  };
+
+  console.log('\n' + chalk.bold.blue('🔨 DesignForge — Resume'));
+  console.log(`   Run ID:     ${chalk.cyan(runId)}`);
+  console.log(`   Figma URL:  ${chalk.cyan(config.figmaUrl)}`);
+  console.log(`   Output:     ${chalk.cyan(config.outputPath)}`);
+  console.log(`   Turn:       ${chalk.cyan(checkpoint.turn)} of ${chalk.cyan(config.maxTurns || 30)} completed`);
+  console.log(`   Files:      ${chalk.cyan(checkpoint.writtenFiles.length)} written so far\n`);
+
+  const spinner = ora(`Continuing from turn ${checkpoint.turn + 1}...`).start();
+  const agent = new DesignForgeAgent(config);
+  const cancellation = cancelOnSignals();
 
-    console.log(`\n${chalk.bold('📁 Output:')} ${chalk.cyan(result.outputPath)}\n`);
+  try {
+    const result = await agent.resume(checkpoint, reportProgress(spinner), { signal: cancellation.signal });
+    spinner.succeed('Workflow completed!');
+    printSummary(result);
   } catch (error) {
-    workflowSpinner.fail('Workflow failed');
+    if (error instanceof AgentCancelledError) {
+      spinner.warn(`Cancelled after turn ${error.turn}`);
+      process.exit(130);
+    }
+    spinner.fail('Workflow failed');
     throw error;
+  } finally {
+    cancellation.dispose();
+  }
+}
+
+async function watchWorkflow(options: any): Promise<void> {
+  const { config: fileConfig } = await loadConfigFile();
+
+  const apiKeys = providerApiKeys(resolveProvider(options, fileConfig));
+  if (!apiKeys) {
+    console.error(chalk.red('ANTHROPIC_API_KEY not found in environment'));
+    process.exit(1);
   }
+
+  const config = buildAgentConfig(options, fileConfig, apiKeys, buildMcpServers(fileConfig));
+  const intervalSeconds = parseInt(options.interval) || 60;
+  const debounceSeconds = parseInt(options.debounce) || 0;
+  const stateFile = path.resolve(options.stateFile);
+
+  console.log(chalk.blue('👀 DesignForge Watch Mode\n'));
+  console.log(`Monitoring: ${config.figmaUrl}`);
+  console.log(`Output:     ${config.outputPath}`);
+  console.log(`Interval:   ${intervalSeconds}s (debounce ${debounceSeconds}s)`);
+  console.log(`State:      ${stateFile}\n`);
+
+  const watcher = new FigmaWatcher({
+    agentConfig: config,
+    intervalMs: intervalSeconds * 1000,
+    debounceMs: debounceSeconds * 1000,
+    stateFile,
+    onEvent: (event: WatchEvent) => {
+      const time = chalk.dim(new Date().toLocaleTimeString());
+      switch (event.type) {
+        case 'poll':
+          if (options.verbose) console.log(`${time} Checked ${event.nodeCount} nodes`);
+          break;
+        case 'changed':
+          console.log(`${time} ${chalk.yellow('●')} ${event.nodeIds.length} node(s) changed: ${event.nodeIds.join(', ')}`);
+          break;
+        case 'regenerating':
+          console.log(`${time} 🔨 Regenerating ${chalk.cyan(event.name)} (${event.nodeId})...`);
+          break;
+        case 'regenerated':
+          console.log(`${time} ${chalk.green('✅')} ${event.name}: ${event.files.length} file(s) written`);
+          break;
+        case 'error':
+          console.log(`${time} ${chalk.red('❌')} ${event.nodeId ? event.nodeId + ': ' : ''}${event.message}`);
+          break;
+      }
+    },
+  });
+
+  // Ctrl-C: stop polling, cancel any in-flight regeneration and close
+  // MCP connections (incl. stdio children)
+  let stopping = false;
+  const shutdown = async () => {
+    if (stopping) return;
+    stopping = true;
+    console.log(chalk.dim('\nStopping watch mode...'));
+    await watcher.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await watcher.start();
+  console.log(chalk.dim('Watching for changes. Press Ctrl-C to stop.\n'));
 }
 
 program.parse();
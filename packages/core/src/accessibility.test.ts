@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { accessibilityIssues, auditAccessibility, checkStaticAccessibility } from './accessibility';
+
+describe('checkStaticAccessibility', () => {
+  const check = (content: string, options = {}) =>
+    checkStaticAccessibility([{ file: '/out/Card.tsx', content }], options).map(f => [f.rule, f.line, f.column]);
+
+  it('should report images without alt text and unlabeled buttons', () => {
+    expect(check([
+      'export const Card = () => (',
+      '  <div>',
+      '    <img src="hero.png" />',
+      '    <img src="divider.png" alt="" />',
+      '    <button></button>',
+      '    <button aria-label="Close" />',
+      '  </div>',
+      ');',
+    ].join('\n'))).toEqual([
+      ['image-alt', 3, 5],
+      ['button-name', 5, 5],
+    ]);
+  });
+
+  it('should report form fields without a label', () => {
+    expect(check([
+      'export const Form = ({ id }: { id: string }) => (',
+      '  <form>',
+      '    <input name="email" />',
+      '    <label>Name <input name="name" /></label>',
+      '    <label htmlFor="city">City</label><input id="city" />',
+      '    <textarea aria-label="Notes" />',
+      '    <input type="hidden" name="token" />',
+      '    <select {...{ id }} />',
+      '  </form>',
+      ');',
+    ].join('\n'))).toEqual([
+      ['label', 3, 5],
+    ]);
+  });
+
+  it('should report clickable elements without a role or keyboard access', () => {
+    const content = [
+      'export const Row = ({ onOpen }: { onOpen: () => void }) => (',
+      '  <ul>',
+      '    <li onClick={onOpen}>Open</li>',
+      '    <li role="button" tabIndex={0} onClick={onOpen} onKeyDown={onOpen}>Open</li>',
+      '    <button onClick={onOpen}>Open</button>',
+      '  </ul>',
+      ');',
+    ].join('\n');
+
+    expect(check(content)).toEqual([
+      ['interactive-role', 3, 5],
+      ['keyboard-access', 3, 5],
+    ]);
+    expect(check(content, { checkAria: false, checkKeyboard: false })).toEqual([]);
+  });
+});
+
+describe('auditAccessibility', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'designforge-a11y-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): string {
+    const fullPath = path.join(dir, file);
+    fs.writeFileSync(fullPath, content);
+    return fullPath;
+  }
+
+  it('should render components and report axe violations', async () => {
+    write('Icon.tsx', 'export const Icon = ({ src }: { src: string }) => <img src={src} />;\n');
+    const file = write('Banner.tsx', [
+      "import { Icon } from './Icon';",
+      'export default function Banner() {',
+      '  return <section><Icon src="logo.png" /><a href="/more"></a></section>;',
+      '}',
+    ].join('\n'));
+
+    const report = await auditAccessibility([file], { projectRoot: __dirname });
+
+    expect(report.rendered).toEqual(['Banner']);
+    expect(report.warnings).toEqual([]);
+    expect(report.findings.filter(f => f.source === 'axe').map(f => f.rule).sort()).toEqual(['image-alt', 'link-name']);
+    expect(report.findings.find(f => f.rule === 'link-name')).toMatchObject({
+      file,
+      component: 'Banner',
+      impact: 'serious',
+      message: expect.stringContaining('<a href="/more"></a>'),
+    });
+  });
+
+  it('should warn about components that cannot render without props', async () => {
+    const file = write('Price.tsx', 'export const Price = ({ amount }: { amount: number }) => <b>{amount.toFixed(2)}</b>;\n');
+
+    const report = await auditAccessibility([file], { projectRoot: __dirname });
+
+    expect(report.rendered).toEqual([]);
+    expect(report.warnings[0]).toMatchObject({
+      severity: 'warning',
+      message: expect.stringContaining('Price could not be rendered without props'),
+    });
+  });
+
+  it('should fall back to static checks without React in the project', async () => {
+    const file = write('Logo.tsx', 'export const Logo = () => <img src="logo.png" />;\n');
+
+    const report = await auditAccessibility([file], { projectRoot: os.tmpdir() });
+
+    expect(report.findings.map(f => [f.rule, f.source])).toEqual([['image-alt', 'static']]);
+    expect(report.warnings[0].message).toContain('only checked statically');
+  });
+});
+
+describe('accessibilityIssues', () => {
+  it('should map findings to issues with the given severity', () => {
+    expect(accessibilityIssues([
+      { rule: 'image-alt', source: 'static', message: 'no alt', file: '/out/A.tsx', line: 2, column: 3 },
+    ], 'error')).toEqual([
+      { source: 'accessibility', severity: 'error', message: 'no alt', file: '/out/A.tsx', line: 2, column: 3, code: 'image-alt' },
+    ]);
+  });
+});
@@ -0,0 +1,411 @@
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import * as vm from 'vm';
+import axe from 'axe-core';
+import type { DOMWindow } from 'jsdom';
+import ts from 'typescript';
+import { isTestFile } from './test-runner';
+import type { GeneratedSource } from './design-parity';
+import type { ValidationIssue } from './validation';
+
+// ==============================================================================
+// Accessibility Audit
+// ==============================================================================
+// Two passes over the generated components, both local:
+//   - static: JSX checks for missing alt text, unlabeled form fields and
+//     click handlers on elements without a role or keyboard access
+//   - rendered: each exported component is rendered without props with the
+//     project's React (server-side, no browser), the markup is loaded into
+//     jsdom and axe-core runs the rules for the configured WCAG level
+// Rendering needs react and react-dom in the project; when they're missing,
+// or a component can't render without props, only the static pass counts
+// and a warning says why.
+
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+export interface AccessibilityOptions {
+  /** Default: 'AA' */
+  level?: WcagLevel;
+  /** Each category defaults to true */
+  checkContrast?: boolean;
+  checkKeyboard?: boolean;
+  checkAria?: boolean;
+  /** Where react, react-dom and @dtsl/react are resolved (default: cwd) */
+  projectRoot?: string;
+}
+
+export interface AccessibilityFinding {
+  /** Static check id or axe rule id, e.g. 'image-alt' */
+  rule: string;
+  source: 'static' | 'axe';
+  message: string;
+  file: string;
+  line?: number;
+  column?: number;
+  /** Component the rendered finding came from */
+  component?: string;
+  /** axe impact: minor, moderate, serious or critical */
+  impact?: string;
+}
+
+export interface AccessibilityReport {
+  level: WcagLevel;
+  /** Components that rendered and were audited with axe */
+  rendered: string[];
+  findings: AccessibilityFinding[];
+  /** Why parts of the audit were skipped */
+  warnings: ValidationIssue[];
+}
+
+type StaticCategory = 'content' | 'aria' | 'keyboard';
+
+const LEVEL_TAGS: Record<WcagLevel, string[]> = {
+  A: ['wcag2a', 'wcag21a'],
+  AA: ['wcag2a', 'wcag21a', 'wcag2aa', 'wcag21aa', 'wcag22aa'],
+  AAA: ['wcag2a', 'wcag21a', 'wcag2aa', 'wcag21aa', 'wcag22aa', 'wcag2aaa'],
+};
+
+const COMPONENT_FILE_REGEX = /\.[jt]sx$/;
+const STORY_FILE_REGEX = /\.stories\.[jt]sx$/;
+const MODULE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+const STYLE_IMPORT_REGEX = /\.(css|scss|sass|less|styl)$/;
+
+// Elements that are focusable and keyboard-operable on their own
+const INTERACTIVE_ELEMENTS = new Set(['a', 'button', 'input', 'select', 'textarea', 'summary', 'option', 'label']);
+const LABELLED_FIELDS = new Set(['input', 'select', 'textarea']);
+// Inputs that are labelled by their value or need no label
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+const CLICK_HANDLERS = ['onClick', 'onMouseDown', 'onMouseUp'];
+const KEY_HANDLERS = ['onKeyDown', 'onKeyUp', 'onKeyPress'];
+const LABEL_ATTRIBUTES = ['aria-label', 'aria-labelledby', 'title'];
+
+export async function auditAccessibility(
+  files: string[],
+  options: AccessibilityOptions = {},
+): Promise<AccessibilityReport> {
+  const level = options.level ?? 'AA';
+  const componentFiles = [...new Set(files.map(f => path.resolve(f)))].filter(f =>
+    COMPONENT_FILE_REGEX.test(f) && !isTestFile(f) && !STORY_FILE_REGEX.test(f) && fs.existsSync(f));
+  const sources = componentFiles.map(f => ({ file: f, content: fs.readFileSync(f, 'utf-8') }));
+
+  const report: AccessibilityReport = {
+    level,
+    rendered: [],
+    findings: checkStaticAccessibility(sources, options),
+    warnings: [],
+  };
+  if (componentFiles.length === 0) return report;
+
+  const projectRequire = createRequire(path.join(path.resolve(options.projectRoot ?? process.cwd()), 'package.json'));
+  let server: { renderToStaticMarkup(element: unknown): string };
+  let react: { createElement(type: unknown): unknown };
+  try {
+    react = projectRequire('react');
+    server = projectRequire('react-dom/server');
+  } catch {
+    report.warnings.push({
+      source: 'accessibility',
+      severity: 'warning',
+      message: 'react and react-dom are not installed in the project — components were only checked statically',
+    });
+    return report;
+  }
+
+  // jsdom is only loaded when something is rendered
+  const { JSDOM } = await import('jsdom');
+  const loader = new ModuleLoader(projectRequire);
+
+  for (const file of componentFiles) {
+    let exports: Record<string, unknown>;
+    try {
+      exports = loader.load(file);
+    } catch (err) {
+      report.warnings.push(renderWarning(file, `could not be loaded: ${errorMessage(err)}`));
+      continue;
+    }
+
+    for (const [name, component] of componentExports(exports, file)) {
+      let markup: string;
+      try {
+        markup = server.renderToStaticMarkup(react.createElement(component));
+      } catch (err) {
+        report.warnings.push(renderWarning(file, `${name} could not be rendered without props: ${errorMessage(err)}`));
+        continue;
+      }
+
+      const dom = new JSDOM(
+        `<!DOCTYPE html><html lang="en"><head><title>${name}</title></head><body><main>${markup}</main></body></html>`,
+        { runScripts: 'outside-only' },
+      );
+      try {
+        const violations = await runAxe(dom.window, level, options);
+        report.rendered.push(name);
+        report.findings.push(...violations.map(v => ({
+          rule: v.id,
+          source: 'axe' as const,
+          message: describeAxeViolation(name, v),
+          file,
+          component: name,
+          impact: v.impact ?? undefined,
+        })));
+      } finally {
+        dom.window.close();
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Findings as validation issues. With severity 'error' they go back to the
+ * model as a repair turn; 'warning' only reports them.
+ */
+export function accessibilityIssues(
+  findings: AccessibilityFinding[],
+  severity: ValidationIssue['severity'],
+): ValidationIssue[] {
+  return findings.map(f => ({
+    source: 'accessibility',
+    severity,
+    message: f.message,
+    file: f.file,
+    line: f.line,
+    column: f.column,
+    code: f.rule,
+  }));
+}
+
+// ==============================================================================
+// Static checks
+// ==============================================================================
+
+export function checkStaticAccessibility(
+  sources: GeneratedSource[],
+  options: Pick<AccessibilityOptions, 'checkAria' | 'checkKeyboard'> = {},
+): AccessibilityFinding[] {
+  const findings: AccessibilityFinding[] = [];
+  const enabled = (category: StaticCategory) =>
+    (category !== 'aria' || options.checkAria !== false) &&
+    (category !== 'keyboard' || options.checkKeyboard !== false);
+
+  for (const source of sources) {
+    const sourceFile = ts.createSourceFile(source.file, source.content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+    const labelTargets = collectLabelTargets(sourceFile);
+
+    const report = (node: ts.Node, rule: string, category: StaticCategory, message: string) => {
+      if (!enabled(category)) return;
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      findings.push({ rule, source: 'static', message, file: source.file, line: line + 1, column: character + 1 });
+    };
+
+    const visit = (node: ts.Node, insideLabel: boolean): void => {
+      if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+        const opening = ts.isJsxElement(node) ? node.openingElement : node;
+        const tag = opening.tagName.getText(sourceFile);
+        const attributes = readAttributes(opening.attributes, sourceFile);
+
+        // Spread props may carry whatever is missing
+        if (!attributes.spread) {
+          if (tag === 'img' && !attributes.names.has('alt')) {
+            report(opening, 'image-alt', 'content', '<img> has no alt text — add alt (alt="" for decorative images)');
+          }
+
+          if (LABELLED_FIELDS.has(tag) && !insideLabel && !isLabelled(attributes, labelTargets) &&
+              !(tag === 'input' && UNLABELLED_INPUT_TYPES.has(attributes.values.get('type') ?? ''))) {
+            report(opening, 'label', 'content',
+              `<${tag}> has no label — wrap it in <label>, point a label's htmlFor at its id, or add aria-label`);
+          }
+
+          if (tag === 'button' && !LABEL_ATTRIBUTES.some(a => attributes.names.has(a)) && !hasContent(node)) {
+            report(opening, 'button-name', 'content', '<button> has no text — add content or aria-label');
+          }
+
+          const handlesClick = CLICK_HANDLERS.some(h => attributes.names.has(h));
+          if (handlesClick && /^[a-z]/.test(tag) && !INTERACTIVE_ELEMENTS.has(tag)) {
+            if (!attributes.names.has('role')) {
+              report(opening, 'interactive-role', 'aria',
+                `<${tag}> handles clicks but has no role — use a <button> or add role="button"`);
+            }
+            const missing = [
+              !attributes.names.has('tabIndex') && 'tabIndex',
+              !KEY_HANDLERS.some(h => attributes.names.has(h)) && 'a keyboard handler (onKeyDown)',
+            ].filter(Boolean);
+            if (missing.length > 0) {
+              report(opening, 'keyboard-access', 'keyboard',
+                `<${tag}> handles clicks but is not keyboard accessible — add ${missing.join(' and ')}`);
+            }
+          }
+        }
+
+        const childInsideLabel = insideLabel || tag === 'label';
+        ts.forEachChild(node, child => visit(child, childInsideLabel));
+        return;
+      }
+
+      ts.forEachChild(node, child => visit(child, insideLabel));
+    };
+    visit(sourceFile, false);
+  }
+
+  return findings;
+}
+
+interface JsxAttributeSummary {
+  names: Set<string>;
+  /** String literal values by attribute name */
+  values: Map<string, string>;
+  spread: boolean;
+}
+
+function readAttributes(attributes: ts.JsxAttributes, sourceFile: ts.SourceFile): JsxAttributeSummary {
+  const summary: JsxAttributeSummary = { names: new Set(), values: new Map(), spread: false };
+  for (const attribute of attributes.properties) {
+    if (ts.isJsxSpreadAttribute(attribute)) {
+      summary.spread = true;
+      continue;
+    }
+    const name = attribute.name.getText(sourceFile);
+    summary.names.add(name);
+    const value = attribute.initializer;
+    if (value && ts.isStringLiteral(value)) summary.values.set(name, value.text);
+    else if (value && ts.isJsxExpression(value) && value.expression && ts.isStringLiteralLike(value.expression)) {
+      summary.values.set(name, value.expression.text);
+    }
+  }
+  return summary;
+}
+
+/** `htmlFor` values of every <label> in the file; null when one is dynamic */
+function collectLabelTargets(sourceFile: ts.SourceFile): Set<string> | null {
+  const targets = new Set<string>();
+  let dynamic = false;
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isJsxAttribute(node) && node.name.getText(sourceFile) === 'htmlFor') {
+      const value = node.initializer;
+      if (value && ts.isStringLiteral(value)) targets.add(value.text);
+      else dynamic = true;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return dynamic ? null : targets;
+}
+
+function isLabelled(attributes: JsxAttributeSummary, labelTargets: Set<string> | null): boolean {
+  if (LABEL_ATTRIBUTES.some(a => attributes.names.has(a))) return true;
+  if (!attributes.names.has('id')) return false;
+  // A dynamic id or htmlFor can't be matched up — give it the benefit of the doubt
+  const id = attributes.values.get('id');
+  return labelTargets === null || id === undefined || labelTargets.has(id);
+}
+
+function hasContent(node: ts.JsxElement | ts.JsxSelfClosingElement): boolean {
+  if (ts.isJsxSelfClosingElement(node)) return false;
+  return node.children.some(child => !ts.isJsxText(child) || child.text.trim() !== '');
+}
+
+// ==============================================================================
+// Rendering
+// ==============================================================================
+
+/**
+ * Loads generated modules: TypeScript and JSX are transpiled in memory,
+ * relative imports resolve to other generated files and packages come from
+ * the project, so the components render with the project's React.
+ */
+class ModuleLoader {
+  private cache = new Map<string, { exports: Record<string, unknown> }>();
+
+  constructor(private projectRequire: NodeRequire) {}
+
+  load(file: string): Record<string, unknown> {
+    const cached = this.cache.get(file);
+    if (cached) return cached.exports;
+
+    const module = { exports: {} as Record<string, unknown> };
+    this.cache.set(file, module);
+
+    const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf-8'), {
+      fileName: file,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        jsx: ts.JsxEmit.ReactJSX,
+        esModuleInterop: true,
+      },
+    });
+
+    const localRequire = (specifier: string): unknown => {
+      if (STYLE_IMPORT_REGEX.test(specifier)) return {};
+      if (specifier.startsWith('.')) return this.load(resolveModule(path.resolve(path.dirname(file), specifier)));
+      return this.projectRequire(specifier);
+    };
+
+    const run = vm.compileFunction(outputText, ['exports', 'require', 'module', '__filename', '__dirname'], {
+      filename: file,
+    });
+    run(module.exports, localRequire, module, file, path.dirname(file));
+    return module.exports;
+  }
+}
+
+function resolveModule(base: string): string {
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map(ext => base + ext),
+    ...MODULE_EXTENSIONS.map(ext => path.join(base, `index${ext}`)),
+  ];
+  const found = candidates.find(c => fs.existsSync(c) && fs.statSync(c).isFile());
+  if (!found) throw new Error(`Cannot find module '${base}'`);
+  return found;
+}
+
+/** Exported function components, forwardRef and memo included */
+function componentExports(exports: Record<string, unknown>, file: string): Array<[string, unknown]> {
+  const components: Array<[string, unknown]> = [];
+  for (const [key, value] of Object.entries(exports)) {
+    const name = key === 'default' ? path.basename(file).replace(/\..*$/, '') : key;
+    if (!/^[A-Z]/.test(name)) continue;
+    const isComponent = typeof value === 'function' ||
+      (!!value && typeof value === 'object' && '$$typeof' in value);
+    // `export default X` alongside `export const X` is the same component
+    if (isComponent && !components.some(([, c]) => c === value)) components.push([name, value]);
+  }
+  return components;
+}
+
+async function runAxe(window: DOMWindow, level: WcagLevel, options: AccessibilityOptions): Promise<axe.Result[]> {
+  const win = window as DOMWindow & { axe: typeof axe };
+  win.eval(axe.source);
+
+  const disabled = [
+    ...(options.checkContrast === false ? ['color-contrast', 'color-contrast-enhanced'] : []),
+    ...(options.checkKeyboard === false ? win.axe.getRules(['cat.keyboard']).map(r => r.ruleId) : []),
+    ...(options.checkAria === false ? win.axe.getRules(['cat.aria']).map(r => r.ruleId) : []),
+  ];
+
+  const results = await win.axe.run(win.document, {
+    runOnly: { type: 'tag', values: LEVEL_TAGS[level] },
+    rules: Object.fromEntries(disabled.map(id => [id, { enabled: false }])),
+    resultTypes: ['violations'],
+  });
+  return results.violations;
+}
+
+function describeAxeViolation(component: string, violation: axe.Result): string {
+  const elements = violation.nodes.slice(0, 3).map(n => n.html).join(', ');
+  const more = violation.nodes.length > 3 ? ` and ${violation.nodes.length - 3} more` : '';
+  return `${component}: ${violation.help} — ${elements}${more}`;
+}
+
+function renderWarning(file: string, message: string): ValidationIssue {
+  return { source: 'accessibility', severity: 'warning', file, message: `Not audited with axe: ${path.basename(file)} ${message}` };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -1,4 +1,9 @@
-import { DesignForgeAgent, DesignForgeConfig } from './agent';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentCancelledError, DesignForgeAgent, DesignForgeConfig } from './agent';
+import { CheckpointStore } from './checkpoint';
+import * as testRunner from './test-runner';
 
 describe('DesignForgeAgent', () => {
   const mockConfig: DesignForgeConfig = {
@@ -27,7 +32,7 @@ describe('DesignForgeAgent', () => {
       const agent = new DesignForgeAgent(mockConfig);
 
       // Mock the Anthropic API — spy on the nested object, not a dotted path
-      jest.spyOn((agent as any).anthropic.messages, 'create').mockResolvedValue({
+      jest.spyOn((agent as any).llm.client.messages, 'create').mockResolvedValue({
         content: [
           {
             type: 'text',
@@ -41,6 +46,8 @@ describe('DesignForgeAgent', () => {
 
       expect(result).toBeDefined();
       expect(result.status).toBe('complete');
+      // No tests ran, so coverage was not measured rather than 0%
+      expect(result.coverage).toBeNull();
     });
 
     it('should call progress callback on each turn', async () => {
@@ -48,7 +55,7 @@ describe('DesignForgeAgent', () => {
       const progressCallback = jest.fn();
 
       // Mock multi-turn conversation: figma tool → design-system tool → completion
-      jest.spyOn((agent as any).anthropic.messages, 'create')
+      jest.spyOn((agent as any).llm.client.messages, 'create')
         .mockResolvedValueOnce({
           content: [
             {
@@ -92,7 +99,7 @@ describe('DesignForgeAgent', () => {
       const agent = new DesignForgeAgent({ ...mockConfig, maxTurns: 1 });
 
       // Mock LLM to return non-completion text so the loop exhausts maxTurns
-      jest.spyOn((agent as any).anthropic.messages, 'create').mockResolvedValue({
+      jest.spyOn((agent as any).llm.client.messages, 'create').mockResolvedValue({
         content: [
           { type: 'text', text: 'Still working on Phase 1...' }
         ],
@@ -118,4 +125,811 @@ describe('DesignForgeAgent', () => {
       expect((agent as any).config.maxTurns).toBeUndefined(); // Uses 30 default
     });
   });
+
+  describe('checkpoints', () => {
+    const checkpointDir = path.join(__dirname, '__test_runs__');
+
+    beforeEach(() => {
+      if (fs.existsSync(checkpointDir)) fs.rmSync(checkpointDir, { recursive: true });
+    });
+
+    afterAll(() => {
+      if (fs.existsSync(checkpointDir)) fs.rmSync(checkpointDir, { recursive: true });
+    });
+
+    it('should save a checkpoint after every turn', async () => {
+      const agent = new DesignForgeAgent({ ...mockConfig, checkpointDir, runId: 'run-1' });
+      const store = new CheckpointStore(checkpointDir);
+      const turnsSeen: number[] = [];
+
+      jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockImplementationOnce(async () => ({
+          content: [{ type: 'text', text: 'Still working on Phase 1...' }],
+          stop_reason: 'end_turn',
+        }))
+        .mockImplementationOnce(async () => {
+          turnsSeen.push(store.load('run-1').turn);
+          return {
+            content: [{ type: 'text', text: 'WORKFLOW COMPLETE' }],
+            stop_reason: 'end_turn',
+          };
+        });
+
+      await agent.run();
+
+      const checkpoint = store.load('run-1');
+      expect(turnsSeen).toEqual([1]);
+      expect(checkpoint.status).toBe('complete');
+      expect(checkpoint.turn).toBe(2);
+      expect(checkpoint.config).not.toHaveProperty('anthropicApiKey');
+    });
+
+    it('should resume from the last completed turn', async () => {
+      const first = new DesignForgeAgent({ ...mockConfig, checkpointDir, runId: 'run-2' });
+      jest.spyOn((first as any).llm.client.messages, 'create').mockResolvedValue({
+        content: [{ type: 'text', text: 'Still working on Phase 1...' }],
+        stop_reason: 'end_turn',
+      });
+      await expect(first.run()).rejects.toThrow('Agent did not complete within 5 turns');
+
+      const checkpoint = new CheckpointStore(checkpointDir).load('run-2');
+      const resumed = new DesignForgeAgent({ ...mockConfig, maxTurns: 6, checkpointDir, runId: 'run-2' });
+      const create = jest.spyOn((resumed as any).llm.client.messages, 'create').mockResolvedValue({
+        content: [{ type: 'text', text: 'WORKFLOW COMPLETE' }],
+        stop_reason: 'end_turn',
+      });
+      const progress = jest.fn();
+
+      const result = await resumed.resume(checkpoint, progress);
+
+      expect(result.status).toBe('complete');
+      expect(create).toHaveBeenCalledTimes(1);
+      expect((create.mock.calls[0][0] as any).messages).toHaveLength(checkpoint.conversationHistory.length);
+      expect(progress.mock.calls[0][0].turn).toBe(6);
+    });
+
+    it('should refuse to resume a completed run', async () => {
+      const agent = new DesignForgeAgent(mockConfig);
+      const checkpoint = { status: 'complete', runId: 'done' } as any;
+
+      await expect(agent.resume(checkpoint)).rejects.toThrow('Run done already completed');
+    });
+  });
+
+  describe('tools output mode', () => {
+    const outputPath = path.join(__dirname, '__test_tools_output__');
+
+    afterEach(() => {
+      if (fs.existsSync(outputPath)) fs.rmSync(outputPath, { recursive: true });
+    });
+
+    it('should offer write_file and finish next to the other tools', async () => {
+      const agent = new DesignForgeAgent({ ...mockConfig, outputPath, outputMode: 'tools' });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create').mockResolvedValue({
+        content: [{ type: 'tool_use', id: 'f', name: 'finish', input: { summary: 'Nothing to do' } }],
+        stop_reason: 'tool_use',
+      });
+
+      await agent.run();
+
+      const toolNames = (create.mock.calls[0][0] as any).tools.map((t: any) => t.name);
+      expect(toolNames).toEqual(['figma', 'design-system', 'write_file', 'finish']);
+    });
+
+    it('should write files locally and finish with the reported gaps', async () => {
+      const agent = new DesignForgeAgent({ ...mockConfig, outputPath, outputMode: 'tools' });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce({
+          content: [
+            { type: 'tool_use', id: 'w1', name: 'write_file', input: { path: 'Button/Button.tsx', content: 'export {};\n', language: 'tsx' } },
+            { type: 'tool_use', id: 'w2', name: 'write_file', input: { path: '../outside.ts', content: 'x' } },
+          ],
+          stop_reason: 'tool_use',
+        })
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 'f', name: 'finish', input: { summary: 'Button', gaps: ['No Stepper in Naos'] } }],
+          stop_reason: 'tool_use',
+        });
+
+      const result = await agent.run();
+
+      expect(result.files).toEqual([path.join(outputPath, 'Button/Button.tsx')]);
+      expect(result.gaps).toEqual(['No Stepper in Naos']);
+      expect(result.summary).toBe('Button');
+
+      // Both calls got a result; the rejected one tells the model why
+      const toolResults = (create.mock.calls[1][0] as any).messages.at(-1).content;
+      expect(toolResults.map((r: any) => r.tool_use_id)).toEqual(['w1', 'w2']);
+      expect(JSON.parse(toolResults[1].content)).toMatchObject({ error: true });
+    });
+
+    it('should answer tool calls with malformed arguments with a parse error', async () => {
+      const agent = new DesignForgeAgent({ ...mockConfig, outputPath, outputMode: 'tools' });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 'w1', name: 'write_file', input: { __invalidArguments: '{"path": "Button.tsx", content' } }],
+          stop_reason: 'tool_use',
+        })
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 'f', name: 'finish', input: { summary: 'Nothing to do' } }],
+          stop_reason: 'tool_use',
+        });
+
+      const result = await agent.run();
+
+      expect(result.files).toEqual([]);
+      const [toolResult] = (create.mock.calls[1][0] as any).messages.at(-1).content;
+      expect(JSON.parse(toolResult.content)).toMatchObject({
+        error: true,
+        message: expect.stringContaining('not valid JSON: {"path": "Button.tsx", content'),
+      });
+    });
+
+    it('should still write fenced files from models that ignore the tools', async () => {
+      const agent = new DesignForgeAgent({ ...mockConfig, outputPath, outputMode: 'tools' });
+      jest.spyOn((agent as any).llm.client.messages, 'create').mockResolvedValue({
+        content: [{ type: 'text', text: '```ts index.ts\nexport {};\n```\nWORKFLOW COMPLETE' }],
+        stop_reason: 'end_turn',
+      });
+
+      const result = await agent.run();
+
+      expect(result.filesGenerated).toBe(1);
+    });
+  });
+
+  describe('validation', () => {
+    let outputPath: string;
+    let tsconfig: string;
+
+    beforeEach(() => {
+      outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'designforge-agent-'));
+      tsconfig = path.join(outputPath, 'tsconfig.json');
+      fs.writeFileSync(tsconfig, JSON.stringify({ compilerOptions: { strict: true, types: [] } }));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputPath, { recursive: true, force: true });
+    });
+
+    const broken = '```ts size.ts\nexport const size: number = "large";\n```\nWORKFLOW COMPLETE';
+    const fixed = '```ts size.ts\nexport const size: number = 16;\n```\nWORKFLOW COMPLETE';
+
+    it('should send type errors back as a repair turn', async () => {
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        outputPath,
+        validation: { typeCheck: true, tsconfig },
+      });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: broken }], stop_reason: 'end_turn' })
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: fixed }], stop_reason: 'end_turn' });
+
+      const result = await agent.run();
+
+      expect(create).toHaveBeenCalledTimes(2);
+      const repair = (create.mock.calls[1][0] as any).messages.at(-1).content;
+      expect(repair.at(-1).text).toContain('size.ts:1:14 TS2322');
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should run the generated tests and report their coverage', async () => {
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        outputPath,
+        validation: { runTests: true, projectRoot: '/project' },
+      });
+      const runTests = jest.spyOn(testRunner, 'runGeneratedTests')
+        .mockResolvedValueOnce({
+          ran: true, passed: 1, failed: 1, coverage: 40, files: [],
+          issues: [{ source: 'jest', severity: 'error', message: 'Button calls onClick: Expected 1 call' }],
+        })
+        .mockResolvedValueOnce({ ran: true, passed: 2, failed: 0, coverage: 92.5, files: [], issues: [] });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValue({ content: [{ type: 'text', text: fixed }], stop_reason: 'end_turn' });
+
+      const result = await agent.run();
+
+      expect(runTests).toHaveBeenCalledWith([path.join(outputPath, 'size.ts')], expect.objectContaining({
+        cwd: '/project',
+        minCoverage: 80,
+      }));
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(result.coverage).toBe(92.5);
+    });
+
+    it('should score design parity against the pre-fetched Figma tree', async () => {
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        outputPath,
+        validation: { designParity: { minScore: 90 } },
+      });
+      jest.spyOn(agent as any, 'prefetchData').mockResolvedValue({
+        figmaData: 'nodes: [...]',
+        figmaDocument: {
+          nodes: [{ id: '0:1', name: 'Home', type: 'FRAME', children: [
+            { id: '1:1', name: 'Banner', type: 'FRAME', children: [
+              { id: '2:1', name: 'Title', type: 'TEXT', text: 'Welcome back' },
+            ] },
+          ] }],
+        },
+        naosComponents: null,
+        naosTokens: null,
+        naosIcons: null,
+      });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce({
+          content: [{ type: 'text', text: '```tsx Banner.tsx\nexport const Banner = () => <h1>Hello</h1>;\n```\nWORKFLOW COMPLETE' }],
+          stop_reason: 'end_turn',
+        })
+        .mockResolvedValueOnce({
+          content: [{ type: 'text', text: '```tsx Banner.tsx\nexport const Banner = () => <h1>Welcome back</h1>;\n```\nWORKFLOW COMPLETE' }],
+          stop_reason: 'end_turn',
+        });
+
+      const result = await agent.run();
+
+      const repair = (create.mock.calls[1][0] as any).messages.at(-1).content;
+      expect(repair.at(-1).text).toContain('[Banner] Text "Welcome back" is not rendered');
+      expect(result.designParity).toBe(100);
+      expect(result.parity.components).toEqual([{ nodeId: '1:1', name: 'Banner', score: 100, checks: 1, matched: 1 }]);
+    });
+
+    it('should auto-fix code rule violations and send the rest back for repair', async () => {
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        outputPath,
+        validation: { codeRules: {} },
+      });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce({
+          content: [{
+            type: 'text',
+            text: "```tsx Tag.tsx\nimport styled from 'styled-components';\n" +
+              'export const Tag: React.FC<TagProps> = (props) => <b />;\n```\nWORKFLOW COMPLETE',
+          }],
+          stop_reason: 'end_turn',
+        })
+        .mockResolvedValueOnce({
+          content: [{ type: 'text', text: '```tsx Tag.tsx\nexport const Tag = (props: TagProps) => <b />;\n```\nWORKFLOW COMPLETE' }],
+          stop_reason: 'end_turn',
+        });
+
+      const result = await agent.run();
+
+      const repair = (create.mock.calls[1][0] as any).messages.at(-1).content;
+      expect(repair.at(-1).text).toContain('Tag.tsx:1:1 no-foreign-imports');
+      expect(repair.at(-1).text).not.toContain('no-react-fc');
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should report components missing from the Naos catalog as gaps', async () => {
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        outputPath,
+        validation: { naosCatalog: true, maxRepairIterations: 1 },
+      });
+      jest.spyOn(agent as any, 'prefetchData').mockResolvedValue({
+        figmaData: 'nodes: [...]',
+        naosComponents: '# Input\nProps: label',
+        naosCatalog: { components: { Input: { name: 'Input', props: ['label'] } } },
+        naosTokens: null,
+        naosIcons: null,
+      });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValue({
+          content: [{
+            type: 'text',
+            text: "```tsx Field.tsx\nimport { InputText } from '@dtsl/react';\n" +
+              'export const Field = () => <InputText />;\n```\nWORKFLOW COMPLETE',
+          }],
+          stop_reason: 'end_turn',
+        });
+
+      const result = await agent.run();
+
+      const repair = (create.mock.calls[1][0] as any).messages.at(-1).content;
+      expect(repair.at(-1).text).toContain('InputText is not a @dtsl/react component. Did you mean Input?');
+      expect(result.gaps).toEqual(['InputText is not in the Naos component catalog']);
+    });
+
+    it('should report accessibility findings and repair them when configured', async () => {
+      const image = '```tsx Logo.tsx\nexport const Logo = () => <img src="logo.png" />;\n```\nWORKFLOW COMPLETE';
+      const reportOnly = new DesignForgeAgent({
+        ...mockConfig,
+        outputPath,
+        validation: { accessibility: { level: 'A' }, projectRoot: os.tmpdir() },
+      });
+      const create = jest.spyOn((reportOnly as any).llm.client.messages, 'create')
+        .mockResolvedValue({ content: [{ type: 'text', text: image }], stop_reason: 'end_turn' });
+
+      const result = await reportOnly.run();
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(result.accessibility.findings).toMatchObject([{ rule: 'image-alt', line: 1 }]);
+      expect(result.diagnostics).toContainEqual(expect.objectContaining({ code: 'image-alt', severity: 'warning' }));
+
+      const repairing = new DesignForgeAgent({
+        ...mockConfig,
+        outputPath,
+        validation: { accessibility: { repair: true }, projectRoot: os.tmpdir() },
+      });
+      const repairCreate = jest.spyOn((repairing as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: image }], stop_reason: 'end_turn' })
+        .mockResolvedValueOnce({
+          content: [{ type: 'text', text: image.replace('/>', 'alt="Brevo" />') }],
+          stop_reason: 'end_turn',
+        });
+
+      await repairing.run();
+
+      const repair = (repairCreate.mock.calls[1][0] as any).messages.at(-1).content;
+      expect(repair.at(-1).text).toContain('Logo.tsx:1:27 image-alt');
+    });
+
+    it('should report remaining errors once repair attempts run out', async () => {
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        outputPath,
+        validation: { typeCheck: true, tsconfig, maxRepairIterations: 1 },
+      });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValue({ content: [{ type: 'text', text: broken }], stop_reason: 'end_turn' });
+
+      const result = await agent.run();
+
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(result.status).toBe('complete');
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ source: 'typescript', code: 'TS2322', file: path.join(outputPath, 'size.ts') }),
+      ]);
+    });
+  });
+
+  describe('pre-fetch', () => {
+    it('should map design icons to Naos icons and report the rest as gaps', async () => {
+      const agent = new DesignForgeAgent(mockConfig);
+      const figma = {
+        nodes: [{ id: '1:1', name: 'Toolbar', type: 'FRAME', children: [
+          { id: '2:1', name: 'Icon/Close', type: 'INSTANCE' },
+          { id: '2:2', name: 'Icon/Sparkles', type: 'INSTANCE' },
+        ] }],
+      };
+      (agent as any).mcpBridge = {
+        getTools: () => [{ name: 'get_figma_data', toolName: 'get_figma_data' }, { name: 'get_naos_icons', toolName: 'get_naos_icons' }],
+        callTool: jest.fn(async (name: string) =>
+          name === 'get_figma_data' ? JSON.stringify(figma) : 'Icons: CloseIcon, SearchIcon'),
+      };
+
+      const prefetched = await (agent as any).prefetchData();
+      (agent as any).prefetched = prefetched;
+
+      expect(prefetched.naosIcons).toBe('Icons: CloseIcon, SearchIcon');
+      const prompt = (agent as any).buildUserPrompt();
+      expect(prompt).toContain('## Naos Icons (pre-fetched)');
+      expect(prompt).toContain('| Icon/Close | `CloseIcon` |');
+      expect((agent as any).extractResults([], []).gaps).toEqual(['No Naos icon for "Icon/Sparkles" (node 2:2)']);
+    });
+
+    it('should map design style values to Naos tokens', async () => {
+      const agent = new DesignForgeAgent(mockConfig);
+      const figma = {
+        nodes: [{ id: '1:1', name: 'Card', type: 'FRAME', fills: ['#0B996E'], layout: { gap: '18px' } }],
+      };
+      (agent as any).mcpBridge = {
+        getTools: () => [{ name: 'get_figma_data', toolName: 'get_figma_data' }, { name: 'get_naos_design_tokens', toolName: 'get_naos_design_tokens' }],
+        callTool: jest.fn(async (name: string) =>
+          name === 'get_figma_data' ? JSON.stringify(figma) : '--color-primary: #0B996E;\n--space-md: 16px;'),
+      };
+
+      const prefetched = await (agent as any).prefetchData();
+      (agent as any).prefetched = prefetched;
+
+      expect(prefetched.designTokens).toHaveLength(2);
+      const prompt = (agent as any).buildUserPrompt();
+      expect(prompt).toContain('## Token Mapping');
+      expect(prompt).toContain('| #0B996E | color | `--color-primary` |');
+      expect((agent as any).extractResults([], []).gaps).toEqual(['No Naos token for spacing 18px (node 1:1)']);
+    });
+
+    it('should pre-fetch from the first server when several offer the same tool', async () => {
+      const agent = new DesignForgeAgent(mockConfig);
+      const mcpBridge = {
+        getTools: () => [
+          { name: 'figma__get_figma_data', toolName: 'get_figma_data', serverName: 'figma' },
+          { name: 'figma-beta__get_figma_data', toolName: 'get_figma_data', serverName: 'figma-beta' },
+          { name: 'naos__get_naos_icons', toolName: 'get_naos_icons', serverName: 'naos' },
+        ],
+        callTool: jest.fn(async (name: string) =>
+          name.endsWith('get_figma_data') ? JSON.stringify({ nodes: [{ id: '1:1', name: 'Card', type: 'FRAME' }] }) : '- `IconCheck`'),
+      };
+      (agent as any).mcpBridge = mcpBridge;
+
+      const prefetched = await (agent as any).prefetchData();
+
+      expect(mcpBridge.callTool.mock.calls.map(call => call[0])).toEqual(['figma__get_figma_data', 'naos__get_naos_icons']);
+      expect(prefetched.figmaData).toContain('FRAME "Card" #1:1');
+    });
+
+    it('should pre-fetch from configured resources and prompts', async () => {
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        prefetch: {
+          tokens: { resource: 'naos://tokens.css' },
+          extra: { 'Naos Guidelines': { prompt: 'guidelines', args: { platform: 'web' } } },
+        },
+      });
+      const mcpBridge = {
+        getTools: () => [{ name: 'get_naos_design_tokens', toolName: 'get_naos_design_tokens' }],
+        callTool: jest.fn(),
+        readResource: jest.fn(async () => '--space-md: 16px;'),
+        getPrompt: jest.fn(async () => 'Prefer Stack over raw flexbox.'),
+      };
+      (agent as any).mcpBridge = mcpBridge;
+
+      const prefetched = await (agent as any).prefetchData();
+      (agent as any).prefetched = prefetched;
+
+      expect(mcpBridge.callTool).not.toHaveBeenCalled();
+      expect(mcpBridge.getPrompt).toHaveBeenCalledWith('guidelines', { platform: 'web' }, expect.anything());
+      expect(prefetched.designTokens).toEqual([{ name: '--space-md', value: '16px', kind: 'dimension' }]);
+      expect((agent as any).buildUserPrompt()).toContain('## Naos Guidelines (pre-fetched)\nPrefer Stack over raw flexbox.');
+    });
+
+    it('should send a rendered design and image tool results as vision input', async () => {
+      const png = { data: 'iVBORw0KGgo=', mimeType: 'image/png' };
+      const mcpBridge = {
+        getTools: () => [{ name: 'get_screenshot', toolName: 'get_screenshot', serverName: 'figma', inputSchema: { type: 'object' } }],
+        callTool: jest.fn(),
+        callToolContent: jest.fn(async () => ({ text: 'Rendered', images: [png] })),
+      };
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        figmaUrl: 'https://www.figma.com/design/ABC/Page?node-id=1-2',
+        mcpBridge: mcpBridge as any,
+        prefetch: { screenshot: { tool: 'get_screenshot', args: { fileKey: '{fileKey}', nodeId: '{nodeId}' } } },
+        vision: { maxImages: 1 },
+      });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 's1', name: 'get_screenshot', input: { nodeId: '3:4' } }],
+          stop_reason: 'tool_use',
+        })
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'WORKFLOW COMPLETE' }], stop_reason: 'end_turn' });
+
+      await agent.run();
+
+      expect(mcpBridge.callToolContent).toHaveBeenCalledWith('get_screenshot', { fileKey: 'ABC', nodeId: '1:2' }, expect.anything());
+      const [prompt, , toolResults] = (create.mock.calls[1][0] as any).messages;
+      expect(prompt.content[1]).toEqual({ type: 'image', source: { type: 'base64', media_type: 'image/png', data: png.data } });
+      // The one-image budget went to the prefetched render
+      expect(toolResults.content[0].content).toBe("Rendered\n[image/png image omitted: the run's 1-image budget is used up]");
+    });
+
+    it('should send a design over the token budget one frame chunk per turn', async () => {
+      const frame = (n: number) => ({
+        id: `2:${n}`,
+        name: `Screen ${n}`,
+        type: 'FRAME',
+        children: [{ id: `3:${n}`, name: 'Body', type: 'TEXT', text: `Screen ${n} body copy, long enough to need its own part` }],
+      });
+      const figma = { nodes: [{ id: '1:1', name: 'Flow', type: 'FRAME', children: [frame(1), frame(2)] }] };
+      const mcpBridge = {
+        getTools: () => [{ name: 'get_figma_data', toolName: 'get_figma_data' }],
+        callTool: jest.fn(async () => JSON.stringify(figma)),
+      };
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        mcpBridge: mcpBridge as any,
+        outputMode: 'tools',
+        figmaTokenBudget: 40,
+      });
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 'f1', name: 'finish', input: { summary: 'Screen 1', gaps: ['No Stepper in Naos'] } }],
+          stop_reason: 'tool_use',
+        })
+        .mockResolvedValueOnce({
+          content: [{ type: 'tool_use', id: 'f2', name: 'finish', input: { summary: 'Screen 2', gaps: [] } }],
+          stop_reason: 'tool_use',
+        });
+
+      const result = await agent.run();
+
+      expect(create).toHaveBeenCalledTimes(2);
+      const [first, second] = create.mock.calls.map(call => (call[0] as any).messages);
+      expect(first[0].content).toContain('### Part 1 of 2: Flow / Screen 1');
+      expect(first[0].content).not.toContain('Screen 2 body copy');
+
+      const followUp = second.at(-1).content;
+      expect(followUp[0]).toMatchObject({ type: 'tool_result', tool_use_id: 'f1' });
+      expect(followUp[1].text).toContain('Part 2 of 2: Flow / Screen 2');
+      expect(followUp[1].text).toContain('"Screen 2 body copy, long enough to need its own part"');
+      expect(followUp[1].text).toContain('This is the LAST part.');
+
+      expect(result.gaps).toEqual(['No Stepper in Naos']);
+      expect(result.summary).toBe('Screen 2');
+    });
+
+    it('should report chunks left when turns run out as gaps of a partial run', async () => {
+      const frame = (n: number) => ({
+        id: `2:${n}`,
+        name: `Screen ${n}`,
+        type: 'FRAME',
+        children: [{ id: `3:${n}`, name: 'Body', type: 'TEXT', text: `Screen ${n} body copy, long enough to need its own part` }],
+      });
+      const figma = { nodes: [{ id: '1:1', name: 'Flow', type: 'FRAME', children: [frame(1), frame(2), frame(3)] }] };
+      const mcpBridge = {
+        getTools: () => [{ name: 'get_figma_data', toolName: 'get_figma_data' }],
+        callTool: jest.fn(async () => JSON.stringify(figma)),
+      };
+      const agent = new DesignForgeAgent({
+        ...mockConfig,
+        mcpBridge: mcpBridge as any,
+        outputMode: 'tools',
+        figmaTokenBudget: 40,
+        maxTurns: 1,
+      });
+      jest.spyOn((agent as any).llm.client.messages, 'create').mockResolvedValue({
+        content: [{ type: 'tool_use', id: 'f', name: 'finish', input: { summary: 'Screen 1' } }],
+        stop_reason: 'tool_use',
+      });
+
+      const result = await agent.run();
+
+      expect(result.status).toBe('partial');
+      expect(result.gaps).toEqual([
+        'Figma chunk "Flow / Screen 2" (#2:2) was not implemented: ran out of turns',
+        'Figma chunk "Flow / Screen 3" (#2:3) was not implemented: ran out of turns',
+      ]);
+    });
+  });
+
+  describe('chunked mode', () => {
+    const outputPath = path.join(__dirname, '__test_chunked_output__');
+    const checkpointDir = path.join(__dirname, '__test_chunked_runs__');
+
+    afterEach(() => {
+      for (const dir of [outputPath, checkpointDir]) {
+        if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true });
+      }
+    });
+
+    const figma = {
+      nodes: [{ id: '1:1', name: 'Settings', type: 'FRAME', children: [
+        { id: '2:1', name: 'Header', type: 'FRAME', children: [{ id: '3:1', name: 'Save Button', type: 'INSTANCE' }] },
+        { id: '2:2', name: 'Profile card', type: 'FRAME', children: [{ id: '3:2', name: 'Email', type: 'TEXT', text: 'Email address' }] },
+      ] }],
+    };
+    const naosDocs = '## Button\nProps: variant\n## Modal\nProps: open';
+    const reply = (file: string) => ({
+      content: [{ type: 'text', text: `\`\`\`tsx ${file}\nexport default function C() { return null; }\n\`\`\`\nWORKFLOW COMPLETE` }],
+      stop_reason: 'end_turn',
+    });
+
+    function chunkedAgent(config: Partial<DesignForgeConfig> = {}) {
+      const mcpBridge = {
+        getTools: () => [{ name: 'get_figma_data', toolName: 'get_figma_data' }, { name: 'get_naos_component_docs', toolName: 'get_naos_component_docs' }],
+        callTool: jest.fn(async (name: string) => name === 'get_figma_data' ? JSON.stringify(figma) : naosDocs),
+      };
+      return new DesignForgeAgent({
+        ...mockConfig,
+        outputPath,
+        checkpointDir,
+        runId: 'chunked',
+        mcpBridge: mcpBridge as any,
+        chunked: true,
+        ...config,
+      });
+    }
+
+    it('should generate each frame in its own pass, then compose the page', async () => {
+      const agent = chunkedAgent();
+      const progress = jest.fn();
+      const store = new CheckpointStore(checkpointDir);
+      const checkpointsSeen: any[] = [];
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce(reply('Header/Header.tsx'))
+        .mockImplementationOnce(async () => {
+          checkpointsSeen.push(store.load('chunked').chunkedRun);
+          return reply('ProfileCard/ProfileCard.tsx');
+        })
+        .mockResolvedValueOnce(reply('Settings/Settings.tsx'));
+
+      const result = await agent.run(progress);
+
+      const prompts = create.mock.calls.map(call => (call[0] as any).messages[0].content as string);
+      expect(prompts[0]).toContain('Frame 1 of 2');
+      expect(prompts[0]).toContain('"Save Button"');
+      expect(prompts[0]).not.toContain('Email address');
+      // Only the docs of the components the frame uses
+      expect(prompts[0]).toContain('Props: variant');
+      expect(prompts[0]).not.toContain('Props: open');
+      expect(prompts[1]).toContain('Email address');
+      expect(prompts[2]).toContain('| Header | `Header` | `Header/Header.tsx` |');
+      expect(prompts[2]).toContain('`Settings/Settings.tsx`');
+
+      expect(checkpointsSeen[0]).toMatchObject({ pass: 1, results: [{ nodeId: '2:1', componentName: 'Header' }] });
+      expect(store.load('chunked').status).toBe('complete');
+
+      expect(result.files).toEqual([
+        path.join(outputPath, 'Header/Header.tsx'),
+        path.join(outputPath, 'ProfileCard/ProfileCard.tsx'),
+        path.join(outputPath, 'Settings/Settings.tsx'),
+      ]);
+      expect(result.components).toBe(3);
+      expect(result.chunks.map((c: any) => c.component)).toEqual(['Header', 'ProfileCard']);
+
+      const events = progress.mock.calls.map(([p]) => p);
+      expect(events.filter(e => e.status === 'complete')).toHaveLength(1);
+      expect(events.filter(e => e.chunk && e.turn === 0).map(e => [e.chunk.phase, e.chunk.index, e.chunk.name])).toEqual([
+        ['chunk', 1, 'Header'],
+        ['chunk', 2, 'Profile card'],
+        ['composition', 3, 'Settings'],
+      ]);
+    });
+
+    it('should only count passes that measured coverage', async () => {
+      const agent = chunkedAgent({ validation: { typeCheck: false, runTests: true } });
+      const notRun = { ran: false, passed: 0, failed: 0, coverage: 0, files: [], issues: [] };
+      const runTests = jest.spyOn(testRunner, 'runGeneratedTests')
+        .mockReset()
+        .mockResolvedValueOnce(notRun)
+        .mockResolvedValueOnce(notRun)
+        .mockResolvedValueOnce({ ran: true, passed: 3, failed: 0, coverage: 87.5, files: [], issues: [] });
+      jest.spyOn((agent as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce(reply('Header/Header.tsx'))
+        .mockResolvedValueOnce(reply('ProfileCard/ProfileCard.tsx'))
+        .mockResolvedValueOnce(reply('Settings/Settings.tsx'));
+
+      const result = await agent.run();
+
+      expect(runTests).toHaveBeenCalledTimes(3);
+      expect(result.coverage).toBe(87.5);
+      runTests.mockRestore();
+    });
+
+    it('should resume with the pass the run stopped in', async () => {
+      const first = chunkedAgent();
+      jest.spyOn((first as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce(reply('Header/Header.tsx'))
+        .mockRejectedValueOnce(new Error('connection reset'));
+      await expect(first.run()).rejects.toThrow('connection reset');
+
+      const second = chunkedAgent();
+      const create = jest.spyOn((second as any).llm.client.messages, 'create')
+        .mockResolvedValueOnce(reply('ProfileCard/ProfileCard.tsx'))
+        .mockResolvedValueOnce(reply('Settings/Settings.tsx'));
+      const result = await second.resume(new CheckpointStore(checkpointDir).load('chunked'));
+
+      expect(create).toHaveBeenCalledTimes(2);
+      expect((create.mock.calls[0][0] as any).messages[0].content).toContain('Frame 2 of 2');
+      expect(result.chunks.map((c: any) => c.component)).toEqual(['Header', 'ProfileCard']);
+    });
+  });
+
+  describe('streaming', () => {
+    const outputPath = path.join(__dirname, '__test_stream_output__');
+
+    afterEach(() => {
+      if (fs.existsSync(outputPath)) fs.rmSync(outputPath, { recursive: true });
+    });
+
+    /** Minimal stand-in for the SDK's MessageStream: replays text deltas. */
+    function fakeStream(deltas: string[], onDelta: (index: number) => void = () => {}) {
+      const handlers: Record<string, Array<(arg: any) => void>> = {};
+      const text = deltas.join('');
+      return {
+        on(event: string, handler: (arg: any) => void) {
+          (handlers[event] ??= []).push(handler);
+          return this;
+        },
+        async finalMessage() {
+          for (const [i, delta] of deltas.entries()) {
+            handlers.text?.forEach(h => h(delta));
+            // Let pending file writes run, as they would between network chunks
+            await new Promise(resolve => setImmediate(resolve));
+            onDelta(i);
+          }
+          handlers.contentBlock?.forEach(h => h({ type: 'text', text }));
+          return { content: [{ type: 'text', text }], stop_reason: 'end_turn' };
+        },
+      };
+    }
+
+    it('should write each file as soon as its code block closes', async () => {
+      const agent = new DesignForgeAgent({ ...mockConfig, outputPath, stream: true });
+      const progress = jest.fn();
+      const buttonFile = path.join(outputPath, 'Button/Button.tsx');
+      const existedAfterDelta: boolean[] = [];
+
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create');
+      jest.spyOn((agent as any).llm.client.messages, 'stream').mockReturnValue(fakeStream([
+        'Here it is:\n```tsx Button/Button.tsx\n',
+        'export const Button = () => <button />;\n',
+        '```\n',
+        'WORKFLOW COMPLETE',
+      ], () => existedAfterDelta.push(fs.existsSync(buttonFile))));
+
+      const result = await agent.run(progress);
+
+      expect(create).not.toHaveBeenCalled();
+      expect(result.filesGenerated).toBe(1);
+      // Written right after the closing fence, before the response finished
+      expect(existedAfterDelta).toEqual([false, false, true, true]);
+      expect(fs.readFileSync(buttonFile, 'utf-8')).toBe('export const Button = () => <button />;\n');
+
+      const streaming = progress.mock.calls.map(([p]) => p).filter(p => p.status === 'streaming');
+      expect(streaming.map(p => p.textDelta).filter(Boolean).join('')).toContain('WORKFLOW COMPLETE');
+      expect(streaming[1].currentFile).toBe('Button/Button.tsx');
+      expect(streaming.find(p => p.writtenFiles)?.writtenFiles).toEqual([buttonFile]);
+    });
+
+    it('should not write files twice at the end of the turn', async () => {
+      const agent = new DesignForgeAgent({ ...mockConfig, outputPath, stream: true });
+
+      jest.spyOn((agent as any).llm.client.messages, 'stream').mockReturnValue(fakeStream([
+        '```ts index.ts\nexport {};\n```\nWORKFLOW COMPLETE',
+      ]));
+
+      const result = await agent.run();
+
+      expect(result.filesGenerated).toBe(1);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should pass the abort signal to the LLM request', async () => {
+      const agent = new DesignForgeAgent(mockConfig);
+      const controller = new AbortController();
+      const create = jest.spyOn((agent as any).llm.client.messages, 'create').mockResolvedValue({
+        content: [{ type: 'text', text: 'WORKFLOW COMPLETE' }],
+        stop_reason: 'end_turn',
+      });
+
+      await agent.run(undefined, { signal: controller.signal });
+
+      expect(create.mock.calls[0][1]).toEqual({ signal: controller.signal });
+    });
+
+    it('should stop with a cancelled progress event when aborted', async () => {
+      const agent = new DesignForgeAgent(mockConfig);
+      const controller = new AbortController();
+      const progress = jest.fn();
+
+      jest.spyOn((agent as any).llm.client.messages, 'create').mockImplementation(async () => {
+        controller.abort();
+        return {
+          content: [{ type: 'text', text: 'Still working on Phase 1...' }],
+          stop_reason: 'end_turn',
+        };
+      });
+
+      const run = agent.run(progress, { signal: controller.signal });
+
+      await expect(run).rejects.toBeInstanceOf(AgentCancelledError);
+      expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'cancelled', turn: 0 }));
+    });
+
+    it('should disconnect MCP servers when cancelled', async () => {
+      const agent = new DesignForgeAgent(mockConfig);
+      const controller = new AbortController();
+      const bridge = {
+        getTools: () => [],
+        callTool: jest.fn(),
+        disconnect: jest.fn().mockResolvedValue(undefined),
+      };
+      (agent as any).config = { ...mockConfig, mcpServers: [{ name: 'naos', transport: 'http', url: 'http://x' }] };
+      jest.spyOn(require('./mcp-bridge').McpBridge.prototype, 'connect').mockImplementation(async function (this: any) {
+        Object.assign(this, bridge);
+      });
+      jest.spyOn((agent as any).llm.client.messages, 'create').mockImplementation(async () => {
+        controller.abort();
+        throw new Error('Request was aborted.');
+      });
+
+      await expect(agent.run(undefined, { signal: controller.signal })).rejects.toBeInstanceOf(AgentCancelledError);
+      expect(bridge.disconnect).toHaveBeenCalled();
+    });
+  });
 });
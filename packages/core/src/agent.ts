@@ -1,25 +1,252 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { McpBridge, type McpServerConfig } from './mcp-bridge';
-import { parseCodeBlocks, writeCodeBlocks } from './file-writer';
+import * as fs from 'fs';
+import { McpBridge, McpBridgeError, type McpImage, type McpServerConfig, type McpToolResult } from './mcp-bridge';
+import type { McpCache } from './mcp-cache';
+import { createLlmProvider, invalidToolArguments, type LlmProvider, type LlmProviderName } from './llm-provider';
+import { IMAGE_CHARS_ESTIMATE, ImageBudget, type VisionConfig } from './vision';
+import { CodeFenceStream, parseCodeBlocks, writeCodeBlocks, type ParsedCodeBlock } from './file-writer';
+import { parseFigmaData, parseFigmaUrl, type FigmaDocument } from './figma-data';
+import { DEFAULT_FIGMA_TOKEN_BUDGET, reduceFigmaData, type FigmaChunk } from './figma-reducer';
+import { CheckpointStore, createRunId, type RunCheckpoint } from './checkpoint';
+import {
+  OUTPUT_TOOLS,
+  WRITE_FILE_TOOL,
+  FINISH_TOOL,
+  executeWriteFile,
+  isOutputTool,
+  parseFinishInput,
+  type FinishReport,
+} from './output-tools';
+import { buildRepairPrompt, type ValidationIssue } from './validation';
+import { typeCheckFiles } from './type-checker';
+import { isTestFile, runGeneratedTests } from './test-runner';
+import { analyzeDesignParity, parityIssues, type ParityReport } from './design-parity';
+import { checkCodeRules, fixCodeRules, type CodeRulesOptions } from './code-rules';
+import { accessibilityIssues, auditAccessibility, type AccessibilityReport, type WcagLevel } from './accessibility';
+import { formatIconMapping, iconGaps, matchIcons, parseNaosIcons, type IconMapping, type NaosIcon } from './icon-matcher';
+import {
+  formatTokenMapping,
+  parseNaosTokens,
+  resolveDesignTokens,
+  tokenGaps,
+  type NaosToken,
+  type TokenMapping,
+} from './token-resolver';
+import { catalogGaps, catalogIssues, checkCatalogUsage, parseNaosCatalog, selectNaosDocs, type NaosCatalog } from './naos-catalog';
+import {
+  buildChunkPassPrompt,
+  buildCompositionPrompt,
+  chunkDocument,
+  compositionDocument,
+  planPageChunks,
+  toComponentName,
+  type ChunkedRunState,
+  type PageChunk,
+} from './page-chunks';
 
 export interface DesignForgeConfig {
   figmaUrl: string;
   outputPath: string;
-  anthropicApiKey: string;
+  /** API key for the 'anthropic' provider, where it is required */
+  anthropicApiKey?: string;
   minCoverage?: number;
   maxTurns?: number;
   verbose?: boolean;
+  /**
+   * The model backend: 'anthropic' (Messages API, the default) or
+   * 'openai' (OpenAI-compatible chat completions). See llm-provider.ts.
+   */
+  provider?: LlmProviderName;
+  /** API key for the 'openai' provider; local servers usually need none */
+  openaiApiKey?: string;
+  /** The provider's base URL; LM Studio on 127.0.0.1:1234 by default */
   baseURL?: string;
   model?: string;
+  /** A ready provider to use instead of `provider`, e.g. a custom backend */
+  llmProvider?: LlmProvider;
   mcpServers?: McpServerConfig[];
+  /**
+   * An already-connected bridge to use instead of `mcpServers`.
+   * The agent never connects or disconnects it — the owner does.
+   */
+  mcpBridge?: McpBridge;
+  /** On-disk cache for the bridge created from `mcpServers` */
+  mcpCache?: McpCache | null;
+  /** Directory for per-turn run checkpoints. Checkpointing is off when unset. */
+  checkpointDir?: string;
+  /** Run ID for checkpoints; generated when omitted. */
+  runId?: string;
+  /**
+   * Stream LLM responses: report text as it arrives and write each file
+   * as soon as its code block closes instead of at the end of the turn.
+   */
+  stream?: boolean;
+  /**
+   * How the model emits files: 'fences' parses markdown code blocks;
+   * 'tools' offers local write_file/finish tools (for models with tool
+   * use), with fence parsing kept as a fallback. Default: 'fences'.
+   */
+  outputMode?: 'fences' | 'tools';
+  /**
+   * Token budget for the pre-fetched Figma outline. Designs over budget
+   * are sent one frame chunk per turn. Default: DEFAULT_FIGMA_TOKEN_BUDGET.
+   */
+  figmaTokenBudget?: number;
+  /**
+   * Generate the page in passes: one per top-level frame or component
+   * set, then a composition pass for the page component. `maxTurns`
+   * applies per pass.
+   */
+  chunked?: boolean;
+  /**
+   * Naos data fetched once for several runs (see fetchNaosContext). The
+   * agent then only pre-fetches the Figma design.
+   */
+  naosContext?: NaosContext;
+  /**
+   * Where the Naos docs, tokens and icons come from, plus extra context
+   * for the prompt. Default: the `get_naos_*` tools.
+   */
+  prefetch?: PrefetchSources;
+  /** Image input from MCP results; disable for text-only models */
+  vision?: VisionConfig;
+  /** Checks run over the generated files when the model reports completion */
+  validation?: ValidationConfig;
+}
+
+export interface ValidationConfig {
+  /** Type-check generated .ts/.tsx files with the TypeScript compiler */
+  typeCheck?: boolean;
+  /** tsconfig.json to check against; the nearest one above outputPath when omitted */
+  tsconfig?: string;
+  /**
+   * Run the generated tests with Jest from `projectRoot` and measure line
+   * coverage; failing tests or coverage below minCoverage need repair
+   */
+  runTests?: boolean;
+  /** Where Jest runs, so the project's Jest config applies (default: cwd) */
+  projectRoot?: string;
+  /**
+   * Compare the generated JSX with the pre-fetched Figma tree; a score
+   * below minScore (default: 0, report only) needs repair
+   */
+  designParity?: { minScore?: number };
+  /**
+   * Check generated source files against the Naos/@dtsl/react rules in
+   * code-rules.ts. Fixable findings are fixed on disk as files are written
+   * unless `autoFix` is false; the rest need repair.
+   */
+  codeRules?: CodeRulesOptions & { autoFix?: boolean };
+  /**
+   * Check @dtsl/react imports and props against the component catalog
+   * built from the pre-fetched Naos docs. Unknown ones need repair and are
+   * reported as design-system gaps.
+   */
+  naosCatalog?: boolean;
+  /**
+   * Audit generated components for WCAG issues: static JSX checks plus
+   * axe-core on each component rendered in jsdom with the project's React.
+   * Findings are reported; with `repair` they also need repair.
+   */
+  accessibility?: {
+    level?: WcagLevel;
+    checkContrast?: boolean;
+    checkKeyboard?: boolean;
+    checkAria?: boolean;
+    repair?: boolean;
+  };
+  /** Repair turns allowed while validation errors remain (default: 2) */
+  maxRepairIterations?: number;
+}
+
+/** What validateOutput() learned about the generated files */
+interface ValidationOutcome {
+  diagnostics: ValidationIssue[];
+  /** Line coverage in percent; null when tests were not run */
+  coverage: number | null;
+  parity: ParityReport | null;
+  accessibility: AccessibilityReport | null;
+  /** Design-system gaps found by the checks, e.g. unknown components */
+  gaps: string[];
+}
+
+/** What a run resolves with */
+export interface DesignForgeResult {
+  /** 'partial' when turns ran out before every Figma chunk was sent */
+  status: 'complete' | 'partial';
+  filesGenerated: number;
+  components: number;
+  tests: number;
+  stories: number;
+  /** Line coverage in percent; null when no generated tests ran */
+  coverage: number | null;
+  designParity: number;
+  parity: ParityReport | null;
+  accessibility: AccessibilityReport | null;
+  gaps: string[];
+  summary?: string;
+  outputPath: string;
+  files: string[];
+  diagnostics: ValidationIssue[];
+  /** Chunked mode: one entry per frame pass */
+  chunks?: ChunkSummary[];
+}
+
+export interface ChunkSummary {
+  nodeId: string;
+  /** Frame name */
+  name: string;
+  /** Component generated for the frame */
+  component: string;
+  files: string[];
+  designParity: number;
+  gaps: string[];
 }
 
 export interface AgentProgress {
   turn: number;
-  status: 'running' | 'complete' | 'error';
+  /** 'streaming' events are only emitted with `stream: true`, mid-response */
+  status: 'running' | 'streaming' | 'complete' | 'error' | 'cancelled';
   message: string;
   toolCalls?: Array<{ tool: string; input: any }>;
   result?: any;
+  /** Text received since the previous streaming event */
+  textDelta?: string;
+  /** File whose code block is currently being streamed, once known */
+  currentFile?: string;
+  /** Files written to disk mid-response */
+  writtenFiles?: string[];
+  /** Chunked mode: the pass this event belongs to */
+  chunk?: ChunkProgress;
+}
+
+export interface ChunkProgress {
+  /** 1-based; the composition pass comes after the last chunk */
+  index: number;
+  /** Chunks in the page, not counting the composition pass */
+  total: number;
+  /** Frame name, or the page component for the composition pass */
+  name: string;
+  phase: 'chunk' | 'composition';
+}
+
+export interface RunOptions {
+  /**
+   * Cancels the run: in-flight LLM and MCP requests are aborted, MCP
+   * servers are disconnected and run() rejects with AgentCancelledError.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown by run()/resume() when the run was cancelled through its
+ * AbortSignal. `turn` is the last fully completed (and checkpointed) turn.
+ */
+export class AgentCancelledError extends Error {
+  constructor(public readonly turn: number) {
+    super(`Run cancelled after turn ${turn}`);
+    this.name = 'AgentCancelledError';
+  }
 }
 
 // ==============================================================================
@@ -29,49 +256,268 @@ export interface AgentProgress {
 // it needs in the initial prompt. This eliminates the need for multi-turn
 // tool calling, which many local LLMs cannot handle reliably.
 
-interface PrefetchedContext {
+export interface PrefetchedContext {
+  /** Reduced outline of the design, or its first chunk when it was split */
   figmaData: string | null;
+  /**
+   * The full parsed node tree — `figmaData` is reduced for the prompt.
+   * Used to validate the output against the design.
+   */
+  figmaDocument?: FigmaDocument | null;
+  /** Set when the design is over the token budget: sent one per turn */
+  figmaChunks?: FigmaChunk[] | null;
   naosComponents: string | null;
+  /** Components and props parsed from the full `naosComponents` response */
+  naosCatalog?: NaosCatalog | null;
   naosTokens: string | null;
+  /** Tokens parsed from the full `naosTokens` response */
+  designTokens?: NaosToken[] | null;
+  /** Figma style values mapped to Naos tokens */
+  tokenMapping?: TokenMapping | null;
   naosIcons: string | null;
+  /** Figma icon instances mapped to Naos icon exports */
+  iconMapping?: IconMapping | null;
+  /** Chunked mode: the passes the page is generated in */
+  pageChunks?: PageChunk[] | null;
+  /** `prefetch.extra` sections, in config order */
+  extraContext?: Array<{ title: string; content: string }> | null;
+  /** Rendered images of the design, from `prefetch.screenshot` */
+  designImages?: McpImage[] | null;
+}
+
+/** Where a pre-fetched part comes from: set one of `tool`, `resource` or `prompt` */
+export interface PrefetchSource {
+  tool?: string;
+  /** Resource URI, e.g. `naos://tokens/tokens.css` */
+  resource?: string;
+  prompt?: string;
+  /** Tool or prompt arguments */
+  args?: Record<string, string>;
+}
+
+export interface PrefetchSources {
+  components?: PrefetchSource;
+  tokens?: PrefetchSource;
+  icons?: PrefetchSource;
+  /** More context for the prompt, one section per title */
+  extra?: Record<string, PrefetchSource>;
+  /**
+   * A tool that renders the design as an image, sent to the model as
+   * vision input. `{fileKey}` and `{nodeId}` in args are filled in.
+   */
+  screenshot?: { tool: string; args?: Record<string, string> };
+}
+
+export const DEFAULT_PREFETCH_SOURCES: Required<Omit<PrefetchSources, 'extra' | 'screenshot'>> = {
+  components: { tool: 'get_naos_component_docs' },
+  tokens: { tool: 'get_naos_design_tokens' },
+  icons: { tool: 'get_naos_icons' },
+};
+
+/**
+ * The design-system half of the pre-fetch. It does not depend on the
+ * design, so a batch of runs fetches it once with fetchNaosContext() and
+ * hands it to every agent as `naosContext`.
+ */
+export interface NaosContext
+  extends Pick<PrefetchedContext, 'naosComponents' | 'naosCatalog' | 'naosTokens' | 'designTokens' | 'naosIcons' | 'extraContext'> {
+  /** Uncapped component docs, for picking out a chunk's components */
+  naosDocs: string | null;
+  /** Icon exports; null when the icons source is unavailable */
+  icons: NaosIcon[] | null;
+}
+
+/**
+ * Fetch the Naos component docs, design tokens and icons, and any extra
+ * context, from the configured sources. A tool source whose tool no server
+ * offers is skipped; a failed fetch is logged and leaves its part null.
+ */
+export async function fetchNaosContext(
+  bridge: McpBridge,
+  options: { signal?: AbortSignal; log?: (message: string) => void; sources?: PrefetchSources } = {},
+): Promise<NaosContext> {
+  const { signal, log = () => {} } = options;
+  const sources = { ...DEFAULT_PREFETCH_SOURCES, ...options.sources };
+  const naos: NaosContext = {
+    naosComponents: null,
+    naosCatalog: null,
+    naosTokens: null,
+    designTokens: null,
+    naosIcons: null,
+    extraContext: [],
+    naosDocs: null,
+    icons: null,
+  };
+
+  const fetchPart = async (label: string, source: PrefetchSource, use: (raw: string) => void) => {
+    const tool = source.tool && exposedToolName(bridge, source.tool);
+    if (!source.resource && !source.prompt && !tool) return;
+    log(`📥 Pre-fetching ${label}...`);
+    try {
+      use(await fetchPrefetchSource(bridge, { ...source, tool }, signal));
+    } catch (err) {
+      log(`  ⚠️  ${label} fetch failed: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  await fetchPart('Naos component docs', sources.components, raw => {
+    naos.naosDocs = raw;
+    naos.naosComponents = raw.length > 6_000 ? raw.slice(0, 6_000) + '\n[TRUNCATED]' : raw;
+    naos.naosCatalog = parseNaosCatalog(raw);
+    log(`  ✅ Naos components: ${raw.length} chars (${naos.naosComponents.length} after cap)`);
+    if (naos.naosCatalog) {
+      log(`  📚 Naos catalog: ${Object.keys(naos.naosCatalog.components).length} component(s)`);
+    }
+  });
+
+  await fetchPart('Naos design tokens', sources.tokens, raw => {
+    naos.naosTokens = raw.length > 4_000 ? raw.slice(0, 4_000) + '\n[TRUNCATED]' : raw;
+    naos.designTokens = parseNaosTokens(raw);
+    log(`  ✅ Naos tokens: ${raw.length} chars (${naos.naosTokens.length} after cap), ${naos.designTokens.length} parsed`);
+  });
+
+  await fetchPart('Naos icons', sources.icons, raw => {
+    naos.naosIcons = raw.length > 4_000 ? raw.slice(0, 4_000) + '\n[TRUNCATED]' : raw;
+    naos.icons = parseNaosIcons(raw);
+    log(`  ✅ Naos icons: ${raw.length} chars (${naos.naosIcons.length} after cap)`);
+  });
+
+  for (const [title, source] of Object.entries(sources.extra ?? {})) {
+    await fetchPart(title, source, raw => {
+      const content = raw.length > 4_000 ? raw.slice(0, 4_000) + '\n[TRUNCATED]' : raw;
+      naos.extraContext!.push({ title, content });
+      log(`  ✅ ${title}: ${raw.length} chars (${content.length} after cap)`);
+    });
+  }
+
+  return naos;
+}
+
+/**
+ * The name to call `tool` by: the exposed name when `tool` is one (e.g. a
+ * configured `figma__get_figma_data`), otherwise the first server offering
+ * it — a bare name several servers share would be rejected as ambiguous.
+ */
+function exposedToolName(bridge: McpBridge, tool: string): string | undefined {
+  const tools = bridge.getTools();
+  return (tools.find(t => t.name === tool) ?? tools.find(t => t.toolName === tool))?.name;
+}
+
+function fetchPrefetchSource(bridge: McpBridge, source: PrefetchSource, signal?: AbortSignal): Promise<string> {
+  if (source.resource) return bridge.readResource(source.resource, { signal });
+  if (source.prompt) return bridge.getPrompt(source.prompt, source.args, { signal });
+  return bridge.callTool(source.tool!, source.args ?? {}, { signal });
+}
+
+// ==============================================================================
+// Loop state
+// ==============================================================================
+// Everything executeLoop() needs to continue a run, besides the
+// conversation history. Persisted in run checkpoints.
+
+interface LoopState {
+  /** Last fully completed turn */
+  turn: number;
+  allWrittenFiles: string[];
+  // Track tool calls to detect loops. Key: "toolName:argsJSON" → result.
+  // When the LLM calls the same tool with the same args, we return the
+  // cached result with a nudge instead of hitting the MCP server again.
+  previousToolCalls: Map<string, string>;
+  // Track which tool categories have been used for phase-aware prompting.
+  calledToolCategories: Set<string>;
+  // Count consecutive duplicate calls per tool name. After
+  // MAX_CONSECUTIVE_DUPLICATES, the tool is stripped from the tools
+  // list entirely, forcing the model to use different tools.
+  consecutiveDuplicates: Map<string, number>;
+  blockedTools: Set<string>;
+  /** Repair turns already spent on validation errors */
+  repairIterations: number;
+  /** Figma chunk being implemented (0 when the design was not split) */
+  chunkIndex: number;
+  /** Gaps reported when finishing earlier chunks */
+  chunkGaps: string[];
+}
+
+function initialLoopState(): LoopState {
+  return {
+    turn: 0,
+    allWrittenFiles: [],
+    previousToolCalls: new Map(),
+    calledToolCategories: new Set(),
+    consecutiveDuplicates: new Map(),
+    blockedTools: new Set(),
+    repairIterations: 0,
+    chunkIndex: 0,
+    chunkGaps: [],
+  };
+}
+
+/** Categorize written files by extension/pattern */
+function countGeneratedFiles(files: string[]) {
+  return {
+    filesGenerated: files.length,
+    components: files.filter(f => /\.tsx$/.test(f) && !f.includes('.test.') && !f.includes('.stories.')).length,
+    tests: files.filter(f => f.includes('.test.')).length,
+    stories: files.filter(f => f.includes('.stories.')).length,
+  };
+}
+
+// Rough context size of message content in characters. Images count at a
+// fixed estimate, not their base64 length.
+function contentChars(
+  content: Anthropic.MessageParam['content'] | Anthropic.Messages.ToolResultBlockParam['content'],
+): number {
+  if (content === undefined) return 0;
+  if (typeof content === 'string') return content.length;
+
+  let chars = 0;
+  for (const block of content) {
+    if (block.type === 'image') {
+      chars += IMAGE_CHARS_ESTIMATE;
+    } else if (block.type === 'tool_result') {
+      chars += contentChars(block.content);
+    } else if ('text' in block && typeof block.text === 'string') {
+      chars += block.text.length;
+    } else {
+      // Tool use blocks, documents, etc.
+      chars += JSON.stringify(block).length;
+    }
+  }
+  return chars;
 }
 
 export class DesignForgeAgent {
-  private anthropic: Anthropic;
+  private llm: LlmProvider;
   private config: DesignForgeConfig;
   private conversationHistory: Anthropic.MessageParam[] = [];
   private mcpBridge: McpBridge | null = null;
   private prefetched: PrefetchedContext | null = null;
+  private checkpointStore: CheckpointStore | null = null;
+  private checkpointCreatedAt = new Date().toISOString();
+  private loopState: LoopState | null = null;
+  /** Chunked mode: the whole page's context and how far the passes got */
+  private chunkedRun: { page: PrefetchedContext; state: ChunkedRunState } | null = null;
+  /** Chunked mode: what the current pass generates, added to the user prompt */
+  private passInstructions: string | null = null;
+  private signal: AbortSignal | undefined;
+  private imageBudget: ImageBudget;
+  readonly runId: string;
 
   constructor(config: DesignForgeConfig) {
-    if (!config.anthropicApiKey) {
+    if (!config.llmProvider && (config.provider ?? 'anthropic') === 'anthropic' && !config.anthropicApiKey) {
       throw new Error('API key is required');
     }
     this.config = config;
-    this.anthropic = new Anthropic({
-      apiKey: config.anthropicApiKey,
-      baseURL: config.baseURL || 'http://127.0.0.1:1234',
-    });
-  }
-
-  /**
-   * Parse a Figma URL to extract the file key and optional node ID.
-   * Handles URLs like:
-   *   https://www.figma.com/design/ABCDEF/Name?node-id=123-456&m=dev
-   *   https://www.figma.com/file/ABCDEF/Name
-   */
-  private parseFigmaUrl(url: string): { fileKey: string; nodeId?: string } {
-    // Extract file key from /design/<key>/ or /file/<key>/
-    const keyMatch = url.match(/\/(?:design|file)\/([A-Za-z0-9]+)/);
-    if (!keyMatch) {
-      throw new Error(`Could not extract Figma file key from URL: ${url}`);
+    this.runId = config.runId || createRunId();
+    this.imageBudget = new ImageBudget(config.vision);
+    if (config.checkpointDir) {
+      this.checkpointStore = new CheckpointStore(config.checkpointDir);
     }
-
-    // Extract node ID from ?node-id=<id> query parameter
-    const nodeMatch = url.match(/[?&]node-id=([^&]+)/);
-    const nodeId = nodeMatch ? nodeMatch[1] : undefined;
-
-    return { fileKey: keyMatch[1], nodeId };
+    this.llm = config.llmProvider ?? createLlmProvider({
+      provider: config.provider,
+      apiKey: config.provider === 'openai' ? config.openaiApiKey : config.anthropicApiKey,
+      baseURL: config.baseURL,
+    });
   }
 
   /**
@@ -93,75 +539,313 @@ export class DesignForgeAgent {
 
     if (!this.mcpBridge) return ctx;
 
-    const tools = this.mcpBridge.getTools().map(t => t.name);
-    const { fileKey, nodeId } = this.parseFigmaUrl(this.config.figmaUrl);
+    const { fileKey, nodeId } = parseFigmaUrl(this.config.figmaUrl);
 
     // Fetch Figma data
-    if (tools.includes('get_figma_data')) {
+    const figmaTool = exposedToolName(this.mcpBridge, 'get_figma_data');
+    if (figmaTool) {
       this.log('\n📥 Pre-fetching Figma design data...');
       try {
         const args: Record<string, unknown> = { fileKey };
         if (nodeId) args.nodeId = nodeId;
-        const raw = await this.mcpBridge.callTool('get_figma_data', args);
-        // Cap to preserve context window
-        ctx.figmaData = raw.length > 8_000 ? raw.slice(0, 8_000) + '\n[TRUNCATED]' : raw;
-        this.log(`  ✅ Figma data: ${raw.length} chars (${ctx.figmaData.length} after cap)`);
+        const raw = await this.mcpBridge.callTool(figmaTool, args, { signal: this.signal });
+        ctx.figmaDocument = parseFigmaData(raw);
+        if (ctx.figmaDocument) {
+          this.log(`  ✅ Figma data: ${raw.length} chars`);
+          Object.assign(ctx, this.reduceFigma(ctx.figmaDocument));
+        } else {
+          // Not a node tree we understand — cap it to preserve context window
+          ctx.figmaData = raw.length > 8_000 ? raw.slice(0, 8_000) + '\n[TRUNCATED]' : raw;
+          this.log(`  ✅ Figma data: ${raw.length} chars (${ctx.figmaData.length} after cap)`);
+        }
       } catch (err) {
         this.log(`  ⚠️  Figma fetch failed: ${err instanceof Error ? err.message : err}`);
       }
     }
 
-    // Fetch Naos component docs
-    if (tools.includes('get_naos_component_docs')) {
-      this.log('📥 Pre-fetching Naos component docs...');
+    // A rendered image of the design, for models that take vision input
+    const screenshot = this.config.prefetch?.screenshot;
+    const screenshotTool = screenshot && exposedToolName(this.mcpBridge, screenshot.tool);
+    if (screenshot && screenshotTool && this.imageBudget.enabled) {
+      this.log(`\n📥 Pre-fetching design render (${screenshot.tool})...`);
       try {
-        const raw = await this.mcpBridge.callTool('get_naos_component_docs', {});
-        ctx.naosComponents = raw.length > 6_000 ? raw.slice(0, 6_000) + '\n[TRUNCATED]' : raw;
-        this.log(`  ✅ Naos components: ${raw.length} chars (${ctx.naosComponents.length} after cap)`);
+        const args = Object.fromEntries(Object.entries(screenshot.args ?? {}).map(([key, value]) => [
+          key,
+          value.replace('{fileKey}', fileKey).replace('{nodeId}', nodeId?.replace(/-/g, ':') ?? ''),
+        ]));
+        const { images } = await this.mcpBridge.callToolContent(screenshotTool, args, { signal: this.signal });
+        ctx.designImages = images;
+        this.log(`  ✅ Design render: ${images.length} image(s)`);
       } catch (err) {
-        this.log(`  ⚠️  Naos components fetch failed: ${err instanceof Error ? err.message : err}`);
+        this.log(`  ⚠️  Design render failed: ${err instanceof Error ? err.message : err}`);
       }
     }
 
-    // Fetch Naos design tokens
-    if (tools.includes('get_naos_design_tokens')) {
-      this.log('📥 Pre-fetching Naos design tokens...');
-      try {
-        const raw = await this.mcpBridge.callTool('get_naos_design_tokens', {});
-        ctx.naosTokens = raw.length > 4_000 ? raw.slice(0, 4_000) + '\n[TRUNCATED]' : raw;
-        this.log(`  ✅ Naos tokens: ${raw.length} chars (${ctx.naosTokens.length} after cap)`);
-      } catch (err) {
-        this.log(`  ⚠️  Naos tokens fetch failed: ${err instanceof Error ? err.message : err}`);
-      }
+    // The same for every design — batch runs fetch it once and share it
+    const naos = this.config.naosContext ?? await fetchNaosContext(this.mcpBridge, {
+      signal: this.signal,
+      log: message => this.log(message),
+      sources: this.config.prefetch,
+    });
+    ctx.naosComponents = naos.naosComponents;
+    ctx.naosCatalog = naos.naosCatalog;
+    ctx.naosTokens = naos.naosTokens;
+    ctx.designTokens = naos.designTokens;
+    ctx.naosIcons = naos.naosIcons;
+    ctx.extraContext = naos.extraContext;
+
+    // Map the design's colors, spacing and type onto the Naos tokens
+    if (naos.designTokens?.length && ctx.figmaDocument) {
+      ctx.tokenMapping = resolveDesignTokens(ctx.figmaDocument, naos.designTokens);
+      this.log(`  🎨 Tokens: ${ctx.tokenMapping.matched.length} value(s) matched, ${ctx.tokenMapping.unmatched.length} without a Naos token`);
+    }
+
+    // Map the design's icons onto the Naos icons
+    if (naos.icons && ctx.figmaDocument) {
+      ctx.iconMapping = matchIcons(ctx.figmaDocument, naos.icons);
+      this.log(`  🔣 Icons: ${ctx.iconMapping.matched.length} matched, ${ctx.iconMapping.unmatched.length} without a Naos icon`);
+    }
+
+    if (this.config.chunked && ctx.figmaDocument) {
+      ctx.pageChunks = planPageChunks(ctx.figmaDocument, ctx.naosCatalog, components => {
+        const docs = naos.naosDocs && selectNaosDocs(naos.naosDocs, components);
+        return docs && docs.length > 6_000 ? docs.slice(0, 6_000) + '\n[TRUNCATED]' : docs;
+      });
+      this.log(`  🧩 Chunked mode: ${ctx.pageChunks.length} frame(s) — ${ctx.pageChunks.map(c => c.name).join(', ')}`);
     }
 
     return ctx;
   }
 
-  async run(onProgress?: (progress: AgentProgress) => void): Promise<any> {
-    // Connect to MCP servers if configured. Without them, tool calls
-    // fall back to the built-in mock layer (useful for tests/dev).
-    if (this.config.mcpServers && this.config.mcpServers.length > 0) {
-      this.mcpBridge = new McpBridge(
-        this.config.mcpServers,
-        this.config.verbose,
-      );
-      await this.mcpBridge.connect();
-      this.log(`\nMCP bridge connected. Tools: ${this.mcpBridge.getTools().map(t => t.name).join(', ')}`);
-    }
+  /**
+   * The prompt's Figma data: a structural outline within the token
+   * budget, or its first chunk when it had to be split.
+   */
+  private reduceFigma(doc: FigmaDocument): Pick<PrefetchedContext, 'figmaData' | 'figmaChunks'> {
+    const reduced = reduceFigmaData(doc, { tokenBudget: this.config.figmaTokenBudget });
+    const { nodes, dropped, deduped, tokens } = reduced.stats;
+    this.log(`  🗜️  Reduced to ~${tokens} tokens (${nodes} nodes, ${dropped} dropped, ${deduped} deduped)`);
+    if (!reduced.split) return { figmaData: reduced.outline, figmaChunks: null };
+
+    this.log(`  ✂️  Over the ${this.config.figmaTokenBudget ?? DEFAULT_FIGMA_TOKEN_BUDGET}-token budget — split into ${reduced.chunks.length} chunks`);
+    return { figmaData: reduced.chunks[0].outline, figmaChunks: reduced.chunks };
+  }
 
-    try {
+  async run(
+    onProgress?: (progress: AgentProgress) => void,
+    options: RunOptions = {},
+  ): Promise<any> {
+    this.signal = options.signal;
+    return this.withMcpBridge(onProgress, async () => {
       // Pre-fetch all design context before starting the LLM loop.
       // This makes the agent work with any model (local or cloud)
       // by eliminating the need for multi-turn tool orchestration.
       this.prefetched = await this.prefetchData();
-      return await this.executeLoop(onProgress);
+      // A page of one frame has nothing to compose
+      if ((this.prefetched.pageChunks?.length ?? 0) > 1) {
+        return this.executeChunked(onProgress, { pass: 0, results: [] });
+      }
+      return this.executeLoop(onProgress);
+    });
+  }
+
+  /**
+   * Continue a checkpointed run from its last completed turn. The
+   * pre-fetched context comes from the checkpoint, so MCP servers are
+   * only contacted again if the model calls tools.
+   */
+  async resume(
+    checkpoint: RunCheckpoint,
+    onProgress?: (progress: AgentProgress) => void,
+    options: RunOptions = {},
+  ): Promise<any> {
+    if (checkpoint.status === 'complete') {
+      throw new Error(`Run ${checkpoint.runId} already completed`);
+    }
+
+    this.signal = options.signal;
+    this.checkpointCreatedAt = checkpoint.createdAt;
+    this.conversationHistory = checkpoint.conversationHistory;
+    this.prefetched = checkpoint.prefetched;
+
+    this.log(`\n♻️  Resuming run ${checkpoint.runId} after turn ${checkpoint.turn}`);
+
+    const restored: LoopState = {
+      turn: checkpoint.turn,
+      allWrittenFiles: checkpoint.writtenFiles,
+      previousToolCalls: new Map(checkpoint.toolCallCache),
+      calledToolCategories: new Set(checkpoint.calledToolCategories),
+      consecutiveDuplicates: new Map(checkpoint.consecutiveDuplicates),
+      blockedTools: new Set(checkpoint.blockedTools),
+      repairIterations: checkpoint.repairIterations ?? 0,
+      chunkIndex: checkpoint.chunkIndex ?? 0,
+      chunkGaps: checkpoint.chunkGaps ?? [],
+    };
+
+    if (checkpoint.chunkedRun) {
+      // Saved between passes: the next pass has not started a conversation yet
+      const inPass = checkpoint.conversationHistory.length > 0;
+      return this.withMcpBridge(onProgress, () =>
+        this.executeChunked(onProgress, checkpoint.chunkedRun!, inPass ? restored : undefined));
+    }
+    return this.withMcpBridge(onProgress, () => this.executeLoop(onProgress, restored));
+  }
+
+  /**
+   * Run `fn` with the MCP bridge connected, and translate an abort into
+   * a 'cancelled' progress event plus AgentCancelledError.
+   */
+  private async withMcpBridge<T>(
+    onProgress: ((progress: AgentProgress) => void) | undefined,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      // Connect to MCP servers if configured. Without them, tool calls
+      // fall back to the built-in mock layer (useful for tests/dev).
+      // A shared bridge (e.g. from watch mode) is used as-is.
+      if (this.config.mcpBridge) {
+        this.mcpBridge = this.config.mcpBridge;
+      } else if (this.config.mcpServers && this.config.mcpServers.length > 0) {
+        this.mcpBridge = new McpBridge(
+          this.config.mcpServers,
+          this.config.verbose,
+          { cache: this.config.mcpCache },
+        );
+        await this.mcpBridge.connect({ signal: this.signal });
+        this.log(`\nMCP bridge connected. Tools: ${this.mcpBridge.getTools().map(t => t.name).join(', ')}`);
+      }
+
+      return await fn();
+    } catch (err) {
+      if (!this.signal?.aborted) throw err;
+
+      const turn = this.loopState?.turn ?? 0;
+      this.log(`\n🛑 Run cancelled after turn ${turn}`);
+      onProgress?.({
+        turn,
+        status: 'cancelled',
+        message: `Run cancelled after turn ${turn}`,
+      });
+      throw new AgentCancelledError(turn);
     } finally {
-      // Always disconnect, even if the loop throws
-      if (this.mcpBridge) {
+      // Always disconnect, even if the loop throws — unless the bridge
+      // is shared, in which case its owner decides when to close it.
+      // Closing a stdio transport also terminates its child process.
+      if (this.mcpBridge && this.mcpBridge !== this.config.mcpBridge) {
         await this.mcpBridge.disconnect();
-        this.mcpBridge = null;
       }
+      this.mcpBridge = null;
+    }
+  }
+
+  /**
+   * Persist the loop state after a completed turn. A failed write is
+   * logged but never aborts the run.
+   */
+  private saveCheckpoint(state: LoopState, status: RunCheckpoint['status'] = 'running'): void {
+    if (!this.checkpointStore) return;
+
+    // Secrets and live objects stay out of the checkpoint
+    // (the shared Naos context is re-fetched on resume rather than stored twice)
+    const {
+      anthropicApiKey: _key,
+      openaiApiKey: _openaiKey,
+      llmProvider: _llm,
+      mcpServers: _servers,
+      mcpBridge: _bridge,
+      mcpCache: _cache,
+      naosContext: _naos,
+      ...config
+    } = this.config;
+    try {
+      this.checkpointStore.save({
+        version: 1,
+        runId: this.runId,
+        status,
+        createdAt: this.checkpointCreatedAt,
+        updatedAt: new Date().toISOString(),
+        config,
+        turn: state.turn,
+        conversationHistory: this.conversationHistory,
+        // Chunked runs keep the page's context; each pass's is derived from it
+        prefetched: this.chunkedRun?.page ?? this.prefetched,
+        chunkedRun: this.chunkedRun?.state,
+        toolCallCache: [...state.previousToolCalls],
+        calledToolCategories: [...state.calledToolCategories],
+        consecutiveDuplicates: [...state.consecutiveDuplicates],
+        blockedTools: [...state.blockedTools],
+        writtenFiles: state.allWrittenFiles,
+        repairIterations: state.repairIterations,
+        chunkIndex: state.chunkIndex,
+        chunkGaps: state.chunkGaps,
+      });
+    } catch (err) {
+      this.log(`  ⚠️  Checkpoint write failed: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /**
+   * Request one LLM response as a stream. Text deltas and the file being
+   * generated are reported as they arrive, and each code block is written
+   * to disk as soon as its closing fence does.
+   */
+  private async streamMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    turn: number,
+    allWrittenFiles: string[],
+    onProgress?: (progress: AgentProgress) => void,
+  ): Promise<Anthropic.Message> {
+    const fences = new CodeFenceStream();
+    // Writes are chained so files land in the order their blocks closed
+    let writes = Promise.resolve();
+
+    const materialize = (blocks: ParsedCodeBlock[]) => {
+      if (blocks.length === 0) return;
+      writes = writes.then(async () => {
+        const written = await writeCodeBlocks(blocks, this.config.outputPath);
+        if (written.length === 0) return;
+        this.autoFixFiles(written);
+
+        allWrittenFiles.push(...written);
+        for (const fp of written) {
+          this.log(`  📄 Wrote: ${fp}`);
+        }
+        onProgress?.({
+          turn,
+          status: 'streaming',
+          message: `Wrote ${written.length} file(s)`,
+          writtenFiles: written,
+        });
+      });
+    };
+
+    const request = this.llm.streamMessage(params, {
+      onText: (delta) => {
+        const completed = fences.push(delta);
+        onProgress?.({
+          turn,
+          status: 'streaming',
+          message: delta,
+          textDelta: delta,
+          currentFile: fences.currentFile ?? undefined,
+        });
+        materialize(completed);
+      },
+      // Text blocks are joined with newlines in the non-streaming path too
+      onContentBlock: (block) => {
+        if (block.type === 'text') materialize(fences.push('\n'));
+      },
+    }, { signal: this.signal });
+
+    try {
+      const message = await request;
+      materialize(fences.end());
+      await writes;
+      return message;
+    } catch (error) {
+      // Let in-flight writes settle; the stream error is the one to report
+      await writes.catch(() => undefined);
+      throw error;
     }
   }
 
@@ -185,34 +869,70 @@ export class DesignForgeAgent {
     );
   }
 
-  private async executeLoop(onProgress?: (progress: AgentProgress) => void): Promise<any> {
-    const systemPrompt = this.buildSystemPrompt();
-    const userPrompt = this.buildUserPrompt();
-
-    this.conversationHistory = [
-      { role: 'user', content: userPrompt }
-    ];
+  /**
+   * Call a tool through the MCP bridge. A failed call is still a tool
+   * result: the model sees the error and can work around it instead of
+   * the run failing.
+   */
+  private async callMcpTool(name: string, args: Record<string, unknown>): Promise<McpToolResult> {
+    try {
+      return await this.mcpBridge!.callToolContent(name, args, { signal: this.signal });
+    } catch (err) {
+      const text = err instanceof McpBridgeError
+        ? JSON.stringify(err)
+        : JSON.stringify({ error: true, message: err instanceof Error ? err.message : String(err) });
+      return { text, images: [] };
+    }
+  }
 
-    let turn = 0;
-    const maxTurns = this.config.maxTurns || 30;
-    const allWrittenFiles: string[] = [];
+  /**
+   * Message content with images attached, as far as the run's image
+   * budget allows; images left out are noted in the text instead.
+   */
+  private withImages(
+    text: string,
+    images: McpImage[],
+  ): string | Array<Anthropic.Messages.TextBlockParam | Anthropic.Messages.ImageBlockParam> {
+    if (images.length === 0) return text;
+
+    const { blocks, notes } = this.imageBudget.take(images);
+    const body = [text, ...notes].join('\n');
+    if (blocks.length === 0) return body;
+
+    this.log(`  🖼️  Attached ${blocks.length} image(s)`);
+    return [{ type: 'text', text: body }, ...blocks];
+  }
 
-    // Track tool calls to detect loops. Key: "toolName:argsJSON" → result.
-    // When the LLM calls the same tool with the same args, we return the
-    // cached result with a nudge instead of hitting the MCP server again.
-    const previousToolCalls = new Map<string, string>();
+  private async executeLoop(
+    onProgress?: (progress: AgentProgress) => void,
+    restored?: LoopState,
+  ): Promise<any> {
+    const systemPrompt = this.buildSystemPrompt();
 
-    // Track which tool categories have been used for phase-aware prompting.
-    const calledToolCategories = new Set<string>();
+    // A resumed run already has its history; a fresh one starts with the job
+    if (!restored) {
+      this.conversationHistory = [
+        { role: 'user', content: this.withImages(this.buildUserPrompt(), this.prefetched?.designImages ?? []) }
+      ];
+    }
 
-    // Count consecutive duplicate calls per tool name. After
-    // MAX_CONSECUTIVE_DUPLICATES, the tool is stripped from the tools
-    // list entirely, forcing the model to use different tools.
-    const consecutiveDuplicates = new Map<string, number>();
-    const blockedTools = new Set<string>();
+    const state: LoopState = restored ?? initialLoopState();
+    const {
+      allWrittenFiles,
+      previousToolCalls,
+      calledToolCategories,
+      consecutiveDuplicates,
+      blockedTools,
+    } = state;
+
+    this.loopState = state;
+    let turn = state.turn;
+    const maxTurns = this.config.maxTurns || 30;
     const MAX_CONSECUTIVE_DUPLICATES = 2;
 
     while (turn < maxTurns) {
+      // Stop between turns; in-flight requests are aborted by the signal
+      this.signal?.throwIfAborted();
       turn++;
 
       this.log(`\n🔨 DesignForge - Turn ${turn}/${maxTurns}`);
@@ -238,12 +958,20 @@ export class DesignForgeAgent {
         messages: this.conversationHistory,
       };
 
-      const response = isPrefetchMode
-        ? await this.anthropic.messages.create(baseParams)
-        : await this.anthropic.messages.create({
-            ...baseParams,
-            tools: this.buildTools(blockedTools),
-          });
+      const params: Anthropic.MessageCreateParamsNonStreaming = isPrefetchMode
+        ? (this.usesOutputTools() ? { ...baseParams, tools: OUTPUT_TOOLS } : baseParams)
+        : { ...baseParams, tools: this.buildTools(blockedTools) };
+
+      // Streaming writes files while the response arrives; otherwise they
+      // are written below, once the full response is in.
+      const streamed = !!this.config.stream;
+      const response = streamed
+        ? await this.streamMessage(params, turn, allWrittenFiles, onProgress)
+        : await this.llm.createMessage(params, { signal: this.signal });
+
+      // An abort that lands after the response arrived still stops here,
+      // before tool calls run or the turn is checkpointed.
+      this.signal?.throwIfAborted();
 
       // Process response blocks
       const textContent: string[] = [];
@@ -255,7 +983,7 @@ export class DesignForgeAgent {
           this.log(`\n💭 Claude: ${block.text}`);
         } else if (block.type === 'tool_use') {
           toolCalls.push({ tool: block.name, input: block.input });
-          this.log(`\n🔧 Using ${block.name} MCP`);
+          this.log(`\n🔧 Using ${block.name}${isOutputTool(block.name) ? '' : ' MCP'}`);
           this.log(`   Input: ${JSON.stringify(block.input, null, 2)}`);
         }
       }
@@ -264,10 +992,11 @@ export class DesignForgeAgent {
 
       // Parse code blocks from LLM output and write files to disk.
       // Each turn may produce zero or more files.
-      if (fullText.includes('```')) {
+      if (!streamed && fullText.includes('```')) {
         const codeBlocks = parseCodeBlocks(fullText);
         if (codeBlocks.length > 0) {
           const written = await writeCodeBlocks(codeBlocks, this.config.outputPath);
+          this.autoFixFiles(written);
           allWrittenFiles.push(...written);
           for (const fp of written) {
             this.log(`  📄 Wrote: ${fp}`);
@@ -275,6 +1004,40 @@ export class DesignForgeAgent {
         }
       }
 
+      const toolUses = response.content.filter(
+        (block): block is Anthropic.Messages.ToolUseBlock =>
+          block.type === 'tool_use'
+      );
+
+      // Local output tools run before the completion check, so files
+      // written in the same turn as `finish` are not lost. Their results
+      // join the MCP tool results below, keyed by tool_use_id.
+      const outputToolResults = new Map<string, string>();
+      let finishReport: FinishReport | null = null;
+
+      for (const toolUse of toolUses) {
+        const rawArguments = invalidToolArguments(toolUse.input);
+        if (rawArguments !== undefined) {
+          // Answered here for every tool, so malformed calls never run
+          outputToolResults.set(toolUse.id, JSON.stringify({
+            error: true,
+            message: `Arguments for ${toolUse.name} are not valid JSON: ${rawArguments.slice(0, 200)}. ` +
+              'Call the tool again with a JSON object.',
+          }));
+        } else if (toolUse.name === WRITE_FILE_TOOL) {
+          const { result, writtenPath } = await executeWriteFile(toolUse.input, this.config.outputPath);
+          if (writtenPath) {
+            this.autoFixFiles([writtenPath]);
+            allWrittenFiles.push(writtenPath);
+            this.log(`  📄 Wrote: ${writtenPath}`);
+          }
+          outputToolResults.set(toolUse.id, result);
+        } else if (toolUse.name === FINISH_TOOL) {
+          finishReport = parseFinishInput(toolUse.input);
+          outputToolResults.set(toolUse.id, JSON.stringify({ success: true }));
+        }
+      }
+
       onProgress?.({
         turn,
         status: 'running',
@@ -283,13 +1046,78 @@ export class DesignForgeAgent {
       });
 
       // Check for completion
-      if (this.isWorkflowComplete(fullText, response.stop_reason || undefined)) {
-        const result = this.extractResults(this.conversationHistory, allWrittenFiles);
+      if (finishReport || this.isWorkflowComplete(fullText, response.stop_reason || undefined)) {
+        // A split design moves on to its next chunk; validation waits
+        // until the model has seen all of it.
+        const chunks = this.prefetched?.figmaChunks;
+        if (chunks && state.chunkIndex < chunks.length - 1 && turn < maxTurns) {
+          state.chunkIndex++;
+          state.chunkGaps.push(...(finishReport?.gaps ?? []));
+          this.log(`  ✂️  Moving on to Figma chunk ${state.chunkIndex + 1}/${chunks.length}`);
+
+          this.pushFollowUp(response.content, toolUses, outputToolResults, this.buildChunkPrompt(chunks, state.chunkIndex));
+
+          onProgress?.({
+            turn,
+            status: 'running',
+            message: `Implementing Figma chunk ${state.chunkIndex + 1}/${chunks.length}: ${chunks[state.chunkIndex].path}`,
+          });
+
+          state.turn = turn;
+          this.saveCheckpoint(state);
+          continue;
+        }
+
+        // Out of turns with chunks left: they were never shown to the model,
+        // so the run is reported partial with each one as a gap
+        const skippedChunks = chunks ? chunks.slice(state.chunkIndex + 1) : [];
+        if (skippedChunks.length > 0) {
+          this.log(`  ⚠️  Out of turns — ${skippedChunks.length} Figma chunk(s) not implemented`);
+          state.chunkGaps.push(...skippedChunks.map(c =>
+            `Figma chunk "${c.path}" (#${c.nodeId}) was not implemented: ran out of turns`));
+        }
+
+        // Validate before accepting completion. Errors go back to the model
+        // as a repair turn while iterations (and turns) remain.
+        const validation = await this.validateOutput(allWrittenFiles);
+        const { diagnostics } = validation;
+        const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+        const maxRepairs = this.config.validation?.maxRepairIterations ?? 2;
+
+        if (errorCount > 0 && state.repairIterations < maxRepairs && turn < maxTurns) {
+          state.repairIterations++;
+          this.log(`  🛠️  ${errorCount} validation error(s) — repair attempt ${state.repairIterations}/${maxRepairs}`);
+
+          this.pushFollowUp(
+            response.content,
+            toolUses,
+            outputToolResults,
+            buildRepairPrompt(diagnostics, this.config.outputPath, state.repairIterations, maxRepairs),
+          );
+
+          onProgress?.({
+            turn,
+            status: 'running',
+            message: `Repairing ${errorCount} validation error(s) (attempt ${state.repairIterations}/${maxRepairs})`,
+          });
+
+          state.turn = turn;
+          this.saveCheckpoint(state);
+          continue;
+        }
+
+        const result = this.extractResults(this.conversationHistory, allWrittenFiles, finishReport, validation);
+        if (skippedChunks.length > 0) result.status = 'partial';
+        state.turn = turn;
+        // A chunked run checkpoints between passes instead
+        if (!this.chunkedRun) this.saveCheckpoint(state, 'complete');
 
         onProgress?.({
           turn,
           status: 'complete',
-          message: '✅ Workflow completed successfully!',
+          message: skippedChunks.length > 0
+            ? `⚠️ Workflow stopped with ${skippedChunks.length} Figma chunk(s) not implemented`
+            : '✅ Workflow completed successfully!',
           result
         });
 
@@ -299,12 +1127,6 @@ export class DesignForgeAgent {
         return result;
       }
 
-      // Handle tool uses
-      const toolUses = response.content.filter(
-        (block): block is Anthropic.Messages.ToolUseBlock =>
-          block.type === 'tool_use'
-      );
-
       // Check if ALL tool calls in this turn target blocked tools.
       // If so, the model is stuck in a loop and we need to surgically
       // rewrite the conversation to break it out.
@@ -340,6 +1162,8 @@ export class DesignForgeAgent {
             `- get_naos_icons: to find available icons\n\n` +
             `DO NOT call get_figma_data again. Start Phase 2 now.`,
         });
+        state.turn = turn;
+        this.saveCheckpoint(state);
         continue;
       }
 
@@ -357,8 +1181,19 @@ export class DesignForgeAgent {
         // instead of re-fetching (prevents infinite loops on local LLMs).
         const toolResults = await Promise.all(
           toolUses.map(async (toolUse) => {
+            // Already handled locally above — never sent to the MCP bridge
+            const outputResult = outputToolResults.get(toolUse.id);
+            if (outputResult !== undefined) {
+              return {
+                type: 'tool_result' as const,
+                tool_use_id: toolUse.id,
+                content: outputResult,
+              };
+            }
+
             const callKey = `${toolUse.name}:${JSON.stringify(toolUse.input)}`;
             let resultContent: string;
+            let resultImages: McpImage[] = [];
 
             if (previousToolCalls.has(callKey)) {
               // Duplicate call — return short cached summary + nudge
@@ -383,15 +1218,13 @@ export class DesignForgeAgent {
               // Reset consecutive counter for this tool since it's a fresh call
               consecutiveDuplicates.set(toolUse.name, 0);
               // Fresh call — execute and cache
-              const rawResult = this.mcpBridge
-                ? await this.mcpBridge.callTool(
-                    toolUse.name,
-                    toolUse.input as Record<string, unknown>,
-                  )
-                : this.simulateToolResult(toolUse.name, toolUse.input);
-
-              resultContent = this.capToolResult(rawResult);
+              const result = this.mcpBridge
+                ? await this.callMcpTool(toolUse.name, toolUse.input as Record<string, unknown>)
+                : { text: this.simulateToolResult(toolUse.name, toolUse.input), images: [] };
+
+              resultContent = this.capToolResult(result.text);
               previousToolCalls.set(callKey, resultContent);
+              resultImages = result.images;
             }
 
             // Track which category of tool was used (for phase-aware prompting)
@@ -401,7 +1234,7 @@ export class DesignForgeAgent {
             return {
               type: 'tool_result' as const,
               tool_use_id: toolUse.id,
-              content: resultContent,
+              content: this.withImages(resultContent, resultImages),
             };
           }),
         );
@@ -419,18 +1252,204 @@ export class DesignForgeAgent {
           content: guidance
         });
       }
+
+      state.turn = turn;
+      this.saveCheckpoint(state);
     }
 
     throw new Error(`Agent did not complete within ${maxTurns} turns`);
   }
 
+  /**
+   * Chunked mode: one executeLoop() per page chunk, each in a fresh
+   * conversation with only that chunk's context, then a composition pass
+   * for the page component. The passes' results are merged into one.
+   */
+  private async executeChunked(
+    onProgress: ((progress: AgentProgress) => void) | undefined,
+    state: ChunkedRunState,
+    restored?: LoopState,
+  ): Promise<any> {
+    const page = this.prefetched!;
+    const chunks = page.pageChunks!;
+    const pageName = this.pageComponentName(page, chunks);
+    this.chunkedRun = { page, state };
+
+    const runPass = async (progress: ChunkProgress, context: PrefetchedContext, instructions: string) => {
+      this.log(`\n🧩 ${progress.phase === 'chunk' ? `Chunk ${progress.index}/${progress.total}` : 'Composition'}: ${progress.name}`);
+      onProgress?.({
+        turn: 0,
+        status: 'running',
+        message: progress.phase === 'chunk'
+          ? `Generating chunk ${progress.index}/${progress.total}: ${progress.name}`
+          : `Composing ${progress.name} from ${progress.total} chunks`,
+        chunk: progress,
+      });
+
+      this.prefetched = context;
+      this.passInstructions = instructions;
+      const pass = restored;
+      restored = undefined;
+      // Only the merged result completes the run
+      return this.executeLoop(
+        p => onProgress?.({ ...p, status: p.status === 'complete' ? 'running' : p.status, chunk: progress }),
+        pass,
+      );
+    };
+
+    while (state.pass < chunks.length) {
+      const chunk = chunks[state.pass];
+      const progress: ChunkProgress = { index: state.pass + 1, total: chunks.length, name: chunk.name, phase: 'chunk' };
+      const result = await runPass(progress, this.chunkContext(page, chunk), buildChunkPassPrompt(chunk, state.pass, chunks.length));
+
+      state.results.push({ nodeId: chunk.nodeId, name: chunk.name, componentName: chunk.componentName, result });
+      state.pass++;
+      this.conversationHistory = [];
+      this.saveCheckpoint(initialLoopState());
+    }
+
+    const composition = await runPass(
+      { index: chunks.length + 1, total: chunks.length, name: pageName, phase: 'composition' },
+      this.compositionContext(page, chunks),
+      buildCompositionPrompt(pageName, state.results, this.config.outputPath),
+    );
+
+    const result = this.mergeChunkResults(state, composition);
+    this.saveCheckpoint(this.loopState ?? initialLoopState(), 'complete');
+    this.prefetched = page;
+    this.passInstructions = null;
+    this.chunkedRun = null;
+
+    onProgress?.({
+      turn: this.loopState?.turn ?? 0,
+      status: 'complete',
+      message: `✅ Generated ${chunks.length} chunks and composed ${pageName}`,
+      result,
+    });
+    this.log(`\n✅ Chunked run complete: ${chunks.length} chunks composed into ${pageName}`);
+
+    return result;
+  }
+
+  /** A chunk pass sees only its frame and the Naos docs of the components in it */
+  private chunkContext(page: PrefetchedContext, chunk: PageChunk): PrefetchedContext {
+    const document = chunkDocument(page.figmaDocument!, chunk.nodeId);
+    return {
+      ...page,
+      ...this.reduceFigma(document),
+      figmaDocument: document,
+      naosComponents: chunk.naosDocs ?? page.naosComponents,
+      pageChunks: null,
+    };
+  }
+
+  /**
+   * The composition pass sees the page with each chunk collapsed to its
+   * frame. Parity is left to the chunk passes: the page component renders
+   * the chunk components, not the design's nodes.
+   */
+  private compositionContext(page: PrefetchedContext, chunks: PageChunk[]): PrefetchedContext {
+    return {
+      ...page,
+      ...this.reduceFigma(compositionDocument(page.figmaDocument!, chunks)),
+      figmaDocument: null,
+      pageChunks: null,
+    };
+  }
+
+  /** The page frame's name when the design is one frame, else "Page" */
+  private pageComponentName(page: PrefetchedContext, chunks: PageChunk[]): string {
+    const roots = page.figmaDocument?.nodes ?? [];
+    const name = roots.length === 1 ? toComponentName(roots[0].name) : 'Page';
+    return chunks.some(c => c.componentName === name) ? `${name}Page` : name;
+  }
+
+  /**
+   * One result for the whole page: files, gaps and diagnostics of every
+   * pass, the lowest coverage, the mean design parity of the chunks, and
+   * a per-chunk breakdown under `chunks`.
+   */
+  private mergeChunkResults(state: ChunkedRunState, composition: DesignForgeResult): DesignForgeResult {
+    const passes = [...state.results.map(r => r.result), composition];
+    const files = [...new Set(passes.flatMap(p => p.files))];
+    const parityScores = state.results.map(r => r.result.parity?.score).filter((s): s is number => typeof s === 'number');
+    const accessibility = passes.map(p => p.accessibility).filter((a): a is AccessibilityReport => !!a);
+    // Passes that ran no tests have no coverage to count against the page
+    const coverages = passes.map(p => p.coverage).filter((c): c is number => c !== null);
+
+    return {
+      ...composition,
+      ...countGeneratedFiles(files),
+      coverage: coverages.length > 0 ? Math.min(...coverages) : null,
+      designParity: parityScores.length > 0
+        ? Math.round(parityScores.reduce((sum, s) => sum + s, 0) / parityScores.length)
+        : 0,
+      parity: null,
+      accessibility: accessibility.length > 0
+        ? {
+            level: accessibility[0].level,
+            rendered: accessibility.flatMap(a => a.rendered),
+            findings: accessibility.flatMap(a => a.findings),
+            warnings: accessibility.flatMap(a => a.warnings),
+          }
+        : null,
+      gaps: [...new Set(passes.flatMap(p => p.gaps))],
+      files,
+      diagnostics: passes.flatMap(p => p.diagnostics),
+      chunks: state.results.map(r => ({
+        nodeId: r.nodeId,
+        name: r.name,
+        component: r.componentName,
+        files: r.result.files,
+        designParity: r.result.designParity,
+        gaps: r.result.gaps,
+      })),
+    };
+  }
+
+  /**
+   * Answer a completed response with a follow-up instruction (a repair
+   * request, the next Figma chunk) instead of accepting it.
+   */
+  private pushFollowUp(
+    content: Anthropic.Messages.ContentBlock[],
+    toolUses: Anthropic.Messages.ToolUseBlock[],
+    outputToolResults: Map<string, string>,
+    text: string,
+  ): void {
+    this.conversationHistory.push({ role: 'assistant', content });
+    this.conversationHistory.push({
+      role: 'user',
+      content: [
+        // Every tool_use needs a result before the next message
+        ...toolUses.map(toolUse => ({
+          type: 'tool_result' as const,
+          tool_use_id: toolUse.id,
+          content: outputToolResults.get(toolUse.id) ??
+            JSON.stringify({ error: true, message: 'Not executed — follow the instructions below first' }),
+        })),
+        { type: 'text' as const, text },
+      ],
+    });
+  }
+
   /**
    * Build the tools array for the Anthropic API call.
    * When an MCP bridge is connected, converts discovered MCP tool schemas
    * (camelCase `inputSchema`) to Anthropic format (snake_case `input_schema`).
    * Falls back to hardcoded mock tools when no bridge is available.
+   * In 'tools' output mode, the local write_file/finish tools are appended.
    */
   private buildTools(blockedTools?: Set<string>): Anthropic.Messages.Tool[] {
+    const tools = this.buildMcpTools(blockedTools);
+    return this.usesOutputTools() ? [...tools, ...OUTPUT_TOOLS] : tools;
+  }
+
+  private usesOutputTools(): boolean {
+    return this.config.outputMode === 'tools';
+  }
+
+  private buildMcpTools(blockedTools?: Set<string>): Anthropic.Messages.Tool[] {
     if (this.mcpBridge) {
       let mcpTools = this.mcpBridge.getTools();
 
@@ -578,21 +1597,14 @@ ComponentName/
 \`\`\`
 
 ## File Output Format
-When generating file contents, use this EXACT format so the system can parse and write them:
-
-\`\`\`tsx ComponentName/ComponentName.tsx
-// file contents here
-\`\`\`
-
-The file path MUST appear after the language tag in the code fence opening line.
-Use paths relative to the output directory.
+${this.buildFileOutputInstructions()}
 
 ## Important Rules
 - Execute ALL phases autonomously without asking for permission
 - Make smart decisions independently
 - Use ONLY \`@dtsl/react\` components (no custom implementations unless necessary)
 - Document any design system gaps you identify
-- When complete, say "WORKFLOW COMPLETE" and provide a summary
+- ${this.buildCompletionInstruction()}
 
 ## Completion Criteria
 You're done when you've:
@@ -625,13 +1637,7 @@ Be thorough, autonomous, and detail-oriented. Execute the complete workflow from
 - Target ${this.config.minCoverage || 80}% test coverage
 
 ## File Output Format
-Output each file using this EXACT format:
-
-\`\`\`tsx ComponentName/ComponentName.tsx
-// file contents here
-\`\`\`
-
-The file path MUST appear after the language tag. Use paths relative to \`${this.config.outputPath}\`.
+${this.buildFileOutputInstructions()}
 
 ## Component Structure
 \`\`\`
@@ -644,8 +1650,36 @@ ComponentName/
 
 ## Instructions
 All Figma design data and Naos component docs are provided in the user message.
-DO NOT call any tools. Generate all files directly.
-When done, say "WORKFLOW COMPLETE" with a summary of files generated.`;
+${this.usesOutputTools()
+  ? `DO NOT call any tools other than \`${WRITE_FILE_TOOL}\` and \`${FINISH_TOOL}\`.`
+  : 'DO NOT call any tools. Generate all files directly.'}
+${this.buildCompletionInstruction()}.`;
+  }
+
+  /**
+   * How the model should emit files — as fenced code blocks with the path
+   * in the info string, or as write_file calls in 'tools' output mode.
+   */
+  private buildFileOutputInstructions(): string {
+    if (this.usesOutputTools()) {
+      return `Write every file with the \`${WRITE_FILE_TOOL}\` tool: \`path\` relative to \`${this.config.outputPath}\`, the complete \`content\`, and its \`language\`.
+Call it once per file. Do NOT paste file contents into your reply.`;
+    }
+
+    return `Output each file using this EXACT format so the system can parse and write it:
+
+\`\`\`tsx ComponentName/ComponentName.tsx
+// file contents here
+\`\`\`
+
+The file path MUST appear after the language tag in the code fence opening line.
+Use paths relative to \`${this.config.outputPath}\`.`;
+  }
+
+  private buildCompletionInstruction(): string {
+    return this.usesOutputTools()
+      ? `When complete, call the \`${FINISH_TOOL}\` tool with a summary and any design system gaps`
+      : 'When complete, say "WORKFLOW COMPLETE" and provide a summary';
   }
 
   /**
@@ -705,12 +1739,16 @@ When done, say "WORKFLOW COMPLETE" with a summary of files generated.`;
         'You have fetched both Figma data and Naos design system data.',
         'DO NOT call get_figma_data or get_naos_component_docs again.',
         'Now proceed to Phase 3: generate the React/TypeScript implementation files using @dtsl/react components.',
-        'Output each file using the code fence format with the file path after the language tag.',
+        this.usesOutputTools()
+          ? `Write each file with the ${WRITE_FILE_TOOL} tool.`
+          : 'Output each file using the code fence format with the file path after the language tag.',
       );
     } else if (writtenFiles.length > 0) {
       parts.push(
         `You have generated ${writtenFiles.length} files so far.`,
-        'Continue generating remaining files (tests, stories, documentation) or say "WORKFLOW COMPLETE" if all phases are done.',
+        this.usesOutputTools()
+          ? `Continue generating remaining files (tests, stories, documentation) or call ${FINISH_TOOL} if all phases are done.`
+          : 'Continue generating remaining files (tests, stories, documentation) or say "WORKFLOW COMPLETE" if all phases are done.',
       );
     } else {
       parts.push('Continue with the next step in the workflow.');
@@ -732,7 +1770,11 @@ When done, say "WORKFLOW COMPLETE" with a summary of files generated.`;
     // doesn't need to call tools at all. This makes the workflow work
     // reliably with any model, including smaller local LLMs.
     if (this.prefetched) {
-      if (this.prefetched.figmaData) {
+      const chunks = this.prefetched.figmaChunks;
+      if (chunks) {
+        parts.push(`\n## Figma Design Data (pre-fetched)\nPhase 1 is ALREADY DONE. The design is too large for one message, so it comes in ${chunks.length} parts, one frame each. ` +
+          `Implement this part, then report completion — the next part follows once you do.\n\n### Part 1 of ${chunks.length}: ${chunks[0].path}\n\n${this.prefetched.figmaData}`);
+      } else if (this.prefetched.figmaData) {
         parts.push(`\n## Figma Design Data (pre-fetched)\nPhase 1 is ALREADY DONE. Here is the extracted Figma design:\n\n${this.prefetched.figmaData}`);
       }
       if (this.prefetched.naosComponents) {
@@ -741,9 +1783,28 @@ When done, say "WORKFLOW COMPLETE" with a summary of files generated.`;
       if (this.prefetched.naosTokens) {
         parts.push(`\n## Naos Design Tokens (pre-fetched)\n${this.prefetched.naosTokens}`);
       }
+      const tokenMapping = this.prefetched.tokenMapping;
+      if (tokenMapping && tokenMapping.matched.length + tokenMapping.unmatched.length > 0) {
+        parts.push(`\n## Token Mapping\n${formatTokenMapping(tokenMapping)}`);
+      }
+      if (this.prefetched.naosIcons) {
+        parts.push(`\n## Naos Icons (pre-fetched)\n${this.prefetched.naosIcons}`);
+      }
+      const iconMapping = this.prefetched.iconMapping;
+      if (iconMapping && iconMapping.matched.length + iconMapping.unmatched.length > 0) {
+        parts.push(`\n## Icon Mapping\n${formatIconMapping(iconMapping)}`);
+      }
+      for (const { title, content } of this.prefetched.extraContext ?? []) {
+        parts.push(`\n## ${title} (pre-fetched)\n${content}`);
+      }
+      if (this.passInstructions) {
+        parts.push(`\n${this.passInstructions}`);
+      }
 
       parts.push(`\n## Your Task
-Phases 1 and 2 are COMPLETE — all data is above. DO NOT call any tools.
+Phases 1 and 2 are COMPLETE — all data is above. ${this.usesOutputTools()
+  ? `DO NOT call any tools other than ${WRITE_FILE_TOOL} and ${FINISH_TOOL}.`
+  : 'DO NOT call any tools.'}
 Skip straight to Phase 3: generate the implementation files.
 
 For each component found in the Figma data:
@@ -752,12 +1813,9 @@ For each component found in the Figma data:
 3. Generate the .test.tsx test file
 4. Generate the .stories.tsx Storybook file
 
-Output each file using this EXACT format:
-\`\`\`tsx ComponentName/ComponentName.tsx
-// file contents here
-\`\`\`
+${this.buildFileOutputInstructions()}
 
-When all files are generated, say "WORKFLOW COMPLETE" with a summary.
+${this.buildCompletionInstruction()}.
 Begin generating code NOW.`);
     } else {
       parts.push(`\nExecute the complete Figma-to-Code workflow autonomously:
@@ -774,30 +1832,27 @@ Begin execution now. Work through all phases systematically.`);
     return parts.join('\n');
   }
 
+  /** The follow-up message carrying the next part of a split design */
+  private buildChunkPrompt(chunks: FigmaChunk[], index: number): string {
+    const chunk = chunks[index];
+    const last = index === chunks.length - 1;
+    return `## Figma Design Data — Part ${index + 1} of ${chunks.length}: ${chunk.path}
+
+${chunk.outline}
+
+Implement this part the same way. Reuse the files you already wrote where a component repeats instead of generating it again.
+${last
+  ? `This is the LAST part. ${this.buildCompletionInstruction()}.`
+  : 'Report completion when this part is done — the next part follows.'}`;
+  }
+
   /**
    * Estimate the character count of the conversation history.
    * Used for context window management — a rough proxy for token count
    * since most LLMs average ~4 characters per token.
    */
   private estimateHistoryChars(): number {
-    let chars = 0;
-    for (const msg of this.conversationHistory) {
-      if (typeof msg.content === 'string') {
-        chars += msg.content.length;
-      } else if (Array.isArray(msg.content)) {
-        for (const block of msg.content) {
-          if ('text' in block && typeof block.text === 'string') {
-            chars += block.text.length;
-          } else if ('content' in block && typeof block.content === 'string') {
-            chars += block.content.length;
-          } else {
-            // Tool use blocks, images, etc. — rough estimate
-            chars += JSON.stringify(block).length;
-          }
-        }
-      }
-    }
-    return chars;
+    return this.conversationHistory.reduce((chars, msg) => chars + contentChars(msg.content), 0);
   }
 
   /**
@@ -824,12 +1879,7 @@ Begin execution now. Work through all phases systematically.`);
     let dropCount = 0;
 
     while (trimmedChars > MAX_HISTORY_CHARS && dropCount < rest.length - 2) {
-      const msg = rest[dropCount];
-      if (typeof msg.content === 'string') {
-        trimmedChars -= msg.content.length;
-      } else {
-        trimmedChars -= JSON.stringify(msg.content).length;
-      }
+      trimmedChars -= contentChars(rest[dropCount].content);
       dropCount++;
     }
 
@@ -842,6 +1892,92 @@ Begin execution now. Work through all phases systematically.`);
     }
   }
 
+  /**
+   * Apply code rule fixes (e.g. React.FC → plain function) to files right
+   * after they are written, so later turns and checks see the fixed code.
+   */
+  private autoFixFiles(files: string[]): void {
+    const codeRules = this.config.validation?.codeRules;
+    if (!codeRules || codeRules.autoFix === false) return;
+
+    for (const file of fixCodeRules(files, codeRules)) {
+      this.log(`  🔧 Auto-fixed: ${file}`);
+    }
+  }
+
+  /**
+   * Run the configured checks over the generated files. Rewritten files
+   * appear once per write, so paths are de-duplicated first.
+   */
+  private async validateOutput(writtenFiles: string[]): Promise<ValidationOutcome> {
+    const validation = this.config.validation;
+    const files = [...new Set(writtenFiles)];
+    const outcome: ValidationOutcome = { diagnostics: [], coverage: null, parity: null, accessibility: null, gaps: [] };
+    if (!validation || files.length === 0) return outcome;
+
+    if (validation.codeRules) {
+      outcome.diagnostics.push(...checkCodeRules(files, {
+        ...validation.codeRules,
+        tokens: validation.codeRules.tokens ?? this.prefetched?.designTokens ?? undefined,
+      }));
+    }
+
+    if (validation.typeCheck) {
+      outcome.diagnostics.push(...typeCheckFiles(files, {
+        tsconfig: validation.tsconfig,
+        searchFrom: this.config.outputPath,
+      }));
+    }
+
+    if (validation.runTests) {
+      const report = await runGeneratedTests(files, {
+        cwd: validation.projectRoot,
+        minCoverage: this.config.minCoverage || 80,
+        signal: this.signal,
+      });
+      this.log(`  🧪 Tests: ${report.passed} passed, ${report.failed} failed — ${report.coverage}% line coverage`);
+      outcome.diagnostics.push(...report.issues);
+      if (report.ran) outcome.coverage = report.coverage;
+    }
+
+    // Parity needs the Figma tree, which only the pre-fetch has in full
+    const figmaDoc = this.prefetched?.figmaDocument;
+    if (validation.designParity && figmaDoc) {
+      const sources = this.readSources(files.filter(f =>
+        /\.[jt]sx$/.test(f) && !isTestFile(f) && !/\.stories\.[jt]sx$/.test(f)));
+      const report = analyzeDesignParity(figmaDoc, sources);
+      this.log(`  🎯 Design parity: ${report.score}% (${report.unmatched.length} unmatched node(s))`);
+      outcome.diagnostics.push(...parityIssues(report, validation.designParity.minScore ?? 0));
+      outcome.parity = report;
+    }
+
+    if (validation.accessibility) {
+      const { repair, ...options } = validation.accessibility;
+      const report = await auditAccessibility(files, { ...options, projectRoot: validation.projectRoot });
+      this.log(`  ♿ Accessibility (${report.level}): ${report.findings.length} finding(s), ` +
+        `${report.rendered.length} component(s) rendered`);
+      outcome.diagnostics.push(...accessibilityIssues(report.findings, repair ? 'error' : 'warning'), ...report.warnings);
+      outcome.accessibility = report;
+    }
+
+    // Tests and stories import from @dtsl/react too, so every source counts
+    const catalog = this.prefetched?.naosCatalog;
+    if (validation.naosCatalog && catalog) {
+      const violations = checkCatalogUsage(catalog, this.readSources(files.filter(f => /\.[jt]sx?$/.test(f))));
+      outcome.diagnostics.push(...catalogIssues(violations));
+      outcome.gaps.push(...catalogGaps(violations));
+    }
+
+    return outcome;
+  }
+
+  /** Generated files that still exist, with their contents */
+  private readSources(files: string[]): Array<{ file: string; content: string }> {
+    return files
+      .filter(f => fs.existsSync(f))
+      .map(f => ({ file: f, content: fs.readFileSync(f, 'utf-8') }));
+  }
+
   private isWorkflowComplete(text: string, stopReason?: string): boolean {
     const completionIndicators = [
       'workflow complete',
@@ -858,23 +1994,28 @@ Begin execution now. Work through all phases systematically.`);
   private extractResults(
     messages: Anthropic.MessageParam[],
     writtenFiles: string[] = [],
-  ): any {
-    // Categorize written files by extension/pattern
-    const components = writtenFiles.filter(f => /\.tsx$/.test(f) && !f.includes('.test.') && !f.includes('.stories.'));
-    const tests = writtenFiles.filter(f => f.includes('.test.'));
-    const stories = writtenFiles.filter(f => f.includes('.stories.'));
-
+    finishReport: FinishReport | null = null,
+    validation: ValidationOutcome = { diagnostics: [], coverage: null, parity: null, accessibility: null, gaps: [] },
+  ): DesignForgeResult {
     return {
       status: 'complete',
-      filesGenerated: writtenFiles.length,
-      components: components.length,
-      tests: tests.length,
-      stories: stories.length,
-      coverage: 0, // TODO: run tests and capture coverage
-      designParity: 0, // TODO: compare with Figma specs
-      gaps: [],
+      ...countGeneratedFiles(writtenFiles),
+      // null when no tests ran, as opposed to 0% covered
+      coverage: validation.coverage,
+      designParity: validation.parity?.score ?? 0,
+      parity: validation.parity,
+      accessibility: validation.accessibility,
+      gaps: [...new Set([
+        ...(this.loopState?.chunkGaps ?? []),
+        ...(finishReport?.gaps ?? []),
+        ...validation.gaps,
+        ...(this.prefetched?.iconMapping ? iconGaps(this.prefetched.iconMapping) : []),
+        ...(this.prefetched?.tokenMapping ? tokenGaps(this.prefetched.tokenMapping) : []),
+      ])],
+      summary: finishReport?.summary,
       outputPath: this.config.outputPath,
       files: writtenFiles,
+      diagnostics: validation.diagnostics,
     };
   }
 
@@ -957,7 +2098,7 @@ Begin execution now. Work through all phases systematically.`);
 }
 
 // CLI Entry Point Example
-export async function runDesignForge(config: DesignForgeConfig) {
+export async function runDesignForge(config: DesignForgeConfig, options: RunOptions = {}) {
   console.log('\n🔨 DesignForge - Autonomous Figma to Code Agent\n');
   console.log(`📋 Configuration:`);
   console.log(`   Figma URL: ${config.figmaUrl}`);
@@ -974,14 +2115,14 @@ export async function runDesignForge(config: DesignForgeConfig) {
         console.log(`   🔧 ${call.tool}`);
       });
     }
-  });
+  }, options);
 
   console.log('\n✅ DesignForge Complete!\n');
   console.log('📊 Summary:');
   console.log(`   Files: ${result.filesGenerated}`);
   console.log(`   Components: ${result.components}`);
   console.log(`   Tests: ${result.tests}`);
-  console.log(`   Coverage: ${result.coverage}%`);
+  console.log(`   Coverage: ${result.coverage === null ? 'not measured' : `${result.coverage}%`}`);
   console.log(`   Design Parity: ${result.designParity}%`);
 
   if (result.gaps.length > 0) {
@@ -0,0 +1,127 @@
+import * as path from 'path';
+import { AgentCancelledError, DesignForgeAgent } from './agent';
+import { McpBridge } from './mcp-bridge';
+import { resolveBatchTargets, runDesignForgeBatch, type BatchEvent } from './batch';
+
+jest.mock('./agent', () => ({ ...jest.requireActual('./agent'), DesignForgeAgent: jest.fn() }));
+jest.mock('./mcp-bridge');
+
+const FIGMA_URL = 'https://www.figma.com/design/ABC123/Library?node-id=1-1';
+
+describe('resolveBatchTargets', () => {
+  it('should resolve node IDs against the first URL and outputs against the base directory', () => {
+    expect(resolveBatchTargets([
+      { figma: '2:1', output: 'buttons' },
+      { figma: FIGMA_URL, name: 'Overview' },
+      { figma: 'https://www.figma.com/file/XYZ/Other' },
+    ], '/project')).toEqual([
+      { figmaUrl: 'https://www.figma.com/design/ABC123/Library?node-id=2-1', outputPath: path.resolve('/project', 'buttons'), name: '2:1' },
+      { figmaUrl: FIGMA_URL, outputPath: undefined, name: 'Overview' },
+      { figmaUrl: 'https://www.figma.com/file/XYZ/Other', outputPath: undefined, name: 'XYZ' },
+    ]);
+  });
+});
+
+describe('runDesignForgeBatch', () => {
+  let running: number;
+  let maxRunning: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    running = 0;
+    maxRunning = 0;
+
+    (McpBridge as jest.Mock).mockImplementation(() => ({
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      getTools: () => [
+        { name: 'get_figma_data', toolName: 'get_figma_data', serverName: 'figma', inputSchema: { type: 'object' } },
+        { name: 'get_naos_component_docs', toolName: 'get_naos_component_docs', serverName: 'naos', inputSchema: { type: 'object' } },
+      ],
+      callTool: jest.fn(async () => '# Button'),
+    }));
+    (DesignForgeAgent as unknown as jest.Mock).mockImplementation((config) => ({
+      run: jest.fn(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setImmediate(resolve));
+        running--;
+        if (config.figmaUrl.endsWith('2-3')) throw new Error('LLM unavailable');
+        return {
+          filesGenerated: 3, components: 1, tests: 1, stories: 1,
+          gaps: ['No Naos Chip'],
+          files: [`${config.outputPath}/${config.figmaUrl.slice(-3)}.tsx`],
+        };
+      }),
+    }));
+  });
+
+  const targets = resolveBatchTargets([
+    { figma: 'https://www.figma.com/design/ABC123/Library?node-id=2-1' },
+    { figma: '2:2' },
+    { figma: '2:3' },
+    { figma: '2:4' },
+  ]);
+
+  const run = (events: BatchEvent[] = [], signal?: AbortSignal) => runDesignForgeBatch({
+    agentConfig: {
+      outputPath: '/out',
+      anthropicApiKey: 'sk-ant-test-key',
+      mcpServers: [{ name: 'figma', transport: 'stdio', command: 'figma-mcp' }],
+      runId: 'run-1',
+    },
+    targets,
+    concurrency: 2,
+    onEvent: e => events.push(e),
+    signal,
+  });
+
+  it('should run every target through one bridge and one Naos pre-fetch', async () => {
+    const events: BatchEvent[] = [];
+    await run(events);
+
+    expect(McpBridge).toHaveBeenCalledTimes(1);
+    const bridge = (McpBridge as jest.Mock).mock.results[0].value;
+    expect(bridge.callTool).toHaveBeenCalledTimes(1);
+    expect(bridge.disconnect).toHaveBeenCalled();
+
+    const configs = (DesignForgeAgent as unknown as jest.Mock).mock.calls.map(([config]) => config);
+    expect(configs.map(c => c.runId)).toEqual(['run-1-1', 'run-1-2', 'run-1-3', 'run-1-4']);
+    expect(configs.every(c => c.mcpBridge === bridge)).toBe(true);
+    expect(configs[0].naosContext.naosComponents).toBe('# Button');
+    expect(configs[3].naosContext).toBe(configs[0].naosContext);
+
+    expect(maxRunning).toBe(2);
+    expect(events.filter(e => e.type === 'started')).toHaveLength(4);
+  });
+
+  it('should report failed targets without stopping the others', async () => {
+    const report = await run();
+
+    expect(report.targets.map(t => [t.name, t.status])).toEqual([
+      ['2:1', 'complete'], ['2:2', 'complete'], ['2:3', 'failed'], ['2:4', 'complete'],
+    ]);
+    expect(report.targets[2].error).toBe('LLM unavailable');
+    expect(report.totals).toEqual({
+      targets: 4, complete: 3, failed: 1, cancelled: 0,
+      filesGenerated: 9, components: 3, tests: 3, stories: 3,
+    });
+    expect(report.gaps).toEqual(['No Naos Chip']);
+  });
+
+  it('should skip targets not started once cancelled', async () => {
+    const controller = new AbortController();
+    (DesignForgeAgent as unknown as jest.Mock).mockImplementation(() => ({
+      run: jest.fn(async () => {
+        await new Promise(resolve => setImmediate(resolve));
+        controller.abort();
+        throw new AgentCancelledError(0);
+      }),
+    }));
+
+    const report = await run([], controller.signal);
+
+    expect(DesignForgeAgent).toHaveBeenCalledTimes(2);
+    expect(report.targets.map(t => t.status)).toEqual(['cancelled', 'cancelled', 'cancelled', 'cancelled']);
+  });
+});
@@ -0,0 +1,202 @@
+import * as path from 'path';
+import {
+  AgentCancelledError,
+  DesignForgeAgent,
+  fetchNaosContext,
+  type AgentProgress,
+  type DesignForgeConfig,
+} from './agent';
+import { parseFigmaUrl, resolveFigmaTarget } from './figma-data';
+import { McpBridge } from './mcp-bridge';
+
+// ==============================================================================
+// Batch Targets
+// ==============================================================================
+// A batch generates several designs — frames of one file or different
+// files — in one job. Targets come from `--figma` (repeated), the `batch`
+// section of designforge.config.js or a manifest file; node IDs resolve
+// against the first full URL in the list.
+
+export interface BatchTarget {
+  figmaUrl: string;
+  /** Where this target's files go; the batch output path by default */
+  outputPath?: string;
+  /** Label in progress events and the report */
+  name: string;
+}
+
+/** A target as written in the config file or a manifest */
+export interface BatchTargetEntry {
+  /** Figma URL, or a node ID such as `12:34` */
+  figma: string;
+  output?: string;
+  name?: string;
+}
+
+/**
+ * Turn config or manifest entries into targets. Relative `output` paths
+ * resolve against `baseDir` (the manifest's directory).
+ */
+export function resolveBatchTargets(entries: BatchTargetEntry[], baseDir: string = process.cwd()): BatchTarget[] {
+  const baseUrl = entries.map(e => e.figma.trim()).find(f => !/^\d+[:-]\d+$/.test(f));
+
+  return entries.map(entry => {
+    const figmaUrl = resolveFigmaTarget(entry.figma, baseUrl);
+    const { fileKey, nodeId } = parseFigmaUrl(figmaUrl);
+    return {
+      figmaUrl,
+      outputPath: entry.output && path.resolve(baseDir, entry.output),
+      name: entry.name ?? (nodeId ? nodeId.replace(/-/g, ':') : fileKey),
+    };
+  });
+}
+
+// ==============================================================================
+// Batch Runs
+// ==============================================================================
+// Every target gets its own DesignForgeAgent, but they share one McpBridge
+// and one Naos pre-fetch, and at most `concurrency` run at a time. A failed
+// target is reported without stopping the others.
+
+export interface BatchOptions {
+  /** Shared agent config; each target sets its own figmaUrl and outputPath */
+  agentConfig: Omit<DesignForgeConfig, 'figmaUrl'>;
+  targets: BatchTarget[];
+  /** Targets generated at the same time (default 2) */
+  concurrency?: number;
+  onEvent?: (event: BatchEvent) => void;
+  /** Cancels running targets and skips the ones not started yet */
+  signal?: AbortSignal;
+}
+
+export type BatchEvent =
+  | { type: 'started'; index: number; name: string }
+  | { type: 'progress'; index: number; name: string; progress: AgentProgress }
+  | { type: 'finished'; index: number; name: string; result: BatchTargetResult };
+
+export interface BatchTargetResult {
+  name: string;
+  figmaUrl: string;
+  outputPath: string;
+  /** Checkpoint id, when the batch has one — resumable on its own */
+  runId?: string;
+  status: 'complete' | 'failed' | 'cancelled';
+  /** The target's run result */
+  result?: any;
+  error?: string;
+  durationMs: number;
+}
+
+export interface BatchReport {
+  targets: BatchTargetResult[];
+  totals: {
+    targets: number;
+    complete: number;
+    failed: number;
+    cancelled: number;
+    filesGenerated: number;
+    components: number;
+    tests: number;
+    stories: number;
+  };
+  /** Design system gaps of all targets, without duplicates */
+  gaps: string[];
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+export async function runDesignForgeBatch(options: BatchOptions): Promise<BatchReport> {
+  const { agentConfig, targets, signal } = options;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY);
+  const emit = (event: BatchEvent) => options.onEvent?.(event);
+  const log = (message: string) => {
+    if (agentConfig.verbose) console.log(message);
+  };
+
+  // One set of MCP connections for the whole batch, unless the caller owns one
+  let bridge = agentConfig.mcpBridge ?? null;
+  const ownsBridge = !bridge && (agentConfig.mcpServers?.length ?? 0) > 0;
+  const results: BatchTargetResult[] = new Array(targets.length);
+
+  try {
+    if (ownsBridge) {
+      bridge = new McpBridge(agentConfig.mcpServers!, agentConfig.verbose, { cache: agentConfig.mcpCache });
+      await bridge.connect({ signal });
+    }
+    const naosContext = agentConfig.naosContext ?? (bridge
+      ? await fetchNaosContext(bridge, { signal, log, sources: agentConfig.prefetch })
+      : undefined);
+
+    let next = 0;
+    const worker = async () => {
+      while (next < targets.length) {
+        const index = next++;
+        results[index] = await runTarget(index);
+      }
+    };
+
+    const runTarget = async (index: number): Promise<BatchTargetResult> => {
+      const target = targets[index];
+      const config: DesignForgeConfig = {
+        ...agentConfig,
+        figmaUrl: target.figmaUrl,
+        outputPath: target.outputPath ?? agentConfig.outputPath,
+        mcpBridge: bridge ?? undefined,
+        naosContext,
+        runId: agentConfig.runId && `${agentConfig.runId}-${index + 1}`,
+      };
+      const entry: BatchTargetResult = {
+        name: target.name,
+        figmaUrl: config.figmaUrl,
+        outputPath: config.outputPath,
+        runId: config.runId,
+        status: 'cancelled',
+        durationMs: 0,
+      };
+      if (signal?.aborted) return entry;
+
+      emit({ type: 'started', index, name: target.name });
+      const startedAt = Date.now();
+      try {
+        const agent = new DesignForgeAgent(config);
+        entry.result = await agent.run(
+          progress => emit({ type: 'progress', index, name: target.name, progress }),
+          { signal },
+        );
+        entry.status = 'complete';
+      } catch (err) {
+        entry.status = err instanceof AgentCancelledError ? 'cancelled' : 'failed';
+        entry.error = err instanceof Error ? err.message : String(err);
+      }
+      entry.durationMs = Date.now() - startedAt;
+      emit({ type: 'finished', index, name: target.name, result: entry });
+      return entry;
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, targets.length) }, worker));
+  } finally {
+    if (ownsBridge && bridge) await bridge.disconnect();
+  }
+
+  return buildBatchReport(results);
+}
+
+function buildBatchReport(targets: BatchTargetResult[]): BatchReport {
+  const sum = (key: 'filesGenerated' | 'components' | 'tests' | 'stories') =>
+    targets.reduce((total, t) => total + (t.result?.[key] ?? 0), 0);
+
+  return {
+    targets,
+    totals: {
+      targets: targets.length,
+      complete: targets.filter(t => t.status === 'complete').length,
+      failed: targets.filter(t => t.status === 'failed').length,
+      cancelled: targets.filter(t => t.status === 'cancelled').length,
+      filesGenerated: sum('filesGenerated'),
+      components: sum('components'),
+      tests: sum('tests'),
+      stories: sum('stories'),
+    },
+    gaps: [...new Set(targets.flatMap(t => (t.result?.gaps as string[] | undefined) ?? []))],
+  };
+}
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckpointStore, createRunId, type RunCheckpoint } from './checkpoint';
+
+describe('createRunId', () => {
+  it('should start with a sortable timestamp', () => {
+    expect(createRunId(new Date('2025-01-22T14:30:05Z'))).toMatch(/^20250122-143005-[0-9a-f]{6}$/);
+  });
+});
+
+describe('CheckpointStore', () => {
+  const dir = path.join(__dirname, '__test_checkpoints__');
+
+  function checkpoint(runId: string, updatedAt: string): RunCheckpoint {
+    return {
+      version: 1,
+      runId,
+      status: 'running',
+      createdAt: updatedAt,
+      updatedAt,
+      config: { figmaUrl: 'https://figma.com/file/test123', outputPath: './out' },
+      turn: 3,
+      conversationHistory: [{ role: 'user', content: 'New DesignForge job' }],
+      prefetched: null,
+      toolCallCache: [['figma:{}', 'cached']],
+      calledToolCategories: ['figma'],
+      consecutiveDuplicates: [['figma', 1]],
+      blockedTools: [],
+      writtenFiles: ['/out/Button/Button.tsx'],
+    };
+  }
+
+  beforeEach(() => {
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true });
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should round-trip a checkpoint', () => {
+    const store = new CheckpointStore(dir);
+    store.save(checkpoint('run-a', '2025-01-22T10:00:00Z'));
+
+    expect(store.load('run-a')).toEqual(checkpoint('run-a', '2025-01-22T10:00:00Z'));
+  });
+
+  it('should list checkpoints newest first', () => {
+    const store = new CheckpointStore(dir);
+    store.save(checkpoint('run-old', '2025-01-22T10:00:00Z'));
+    store.save(checkpoint('run-new', '2025-01-22T11:00:00Z'));
+
+    expect(store.list().map(c => c.runId)).toEqual(['run-new', 'run-old']);
+  });
+
+  it('should throw for unknown runs', () => {
+    expect(() => new CheckpointStore(dir).load('missing')).toThrow('No checkpoint found for run "missing"');
+  });
+
+  it('should reject run IDs that escape the directory', () => {
+    expect(() => new CheckpointStore(dir).load('../secrets')).toThrow('Invalid run ID');
+  });
+});
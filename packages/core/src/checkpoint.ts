@@ -0,0 +1,117 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DesignForgeConfig, PrefetchedContext } from './agent';
+import type { ChunkedRunState } from './page-chunks';
+
+// ==============================================================================
+// Run Checkpoints
+// ==============================================================================
+// A snapshot of the agent loop taken after every completed turn, so a
+// crash at turn 25 of 30 can continue from turn 25 instead of starting
+// over. Written as one JSON file per run: <dir>/<runId>.json
+//
+// Secrets are never persisted: the API keys and MCP server definitions
+// (which may carry tokens in env/headers) are dropped and supplied again
+// by the caller on resume.
+
+export type CheckpointConfig = Omit<
+  DesignForgeConfig,
+  'anthropicApiKey' | 'openaiApiKey' | 'llmProvider' | 'mcpServers' | 'mcpBridge' | 'mcpCache' | 'naosContext'
+>;
+
+export interface RunCheckpoint {
+  version: 1;
+  runId: string;
+  status: 'running' | 'complete';
+  createdAt: string;
+  updatedAt: string;
+  config: CheckpointConfig;
+  /** Last fully completed turn */
+  turn: number;
+  conversationHistory: Anthropic.MessageParam[];
+  prefetched: PrefetchedContext | null;
+  /** Duplicate-detection cache: "toolName:argsJSON" → capped result */
+  toolCallCache: Array<[string, string]>;
+  calledToolCategories: string[];
+  consecutiveDuplicates: Array<[string, number]>;
+  blockedTools: string[];
+  writtenFiles: string[];
+  /** Repair turns spent on validation errors; absent in older checkpoints */
+  repairIterations?: number;
+  /** Figma chunk being implemented; absent in older checkpoints */
+  chunkIndex?: number;
+  /** Gaps reported for earlier chunks; absent in older checkpoints */
+  chunkGaps?: string[];
+  /**
+   * Chunked mode: passes done so far. `prefetched` is then the whole
+   * page's context, and an empty conversation means the next pass has
+   * not started.
+   */
+  chunkedRun?: ChunkedRunState;
+}
+
+/**
+ * Run IDs sort chronologically and are safe to use as file names,
+ * e.g. `20250122-143005-3f9a1c`.
+ */
+export function createRunId(now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${stamp}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+export class CheckpointStore {
+  constructor(private dir: string) {}
+
+  pathFor(runId: string): string {
+    // Run IDs come from the command line on resume — keep them inside dir
+    if (!/^[\w.-]+$/.test(runId)) {
+      throw new Error(`Invalid run ID: "${runId}"`);
+    }
+    return path.join(this.dir, `${runId}.json`);
+  }
+
+  /**
+   * Write atomically (temp file + rename) so a crash mid-write never
+   * leaves a truncated checkpoint behind.
+   */
+  save(checkpoint: RunCheckpoint): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const target = this.pathFor(checkpoint.runId);
+    const temp = `${target}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(checkpoint), 'utf-8');
+    fs.renameSync(temp, target);
+  }
+
+  load(runId: string): RunCheckpoint {
+    const file = this.pathFor(runId);
+    if (!fs.existsSync(file)) {
+      throw new Error(`No checkpoint found for run "${runId}" in ${this.dir}`);
+    }
+
+    const checkpoint = JSON.parse(fs.readFileSync(file, 'utf-8')) as RunCheckpoint;
+    if (checkpoint.version !== 1) {
+      throw new Error(`Unsupported checkpoint version ${checkpoint.version} for run "${runId}"`);
+    }
+    return checkpoint;
+  }
+
+  /**
+   * All checkpoints in the store, most recently updated first.
+   */
+  list(): RunCheckpoint[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    return fs.readdirSync(this.dir)
+      .filter(f => f.endsWith('.json'))
+      .flatMap(f => {
+        try {
+          return [this.load(path.basename(f, '.json'))];
+        } catch {
+          return [];
+        }
+      })
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+}
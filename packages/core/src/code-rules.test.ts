@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyTextEdits, checkCodeRules, fixCodeRules, type CodeRule } from './code-rules';
+
+describe('code rules', () => {
+  let dir: string;
+
+  function write(file: string, content: string): string {
+    const fullPath = path.join(dir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    return fullPath;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'designforge-rules-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('checkCodeRules', () => {
+    it('should report violations with file, position and rule id', () => {
+      const file = write('Card.tsx', [
+        "import { Button as NaosButton } from '@dtsl/react';",
+        "import { Card } from '@mui/material';",
+        "import './Card.css';",
+        '',
+        'export const Panel = () => <NaosButton className="wide">Save</NaosButton>;',
+      ].join('\n'));
+
+      const issues = checkCodeRules([file]);
+
+      expect(issues.map(i => [i.code, i.line, i.column])).toEqual([
+        ['no-foreign-imports', 2, 1],
+        ['no-css-imports', 3, 1],
+        ['no-naos-style-overrides', 5, 40],
+      ]);
+      expect(issues[0]).toMatchObject({ source: 'code-rules', severity: 'error', file });
+      expect(issues[2].message).toContain('<Button>');
+    });
+
+    it('should allow React, @dtsl packages, test tooling and relative imports', () => {
+      const file = write('Button.test.tsx', [
+        "import React from 'react';",
+        "import { render } from '@testing-library/react';",
+        "import { Button } from '@dtsl/react';",
+        "import { useToggle } from './useToggle';",
+      ].join('\n'));
+
+      expect(checkCodeRules([file])).toEqual([]);
+    });
+
+    it('should report props types without a Props suffix', () => {
+      const file = write('Badge.tsx', [
+        'interface BadgeOptions { label: string }',
+        'export function Badge({ label }: BadgeOptions) { return <span>{label}</span>; }',
+      ].join('\n'));
+
+      const [issue] = checkCodeRules([file]);
+
+      expect(issue.code).toBe('props-suffix');
+      expect(issue.message).toContain('name it "BadgeProps"');
+    });
+
+    it('should flag raw colors and lengths, suggesting the matching Naos token', () => {
+      const file = write('Banner.tsx', [
+        'export function Banner() {',
+        '  return <div style={{ color: "#0b996e", padding: 12, margin: 0, border: `1px solid ${"#123456"}` }} />;',
+        '}',
+      ].join('\n'));
+      write('Banner.stories.tsx', 'export default { parameters: { backgrounds: { default: "#FFFFFF" } } };');
+
+      const issues = checkCodeRules([file, path.join(dir, 'Banner.stories.tsx')], {
+        tokens: [{ name: 'color.primary', value: '#0B996E', kind: 'color' }],
+      });
+
+      expect(issues.map(i => [i.code, i.severity, i.message])).toEqual([
+        ['no-raw-style-values', 'warning', 'Raw style value "#0b996e" — use the Naos token `color.primary`'],
+        ['no-raw-style-values', 'warning', 'Raw style value "12px" — use a Naos design token or a component prop'],
+        ['no-raw-style-values', 'warning', 'Raw style value "1px" — use a Naos design token or a component prop'],
+        ['no-raw-style-values', 'warning', 'Raw style value "#123456" — use a Naos design token or a component prop'],
+      ]);
+    });
+
+    it('should apply configured severities, allowed imports and custom rules', () => {
+      const file = write('Chart.tsx', "import { Line } from 'recharts';\nexport const Chart = () => <Line />;\n");
+      const chartWrapper: CodeRule = {
+        id: 'chart-wrapper',
+        description: 'Charts live in the shared wrapper',
+        check: ({ sourceFile }) => [{ node: sourceFile.statements[1], message: 'Use <ChartWrapper>' }],
+      };
+
+      expect(checkCodeRules([file], { allowedImports: ['recharts'] })).toEqual([]);
+
+      const issues = checkCodeRules([file], {
+        rules: { 'no-foreign-imports': 'warning', 'chart-wrapper': 'error' },
+        customRules: [chartWrapper],
+      });
+      expect(issues.map(i => [i.code, i.severity, i.line])).toEqual([
+        ['no-foreign-imports', 'warning', 1],
+        ['chart-wrapper', 'error', 2],
+      ]);
+
+      expect(checkCodeRules([file], { rules: { 'no-foreign-imports': 'off' } })).toEqual([]);
+    });
+
+    it('should skip files that are not JavaScript or TypeScript', () => {
+      const file = write('Button.css', '@import "bootstrap";');
+
+      expect(checkCodeRules([file])).toEqual([]);
+    });
+  });
+
+  describe('fixCodeRules', () => {
+    it('should rewrite React.FC components as plain functions', () => {
+      const file = write('Button.tsx', [
+        "import React from 'react';",
+        'export const Button: React.FC<ButtonProps> = ({ label }) => <button>{label}</button>;',
+        'export const Icon: FC<IconProps> = props => <i />;',
+        'export const Divider: React.FC = () => <hr />;',
+      ].join('\n'));
+
+      expect(fixCodeRules([file])).toEqual([file]);
+
+      expect(fs.readFileSync(file, 'utf-8')).toBe([
+        "import React from 'react';",
+        'export const Button = ({ label }: ButtonProps) => <button>{label}</button>;',
+        'export const Icon = (props: IconProps) => <i />;',
+        'export const Divider = () => <hr />;',
+      ].join('\n'));
+      expect(checkCodeRules([file])).toEqual([]);
+    });
+
+    it('should leave React.FC alone when the parameter is already typed', () => {
+      const content = 'export const Tag: React.FC<TagProps> = (props: TagProps) => <b />;\n';
+      const file = write('Tag.tsx', content);
+
+      expect(fixCodeRules([file])).toEqual([]);
+      expect(fs.readFileSync(file, 'utf-8')).toBe(content);
+      expect(checkCodeRules([file]).map(i => i.code)).toEqual(['no-react-fc']);
+    });
+
+    it('should not fix rules that are turned off', () => {
+      const file = write('Tag.tsx', 'export const Tag: React.FC = () => <b />;\n');
+
+      expect(fixCodeRules([file], { rules: { 'no-react-fc': 'off' } })).toEqual([]);
+    });
+  });
+
+  describe('applyTextEdits', () => {
+    it('should apply edits back to front and drop overlapping ones', () => {
+      expect(applyTextEdits('abcdef', [
+        { start: 0, end: 1, text: 'A' },
+        { start: 4, end: 6, text: 'EF' },
+        { start: 5, end: 6, text: 'x' },
+      ])).toBe('Abcdex');
+    });
+  });
+});
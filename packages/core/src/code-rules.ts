@@ -0,0 +1,427 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+import {
+  collectDesignSystemImports,
+  resolveDesignSystemTag,
+  type DesignSystemImports,
+} from './design-parity';
+import { findTokenForLiteral, type NaosToken } from './token-resolver';
+import type { ValidationIssue } from './validation';
+
+// ==============================================================================
+// Code Rules
+// ==============================================================================
+// Static checks for the Naos/@dtsl/react conventions the system prompt asks
+// for, run on the AST of every generated source file. A rule reports
+// findings at a node; a finding may carry a fix (text edits), which is
+// applied to the file on disk as soon as it is written. Findings without a
+// fix become validation issues and go back to the model as a repair turn.
+//
+// Rules are plain objects, so projects can pass their own alongside the
+// built-in ones and turn any rule off or down to a warning by id.
+
+export type RuleSetting = 'error' | 'warning' | 'off';
+
+/** Replace source text [start, end) with `text` */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface RuleFinding {
+  /** Node the finding is reported at */
+  node: ts.Node;
+  message: string;
+  fix?: TextEdit[];
+}
+
+export interface RuleContext {
+  file: string;
+  sourceFile: ts.SourceFile;
+  /** Bindings imported from the design system package */
+  designSystem: DesignSystemImports;
+  /** Import specifiers allowed besides relative ones; `*` matches a suffix */
+  allowedImports: string[];
+  /** Naos design tokens, to suggest one for a raw style value */
+  tokens: NaosToken[];
+}
+
+export interface CodeRule {
+  id: string;
+  description: string;
+  /** Severity when the rule is not configured (default: 'error') */
+  defaultSetting?: RuleSetting;
+  check(context: RuleContext): RuleFinding[];
+}
+
+export interface CodeRulesOptions {
+  /** Per-rule severity by id; unlisted rules use their default */
+  rules?: Record<string, RuleSetting>;
+  /** Extra rules run after the built-in ones */
+  customRules?: CodeRule[];
+  /** Replaces DEFAULT_ALLOWED_IMPORTS */
+  allowedImports?: string[];
+  /** Parsed `get_naos_design_tokens`, for no-raw-style-values suggestions */
+  tokens?: NaosToken[];
+}
+
+export const DEFAULT_ALLOWED_IMPORTS = [
+  'react',
+  'react-dom',
+  'react/*',
+  'react-dom/*',
+  '@dtsl/*',
+  '@testing-library/*',
+  '@storybook/*',
+  '@jest/globals',
+];
+
+const SOURCE_FILE_REGEX = /\.[jt]sx?$/;
+const STYLE_IMPORT_REGEX = /\.(css|scss|sass|less|styl)$/;
+const FC_TYPE_NAMES = new Set(['FC', 'FunctionComponent', 'VFC', 'VoidFunctionComponent']);
+// Hex/rgb() colors and non-zero px lengths inside string literals
+const RAW_STYLE_VALUE_REGEX = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b|rgba?\([^)]*\)|(?<![\w.#-])(?:\d*\.\d+|[1-9]\d*)px\b/gi;
+// Style properties where a bare number means px
+const LENGTH_STYLE_PROPERTIES = /^(gap|rowGap|columnGap|(margin|padding)(Top|Right|Bottom|Left|Inline|Block)?|fontSize|borderRadius|letterSpacing)$/;
+
+// ==============================================================================
+// Built-in rules
+// ==============================================================================
+
+const noForeignImports: CodeRule = {
+  id: 'no-foreign-imports',
+  description: 'Only React, @dtsl/* and test/story tooling may be imported',
+  check({ sourceFile, allowedImports }) {
+    const findings: RuleFinding[] = [];
+    for (const { node, specifier } of importSpecifiers(sourceFile)) {
+      if (specifier.startsWith('.') || STYLE_IMPORT_REGEX.test(specifier)) continue;
+      if (allowedImports.some(pattern => matchesImportPattern(specifier, pattern))) continue;
+      findings.push({
+        node,
+        message: `Import from "${specifier}" is not allowed — build the UI from @dtsl/react components`,
+      });
+    }
+    return findings;
+  },
+};
+
+const noCssImports: CodeRule = {
+  id: 'no-css-imports',
+  description: 'Styling comes from design system props and tokens, not stylesheets',
+  check({ sourceFile }) {
+    return importSpecifiers(sourceFile)
+      .filter(({ specifier }) => STYLE_IMPORT_REGEX.test(specifier))
+      .map(({ node, specifier }) => ({
+        node,
+        message: `Stylesheet import "${specifier}" — use @dtsl/react props and design tokens instead of custom CSS`,
+      }));
+  },
+};
+
+const noStyleOverrides: CodeRule = {
+  id: 'no-naos-style-overrides',
+  description: 'No className or style overrides on @dtsl/react components',
+  check({ sourceFile, designSystem }) {
+    const findings: RuleFinding[] = [];
+    visitAll(sourceFile, node => {
+      if (!ts.isJsxOpeningElement(node) && !ts.isJsxSelfClosingElement(node)) return;
+      const component = resolveDesignSystemTag(node.tagName, designSystem);
+      if (!component) return;
+
+      for (const attribute of node.attributes.properties) {
+        if (!ts.isJsxAttribute(attribute)) continue;
+        const name = attribute.name.getText(sourceFile);
+        if (name === 'className' || name === 'style') {
+          findings.push({
+            node: attribute,
+            message: `\`${name}\` on <${component}> overrides design system styling — use the component's props`,
+          });
+        }
+      }
+    });
+    return findings;
+  },
+};
+
+const noReactFc: CodeRule = {
+  id: 'no-react-fc',
+  description: 'Components are plain functions with typed props, not React.FC',
+  check({ sourceFile }) {
+    const findings: RuleFinding[] = [];
+    visitAll(sourceFile, node => {
+      if (!ts.isVariableDeclaration(node) || !node.type || !isFcType(node.type)) return;
+      findings.push({
+        node: node.type,
+        message: `\`${node.name.getText(sourceFile)}\` is typed as ${node.type.getText(sourceFile)} — ` +
+          'declare it as a plain function with a typed props parameter',
+        fix: fixReactFc(node, sourceFile),
+      });
+    });
+    return findings;
+  },
+};
+
+const propsSuffix: CodeRule = {
+  id: 'props-suffix',
+  description: 'Component props types are named <Component>Props',
+  check({ sourceFile }) {
+    const localTypes = new Set(sourceFile.statements
+      .filter((s): s is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+        ts.isInterfaceDeclaration(s) || ts.isTypeAliasDeclaration(s))
+      .map(s => s.name.text));
+
+    const findings: RuleFinding[] = [];
+    for (const { name, fn } of componentFunctions(sourceFile)) {
+      const propsType = fn.parameters[0]?.type;
+      if (!propsType || !ts.isTypeReferenceNode(propsType) || !ts.isIdentifier(propsType.typeName)) continue;
+
+      const typeName = propsType.typeName.text;
+      if (!localTypes.has(typeName) || typeName.endsWith('Props')) continue;
+      findings.push({
+        node: propsType,
+        message: `Props type of ${name} is named "${typeName}" — name it "${name}Props"`,
+      });
+    }
+    return findings;
+  },
+};
+
+const noRawStyleValues: CodeRule = {
+  id: 'no-raw-style-values',
+  description: 'Colors and lengths come from Naos tokens, not hex/px literals',
+  defaultSetting: 'warning',
+  check({ file, sourceFile, tokens }) {
+    // Tests and stories may assert on or mock raw values
+    if (/\.(test|spec|stories)\.[jt]sx?$/.test(file)) return [];
+
+    const findings: RuleFinding[] = [];
+    const report = (node: ts.Node, literal: string) => {
+      const token = findTokenForLiteral(literal, tokens);
+      findings.push({
+        node,
+        message: `Raw style value "${literal}" — ` +
+          (token ? `use the Naos token \`${token}\`` : 'use a Naos design token or a component prop'),
+      });
+    };
+
+    visitAll(sourceFile, node => {
+      if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) ||
+          ts.isTemplateHead(node) || ts.isTemplateMiddle(node) || ts.isTemplateTail(node)) {
+        if (ts.isImportDeclaration(node.parent) || ts.isExportDeclaration(node.parent)) return;
+        for (const [literal] of node.text.matchAll(RAW_STYLE_VALUE_REGEX)) report(node, literal);
+      } else if (ts.isPropertyAssignment(node) && ts.isNumericLiteral(node.initializer) &&
+          Number(node.initializer.text) !== 0 && LENGTH_STYLE_PROPERTIES.test(node.name.getText(sourceFile))) {
+        report(node.initializer, `${node.initializer.text}px`);
+      }
+    });
+    return findings;
+  },
+};
+
+export const BUILTIN_RULES: CodeRule[] = [
+  noForeignImports,
+  noCssImports,
+  noStyleOverrides,
+  noReactFc,
+  propsSuffix,
+  noRawStyleValues,
+];
+
+// ==============================================================================
+// Engine
+// ==============================================================================
+
+/**
+ * Run every enabled rule over the generated source files. Findings whose
+ * rule can fix them are reported too — call `fixCodeRules` first to apply
+ * those fixes.
+ */
+export function checkCodeRules(files: string[], options: CodeRulesOptions = {}): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const file of sourceFiles(files)) {
+    const content = fs.readFileSync(file, 'utf-8');
+    for (const { rule, setting, finding, sourceFile } of runRules(file, content, options)) {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(finding.node.getStart(sourceFile));
+      issues.push({
+        source: 'code-rules',
+        severity: setting,
+        message: finding.message,
+        file,
+        line: line + 1,
+        column: character + 1,
+        code: rule.id,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Apply the fixes of every enabled rule to the files on disk. Returns the
+ * files that changed.
+ */
+export function fixCodeRules(files: string[], options: CodeRulesOptions = {}): string[] {
+  const changed: string[] = [];
+
+  for (const file of sourceFiles(files)) {
+    const content = fs.readFileSync(file, 'utf-8');
+    const edits = runRules(file, content, options).flatMap(({ finding }) => finding.fix ?? []);
+    if (edits.length === 0) continue;
+
+    const fixed = applyTextEdits(content, edits);
+    if (fixed !== content) {
+      fs.writeFileSync(file, fixed, 'utf-8');
+      changed.push(file);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Apply edits from the end of the text backwards so earlier offsets stay
+ * valid. An edit overlapping one already applied is dropped.
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end);
+  let result = text;
+  let boundary = Infinity;
+
+  for (const edit of sorted) {
+    if (edit.end > boundary) continue;
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    boundary = edit.start;
+  }
+
+  return result;
+}
+
+function runRules(
+  file: string,
+  content: string,
+  options: CodeRulesOptions,
+): Array<{ rule: CodeRule; setting: 'error' | 'warning'; finding: RuleFinding; sourceFile: ts.SourceFile }> {
+  const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, scriptKind(file));
+  const context: RuleContext = {
+    file,
+    sourceFile,
+    designSystem: collectDesignSystemImports(sourceFile),
+    allowedImports: options.allowedImports ?? DEFAULT_ALLOWED_IMPORTS,
+    tokens: options.tokens ?? [],
+  };
+
+  const results = [];
+  for (const rule of [...BUILTIN_RULES, ...(options.customRules ?? [])]) {
+    const setting = options.rules?.[rule.id] ?? rule.defaultSetting ?? 'error';
+    if (setting === 'off') continue;
+    for (const finding of rule.check(context)) {
+      results.push({ rule, setting, finding, sourceFile });
+    }
+  }
+  return results;
+}
+
+function sourceFiles(files: string[]): string[] {
+  return [...new Set(files.map(f => path.resolve(f)))]
+    .filter(f => SOURCE_FILE_REGEX.test(f) && !f.endsWith('.d.ts') && fs.existsSync(f));
+}
+
+// ==============================================================================
+// Helpers
+// ==============================================================================
+
+function scriptKind(file: string): ts.ScriptKind {
+  if (file.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (file.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (file.endsWith('.ts')) return ts.ScriptKind.TS;
+  return ts.ScriptKind.JS;
+}
+
+function visitAll(root: ts.Node, visitor: (node: ts.Node) => void): void {
+  const visit = (node: ts.Node): void => {
+    visitor(node);
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+}
+
+/** Static imports, re-exports and `require('x')` calls with their specifier */
+function importSpecifiers(sourceFile: ts.SourceFile): Array<{ node: ts.Node; specifier: string }> {
+  const found: Array<{ node: ts.Node; specifier: string }> = [];
+  visitAll(sourceFile, node => {
+    if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+        node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      found.push({ node, specifier: node.moduleSpecifier.text });
+    } else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteral(node.arguments[0]) &&
+        (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+         (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+      found.push({ node, specifier: node.arguments[0].text });
+    }
+  });
+  return found;
+}
+
+/** `react` matches `react` only; `@dtsl/*` matches anything under @dtsl/ */
+function matchesImportPattern(specifier: string, pattern: string): boolean {
+  return pattern.endsWith('*')
+    ? specifier.startsWith(pattern.slice(0, -1))
+    : specifier === pattern;
+}
+
+function isFcType(type: ts.TypeNode): type is ts.TypeReferenceNode {
+  if (!ts.isTypeReferenceNode(type)) return false;
+  const name = ts.isIdentifier(type.typeName) ? type.typeName.text : type.typeName.right.text;
+  return FC_TYPE_NAMES.has(name);
+}
+
+/**
+ * `const Button: React.FC<ButtonProps> = (props) => ...` becomes
+ * `const Button = (props: ButtonProps) => ...`. Only arrow functions and
+ * function expressions whose first parameter is untyped are rewritten;
+ * anything else is left for the model.
+ */
+function fixReactFc(declaration: ts.VariableDeclaration, sourceFile: ts.SourceFile): TextEdit[] | undefined {
+  const type = declaration.type as ts.TypeReferenceNode;
+  const fn = declaration.initializer;
+  if (!fn || (!ts.isArrowFunction(fn) && !ts.isFunctionExpression(fn))) return undefined;
+
+  // Drop `: React.FC<...>`
+  const edits: TextEdit[] = [{ start: declaration.name.end, end: type.end, text: '' }];
+
+  const propsType = type.typeArguments?.[0]?.getText(sourceFile);
+  const param = fn.parameters[0];
+  if (!propsType || !param) return edits;
+  if (param.type) return undefined;
+
+  // `props => ...` has no parentheses to put the annotation in
+  const hasParens = fn.getChildren(sourceFile).some(c => c.kind === ts.SyntaxKind.OpenParenToken);
+  if (hasParens) {
+    edits.push({ start: param.name.end, end: param.name.end, text: `: ${propsType}` });
+  } else {
+    edits.push({ start: param.getStart(sourceFile), end: param.end, text: `(${param.name.getText(sourceFile)}: ${propsType})` });
+  }
+  return edits;
+}
+
+/**
+ * PascalCase function declarations and `const X = () => ...` /
+ * `const X = function () {...}` — the shapes a generated component takes.
+ */
+function componentFunctions(sourceFile: ts.SourceFile): Array<{ name: string; fn: ts.SignatureDeclaration }> {
+  const found: Array<{ name: string; fn: ts.SignatureDeclaration }> = [];
+  const isComponentName = (name: string) => /^[A-Z]/.test(name);
+
+  visitAll(sourceFile, node => {
+    if (ts.isFunctionDeclaration(node) && node.name && isComponentName(node.name.text)) {
+      found.push({ name: node.name.text, fn: node });
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && isComponentName(node.name.text) &&
+        node.initializer && (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))) {
+      found.push({ name: node.name.text, fn: node.initializer });
+    }
+  });
+  return found;
+}
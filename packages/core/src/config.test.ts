@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigValidationError, loadBatchManifest, loadConfigFile, resolveMcpServers, validateConfig } from './config';
+
+describe('validateConfig', () => {
+  it('should accept the documented config sections', () => {
+    const issues = validateConfig({
+      mcpServers: {
+        figma: { transport: 'stdio', command: 'npx', args: ['-y', 'figma-developer-mcp', '--stdio'], env: { FIGMA_API_KEY: '${FIGMA_MCP_KEY}' } },
+        naos: { transport: 'http', url: 'https://naos-mcp.51b.dev/mcp', enabled: true },
+      },
+      codegen: { language: 'typescript', framework: 'react', minCoverage: 80, generateStorybook: true },
+      agent: { model: 'claude-sonnet-4-20250514', maxTurns: 30, temperature: 0.7 },
+      validation: {
+        designParity: { enabled: true, minScore: 95 },
+        accessibility: { enabled: true, level: 'AA' },
+      },
+      output: { baseDir: './src/components', structure: 'feature', naming: 'kebab-case' },
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should report unknown keys with their path', () => {
+    const issues = validateConfig({ agent: { maxTurn: 30 }, hooks: {} });
+
+    expect(issues.map(i => i.path)).toEqual(['agent.maxTurn', 'hooks']);
+    expect(issues[0].message).toContain('unknown key');
+  });
+
+  it('should report wrong types', () => {
+    const issues = validateConfig({
+      codegen: { minCoverage: '80' },
+      mcpServers: { figma: { transport: 'stdio', command: 'npx', enabled: 'yes' } },
+    });
+
+    expect(issues).toEqual([
+      { path: 'codegen.minCoverage', message: 'expected a number, got "80"' },
+      { path: 'mcpServers.figma.enabled', message: 'expected a boolean, got "yes"' },
+    ]);
+  });
+
+  it('should report invalid enum values', () => {
+    const issues = validateConfig({ output: { structure: 'flat', naming: 'snake_case' } });
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toEqual({
+      path: 'output.structure',
+      message: 'must be one of "feature", "atomic", got "flat"',
+    });
+    expect(issues[1].path).toBe('output.naming');
+  });
+
+  it('should report out-of-range numbers', () => {
+    const issues = validateConfig({ agent: { maxTurns: 0, temperature: 2 } });
+
+    expect(issues.map(i => i.path)).toEqual(['agent.maxTurns', 'agent.temperature']);
+  });
+
+  it('should validate MCP servers by transport', () => {
+    const issues = validateConfig({
+      mcpServers: {
+        figma: { transport: 'stdio', url: 'https://example.com' },
+        naos: { transport: 'websocket', url: 'wss://example.com' },
+        other: { command: 'npx' },
+      },
+    });
+
+    expect(issues).toEqual([
+      { path: 'mcpServers.figma.url', message: 'unknown key (expected one of: transport, command, args, env, enabled, timeout, retries, namespace, tools)' },
+      { path: 'mcpServers.figma.command', message: 'missing required key' },
+      { path: 'mcpServers.naos.transport', message: 'must be one of "stdio", "http", got "websocket"' },
+      { path: 'mcpServers.other.transport', message: 'missing required key' },
+    ]);
+  });
+
+  it('should reject a non-object config', () => {
+    expect(validateConfig([])).toEqual([{ path: '', message: 'expected an object, got an array' }]);
+  });
+});
+
+describe('ConfigValidationError', () => {
+  it('should list every issue with file and key path', () => {
+    const error = new ConfigValidationError('/project/designforge.config.js', [
+      { path: 'output.naming', message: 'must be one of "kebab-case", got "x"' },
+    ]);
+
+    expect(error.message).toContain('/project/designforge.config.js › output.naming: must be one of');
+  });
+});
+
+describe('loadConfigFile', () => {
+  it('should return an empty config when no file exists', async () => {
+    const loaded = await loadConfigFile(path.join(__dirname, 'no-such-dir'));
+
+    expect(loaded).toEqual({ filePath: null, config: {} });
+  });
+});
+
+describe('loadBatchManifest', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'designforge-manifest-'));
+  const write = (content: string) => {
+    const file = path.join(dir, 'batch.json');
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('should load targets and concurrency', () => {
+    const file = write(JSON.stringify({
+      concurrency: 3,
+      targets: [{ figma: 'https://www.figma.com/design/ABC/Lib?node-id=1-2', output: 'buttons' }, { figma: '1:3' }],
+    }));
+
+    expect(loadBatchManifest(file)).toEqual({
+      concurrency: 3,
+      targets: [{ figma: 'https://www.figma.com/design/ABC/Lib?node-id=1-2', output: 'buttons' }, { figma: '1:3' }],
+    });
+  });
+
+  it('should report invalid manifests with their path', () => {
+    expect(() => loadBatchManifest(write('{ "targets": [{ "output": "x" }] }')))
+      .toThrow('targets[0].figma');
+    expect(() => loadBatchManifest(write('not json'))).toThrow('failed to load');
+  });
+});
+
+describe('resolveMcpServers', () => {
+  it('should build bridge configs and skip disabled servers', () => {
+    const servers = resolveMcpServers({
+      figma: { transport: 'stdio', command: 'npx', args: ['figma-developer-mcp'], env: { FIGMA_API_KEY: '${FIGMA_MCP_KEY}' } },
+      naos: { transport: 'http', url: 'https://naos.example/mcp', headers: { Authorization: 'Bearer ${NAOS_TOKEN}' }, timeout: 30, retries: 0 },
+      legacy: { transport: 'http', url: 'https://old.example/mcp', enabled: false },
+    }, { FIGMA_MCP_KEY: 'figd_123', NAOS_TOKEN: 'abc' });
+
+    expect(servers).toEqual([
+      { name: 'figma', transport: 'stdio', command: 'npx', args: ['figma-developer-mcp'], env: { FIGMA_API_KEY: 'figd_123' } },
+      { name: 'naos', transport: 'http', url: 'https://naos.example/mcp', headers: { Authorization: 'Bearer abc' }, timeoutMs: 30_000, retries: 0 },
+    ]);
+  });
+
+  it('should use ${NAME:-fallback} when the variable is unset', () => {
+    const [server] = resolveMcpServers(
+      { naos: { transport: 'http', url: '${NAOS_MCP_URL:-https://naos-mcp.51b.dev/mcp}' } },
+      {},
+    );
+
+    expect(server).toMatchObject({ url: 'https://naos-mcp.51b.dev/mcp' });
+  });
+
+  it('should skip servers whose referenced variables are unset', () => {
+    const onSkip = jest.fn();
+
+    const servers = resolveMcpServers({
+      figma: { transport: 'stdio', command: 'npx', env: { FIGMA_API_KEY: '${FIGMA_MCP_KEY}' } },
+      naos: { transport: 'http', url: '${NAOS_MCP_URL:-https://naos-mcp.51b.dev/mcp}' },
+    }, {}, onSkip);
+
+    expect(servers.map(s => s.name)).toEqual(['naos']);
+    expect(onSkip).toHaveBeenCalledWith('figma', ['FIGMA_MCP_KEY']);
+  });
+});
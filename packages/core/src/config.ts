@@ -0,0 +1,557 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { PrefetchSources } from './agent';
+import type { BatchTargetEntry } from './batch';
+import type { LlmProviderName } from './llm-provider';
+import type { McpServerConfig } from './mcp-bridge';
+import type { VisionConfig } from './vision';
+
+// ==============================================================================
+// designforge.config.js
+// ==============================================================================
+// Typed shape of the project config file. Every section is optional; CLI
+// flags and env vars still take priority over anything set here.
+
+// String values in server entries may reference environment variables as
+// `${NAME}` or `${NAME:-fallback}` so secrets stay out of the file.
+export type McpServerFileConfig = (
+  | {
+      transport: 'stdio';
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+    }
+  | {
+      transport: 'http';
+      url: string;
+      headers?: Record<string, string>;
+    }
+) & {
+  enabled?: boolean;
+  /** Per-request timeout in seconds (default 60) */
+  timeout?: number;
+  /** Retries of a timed-out or dropped call (default 2) */
+  retries?: number;
+  /** Expose tools as `<server>__<tool>` */
+  namespace?: boolean;
+  /** Tool names the model may see; `*` wildcards, deny wins */
+  tools?: { allow?: string[]; deny?: string[] };
+};
+
+export interface DesignForgeFileConfig {
+  mcpServers?: Record<string, McpServerFileConfig>;
+  codegen?: {
+    language?: 'typescript' | 'javascript';
+    framework?: 'react';
+    designSystem?: string;
+    testFramework?: 'jest';
+    minCoverage?: number;
+    generateStorybook?: boolean;
+    generateTests?: boolean;
+  };
+  agent?: {
+    /** 'anthropic' (Messages API) or 'openai' (OpenAI-compatible chat completions) */
+    provider?: LlmProviderName;
+    /** The provider's base URL; ANTHROPIC_BASE_URL / OPENAI_BASE_URL take priority */
+    baseURL?: string;
+    model?: string;
+    maxTurns?: number;
+    systemPrompt?: string;
+    temperature?: number;
+    /** Stream responses and write files as their code blocks complete */
+    stream?: boolean;
+    /** Emit files as write_file tool calls ('tools') or code fences ('fences') */
+    outputMode?: 'fences' | 'tools';
+    /** Token budget for the Figma outline; larger designs are split into frame chunks */
+    figmaTokenBudget?: number;
+    /** Generate one pass per top-level frame, then compose the page */
+    chunked?: boolean;
+    /** Tools, resources or prompts the Naos context and extra prompt sections come from */
+    prefetch?: PrefetchSources;
+    /** Image input from MCP results; `enabled: false` for text-only models */
+    vision?: VisionConfig;
+  };
+  validation?: {
+    designParity?: {
+      enabled?: boolean;
+      minScore?: number;
+      compareColors?: boolean;
+      compareSpacing?: boolean;
+      compareTypography?: boolean;
+    };
+    accessibility?: {
+      enabled?: boolean;
+      level?: 'A' | 'AA' | 'AAA';
+      checkContrast?: boolean;
+      checkKeyboard?: boolean;
+      checkAria?: boolean;
+      /** Send findings back to the model as a repair turn */
+      repair?: boolean;
+    };
+    typeChecking?: boolean;
+    /** Check generated code against the Naos/@dtsl/react code rules */
+    linting?: boolean;
+    /** Severity per code rule id: 'error', 'warning' or 'off' */
+    rules?: Record<string, 'error' | 'warning' | 'off'>;
+    /** Apply code rule fixes (e.g. React.FC → plain function) automatically */
+    autoFix?: boolean;
+    /** Packages generated code may import, e.g. ['react', '@dtsl/*'] */
+    allowedImports?: string[];
+    /** Check @dtsl/react components and props against the Naos docs */
+    naosCatalog?: boolean;
+    /** tsconfig.json for type checking; the nearest one above baseDir by default */
+    tsconfig?: string;
+    /** Run the generated tests with Jest and check codegen.minCoverage */
+    runTests?: boolean;
+    /** Repair turns allowed while validation errors remain */
+    maxRepairIterations?: number;
+  };
+  output?: {
+    baseDir?: string;
+    structure?: 'feature' | 'atomic';
+    naming?: 'kebab-case' | 'PascalCase' | 'camelCase';
+    cleanBefore?: boolean;
+  };
+  /** Several designs in one `designforge start` */
+  batch?: BatchFileConfig;
+  /** On-disk cache of MCP tool responses */
+  cache?: {
+    enabled?: boolean;
+    /** Default: .designforge/cache */
+    dir?: string;
+    /** TTL in seconds per tool name; 0 turns caching off for that tool */
+    ttl?: Record<string, number>;
+  };
+}
+
+export interface BatchFileConfig {
+  /** Figma URLs or node IDs; node IDs resolve against the first URL */
+  targets?: BatchTargetEntry[];
+  /** JSON manifest with the same shape, relative to the project */
+  manifest?: string;
+  /** Targets generated at the same time */
+  concurrency?: number;
+}
+
+export const CONFIG_FILE_NAME = 'designforge.config.js';
+
+// ==============================================================================
+// Schema
+// ==============================================================================
+// A small declarative schema mirroring DesignForgeFileConfig. Kept in
+// sync by hand — when adding a config key, add it to both.
+
+export type ConfigSchema =
+  | { kind: 'string' }
+  | { kind: 'boolean' }
+  | { kind: 'number'; min?: number; max?: number; integer?: boolean }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'array'; items: ConfigSchema }
+  | { kind: 'object'; fields: Record<string, ConfigSchema>; required?: string[] }
+  | { kind: 'record'; values: ConfigSchema }
+  | { kind: 'tagged'; tag: string; variants: Record<string, ConfigSchema & { kind: 'object' }> };
+
+const str = (): ConfigSchema => ({ kind: 'string' });
+const bool = (): ConfigSchema => ({ kind: 'boolean' });
+const num = (opts: { min?: number; max?: number; integer?: boolean } = {}): ConfigSchema =>
+  ({ kind: 'number', ...opts });
+const oneOf = (...values: string[]): ConfigSchema => ({ kind: 'enum', values });
+const obj = (fields: Record<string, ConfigSchema>, required?: string[]) =>
+  ({ kind: 'object', fields, required }) as ConfigSchema & { kind: 'object' };
+const recordOf = (values: ConfigSchema): ConfigSchema => ({ kind: 'record', values });
+const arrayOf = (items: ConfigSchema): ConfigSchema => ({ kind: 'array', items });
+// Discriminated union: the value of `tag` selects which object schema applies
+const tagged = (tag: string, variants: Record<string, ConfigSchema & { kind: 'object' }>): ConfigSchema =>
+  ({ kind: 'tagged', tag, variants });
+
+const PREFETCH_SOURCE = obj({
+  tool: str(),
+  resource: str(),
+  prompt: str(),
+  args: recordOf(str()),
+});
+
+// Keys every MCP server entry takes besides its transport's own
+const MCP_SERVER_FIELDS: Record<string, ConfigSchema> = {
+  enabled: bool(),
+  timeout: num({ min: 1 }),
+  retries: num({ min: 0, integer: true }),
+  namespace: bool(),
+  tools: obj({ allow: arrayOf(str()), deny: arrayOf(str()) }),
+};
+
+export const CONFIG_SCHEMA: ConfigSchema = obj({
+  mcpServers: recordOf(tagged('transport', {
+    stdio: obj({
+      transport: str(),
+      command: str(),
+      args: arrayOf(str()),
+      env: recordOf(str()),
+      ...MCP_SERVER_FIELDS,
+    }, ['command']),
+    http: obj({
+      transport: str(),
+      url: str(),
+      headers: recordOf(str()),
+      ...MCP_SERVER_FIELDS,
+    }, ['url']),
+  })),
+  codegen: obj({
+    language: oneOf('typescript', 'javascript'),
+    framework: oneOf('react'),
+    designSystem: str(),
+    testFramework: oneOf('jest'),
+    minCoverage: num({ min: 0, max: 100 }),
+    generateStorybook: bool(),
+    generateTests: bool(),
+  }),
+  agent: obj({
+    provider: oneOf('anthropic', 'openai'),
+    baseURL: str(),
+    model: str(),
+    maxTurns: num({ min: 1, integer: true }),
+    systemPrompt: str(),
+    temperature: num({ min: 0, max: 1 }),
+    stream: bool(),
+    outputMode: oneOf('fences', 'tools'),
+    figmaTokenBudget: num({ min: 100, integer: true }),
+    chunked: bool(),
+    prefetch: obj({
+      components: PREFETCH_SOURCE,
+      tokens: PREFETCH_SOURCE,
+      icons: PREFETCH_SOURCE,
+      extra: recordOf(PREFETCH_SOURCE),
+      screenshot: obj({ tool: str(), args: recordOf(str()) }, ['tool']),
+    }),
+    vision: obj({
+      enabled: bool(),
+      maxImages: num({ min: 0, integer: true }),
+      maxImageBytes: num({ min: 1, integer: true }),
+    }),
+  }),
+  validation: obj({
+    designParity: obj({
+      enabled: bool(),
+      minScore: num({ min: 0, max: 100 }),
+      compareColors: bool(),
+      compareSpacing: bool(),
+      compareTypography: bool(),
+    }),
+    accessibility: obj({
+      enabled: bool(),
+      level: oneOf('A', 'AA', 'AAA'),
+      checkContrast: bool(),
+      checkKeyboard: bool(),
+      checkAria: bool(),
+      repair: bool(),
+    }),
+    typeChecking: bool(),
+    linting: bool(),
+    rules: recordOf(oneOf('error', 'warning', 'off')),
+    autoFix: bool(),
+    allowedImports: arrayOf(str()),
+    naosCatalog: bool(),
+    tsconfig: str(),
+    runTests: bool(),
+    maxRepairIterations: num({ min: 0, integer: true }),
+  }),
+  output: obj({
+    baseDir: str(),
+    structure: oneOf('feature', 'atomic'),
+    naming: oneOf('kebab-case', 'PascalCase', 'camelCase'),
+    cleanBefore: bool(),
+  }),
+  batch: obj({
+    targets: arrayOf(obj({ figma: str(), output: str(), name: str() }, ['figma'])),
+    manifest: str(),
+    concurrency: num({ min: 1, integer: true }),
+  }),
+  cache: obj({
+    enabled: bool(),
+    dir: str(),
+    ttl: recordOf(num({ min: 0 })),
+  }),
+});
+
+/** A batch manifest: the `batch` section minus `manifest`, with targets required */
+export const BATCH_MANIFEST_SCHEMA: ConfigSchema = obj({
+  targets: arrayOf(obj({ figma: str(), output: str(), name: str() }, ['figma'])),
+  concurrency: num({ min: 1, integer: true }),
+}, ['targets']);
+
+// ==============================================================================
+// Validation
+// ==============================================================================
+
+export interface ConfigIssue {
+  /** Dotted key path, e.g. `output.naming` or `mcpServers.figma.enabled` */
+  path: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly issues: ConfigIssue[],
+  ) {
+    super(
+      `Invalid ${path.basename(filePath)}:\n` +
+      issues.map(i => `  ${filePath} › ${i.path || '(root)'}: ${i.message}`).join('\n'),
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Check a raw config value against CONFIG_SCHEMA.
+ * Reports every unknown key, wrong type and out-of-range value rather
+ * than stopping at the first one.
+ */
+export function validateConfig(raw: unknown, schema: ConfigSchema = CONFIG_SCHEMA): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  checkValue(raw, schema, '', issues);
+  return issues;
+}
+
+function checkValue(value: unknown, schema: ConfigSchema, keyPath: string, issues: ConfigIssue[]): void {
+  // Optional everywhere: `undefined` means "use the default"
+  if (value === undefined) return;
+
+  const fail = (message: string) => issues.push({ path: keyPath, message });
+
+  switch (schema.kind) {
+    case 'string':
+      if (typeof value !== 'string') fail(`expected a string, got ${describe(value)}`);
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') fail(`expected a boolean, got ${describe(value)}`);
+      return;
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        fail(`expected a number, got ${describe(value)}`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        fail(`expected an integer, got ${value}`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        fail(`must be at least ${schema.min}, got ${value}`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        fail(`must be at most ${schema.max}, got ${value}`);
+      }
+      return;
+
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        fail(`must be one of ${schema.values.map(v => `"${v}"`).join(', ')}, got ${describe(value)}`);
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail(`expected an array, got ${describe(value)}`);
+        return;
+      }
+      value.forEach((item, i) => checkValue(item, schema.items, `${keyPath}[${i}]`, issues));
+      return;
+
+    case 'object':
+    case 'record': {
+      if (!isPlainObject(value)) {
+        fail(`expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = keyPath ? `${keyPath}.${key}` : key;
+        if (schema.kind === 'record') {
+          checkValue(child, schema.values, childPath, issues);
+        } else if (key in schema.fields) {
+          checkValue(child, schema.fields[key], childPath, issues);
+        } else {
+          issues.push({
+            path: childPath,
+            message: `unknown key (expected one of: ${Object.keys(schema.fields).join(', ')})`,
+          });
+        }
+      }
+      if (schema.kind === 'object') {
+        for (const key of schema.required ?? []) {
+          if (value[key] === undefined) {
+            issues.push({ path: keyPath ? `${keyPath}.${key}` : key, message: 'missing required key' });
+          }
+        }
+      }
+      return;
+    }
+
+    case 'tagged': {
+      if (!isPlainObject(value)) {
+        fail(`expected an object, got ${describe(value)}`);
+        return;
+      }
+      const tagValue = value[schema.tag];
+      const variant = typeof tagValue === 'string' ? schema.variants[tagValue] : undefined;
+      if (!variant) {
+        issues.push({
+          path: keyPath ? `${keyPath}.${schema.tag}` : schema.tag,
+          message: tagValue === undefined
+            ? 'missing required key'
+            : `must be one of ${Object.keys(schema.variants).map(v => `"${v}"`).join(', ')}, got ${describe(tagValue)}`,
+        });
+        return;
+      }
+      checkValue(value, variant, keyPath, issues);
+      return;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return `${typeof value} ${String(value)}`;
+}
+
+// ==============================================================================
+// Loading
+// ==============================================================================
+
+export interface LoadedConfig {
+  /** Absolute path of the config file, or null when none exists */
+  filePath: string | null;
+  config: DesignForgeFileConfig;
+}
+
+/**
+ * Load and validate designforge.config.js from `cwd`.
+ * A missing file yields an empty config; a file that fails to import or
+ * validate throws ConfigValidationError instead of falling back to defaults.
+ */
+export async function loadConfigFile(cwd: string = process.cwd()): Promise<LoadedConfig> {
+  const filePath = path.join(cwd, CONFIG_FILE_NAME);
+  if (!fs.existsSync(filePath)) return { filePath: null, config: {} };
+
+  let raw: unknown;
+  try {
+    raw = await importConfigModule(filePath);
+  } catch (err) {
+    throw new ConfigValidationError(filePath, [{
+      path: '',
+      message: `failed to load: ${err instanceof Error ? err.message : String(err)}`,
+    }]);
+  }
+
+  const issues = validateConfig(raw);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(filePath, issues);
+  }
+
+  return { filePath, config: raw as DesignForgeFileConfig };
+}
+
+/**
+ * Read a JSON batch manifest. Relative `output` paths in it are meant
+ * relative to the manifest, so callers resolve them against its directory.
+ */
+export function loadBatchManifest(filePath: string): BatchFileConfig & { targets: BatchTargetEntry[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    throw new ConfigValidationError(filePath, [{
+      path: '',
+      message: `failed to load: ${err instanceof Error ? err.message : String(err)}`,
+    }]);
+  }
+
+  const issues = validateConfig(raw, BATCH_MANIFEST_SCHEMA);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(filePath, issues);
+  }
+  return raw as BatchFileConfig & { targets: BatchTargetEntry[] };
+}
+
+// ==============================================================================
+// MCP Servers
+// ==============================================================================
+
+const ENV_REF_REGEX = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Turn the `mcpServers` section into bridge configs: drops entries with
+ * `enabled: false` and expands `${ENV}` references. A server referencing an
+ * unset variable without a `:-fallback` is skipped (and reported through
+ * `onSkip`) rather than started with an empty secret.
+ */
+export function resolveMcpServers(
+  servers: Record<string, McpServerFileConfig>,
+  env: NodeJS.ProcessEnv = process.env,
+  onSkip?: (server: string, missingVars: string[]) => void,
+): McpServerConfig[] {
+  const resolved: McpServerConfig[] = [];
+  for (const [name, server] of Object.entries(servers)) {
+    if (server.enabled === false) continue;
+
+    const missing = new Set<string>();
+    const expand = (value: string): string =>
+      value.replace(ENV_REF_REGEX, (_match, varName: string, fallback?: string) => {
+        const resolvedValue = env[varName] ?? fallback;
+        if (resolvedValue === undefined) missing.add(varName);
+        return resolvedValue ?? '';
+      });
+    const expandRecord = (record: Record<string, string> | undefined) =>
+      record && Object.fromEntries(Object.entries(record).map(([k, v]) => [k, expand(v)]));
+
+    const limits = {
+      timeoutMs: server.timeout && server.timeout * 1000,
+      retries: server.retries,
+      namespace: server.namespace,
+      tools: server.tools,
+    };
+
+    const config: McpServerConfig = server.transport === 'stdio'
+      ? {
+          name,
+          transport: 'stdio',
+          command: expand(server.command),
+          args: server.args?.map(expand),
+          env: expandRecord(server.env),
+          ...limits,
+        }
+      : {
+          name,
+          transport: 'http',
+          url: expand(server.url),
+          headers: expandRecord(server.headers),
+          ...limits,
+        };
+
+    if (missing.size > 0) {
+      onSkip?.(name, [...missing]);
+      continue;
+    }
+    resolved.push(config);
+  }
+
+  return resolved;
+}
+
+async function importConfigModule(filePath: string): Promise<unknown> {
+  let mod: Record<string, unknown>;
+  try {
+    mod = await import(pathToFileURL(filePath).href);
+  } catch (err) {
+    // A `.js` file outside a `"type": "module"` package is parsed as CommonJS,
+    // so ESM syntax fails. Retry the same source as an ES module.
+    if (!(err instanceof SyntaxError)) throw err;
+    const source = fs.readFileSync(filePath, 'utf-8');
+    mod = await import(`data:text/javascript;base64,${Buffer.from(source).toString('base64')}`);
+  }
+  return mod.default ?? mod;
+}
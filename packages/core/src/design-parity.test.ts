@@ -0,0 +1,124 @@
+import { analyzeDesignParity, parityIssues } from './design-parity';
+import type { FigmaDocument } from './figma-data';
+
+describe('analyzeDesignParity', () => {
+  const doc: FigmaDocument = {
+    nodes: [{
+      id: '1:1',
+      name: 'Settings',
+      type: 'FRAME',
+      children: [
+        {
+          id: '2:1',
+          name: 'Profile card',
+          type: 'FRAME',
+          children: [
+            { id: '3:1', name: 'Title', type: 'TEXT', text: 'Profile  settings' },
+            { id: '3:2', name: 'Old title', type: 'TEXT', text: 'Legacy', visible: false },
+            {
+              id: '3:3',
+              name: 'Button',
+              type: 'INSTANCE',
+              componentProperties: [
+                { name: 'Size', value: 'Large', type: 'VARIANT' },
+                { name: 'Type', value: 'Primary', type: 'VARIANT' },
+                { name: 'State', value: 'Hover', type: 'VARIANT' },
+              ],
+              children: [
+                { id: '4:1', name: 'Icon/Check', type: 'INSTANCE' },
+                { id: '4:2', name: 'Label', type: 'TEXT', text: 'Save' },
+              ],
+            },
+          ],
+        },
+        {
+          id: '2:2',
+          name: 'Footer',
+          type: 'FRAME',
+          children: [
+            {
+              id: '5:1',
+              name: 'Toggle',
+              type: 'INSTANCE',
+              componentProperties: { 'Checked#12:0': { type: 'BOOLEAN', value: true } },
+            },
+            { id: '5:2', name: 'Hint', type: 'TEXT', text: 'Email me updates' },
+          ],
+        },
+      ],
+    }],
+  };
+
+  it('should score each component and list unmatched nodes', () => {
+    const report = analyzeDesignParity(doc, [{
+      file: 'ProfileCard.tsx',
+      content: [
+        "import { Button as NaosButton, Text } from '@dtsl/react';",
+        'export function ProfileCard() {',
+        '  return (',
+        '    <>',
+        '      <Text>Profile settings</Text>',
+        '      <NaosButton size="lg" variant="primary">Save</NaosButton>',
+        '    </>',
+        '  );',
+        '}',
+      ].join('\n'),
+    }]);
+
+    expect(report.components).toEqual([
+      { nodeId: '2:1', name: 'Profile card', score: 100, checks: 5, matched: 5 },
+      { nodeId: '2:2', name: 'Footer', score: 0, checks: 2, matched: 0 },
+    ]);
+    expect(report.score).toBe(71.4);
+    expect(report.unmatched.map(n => n.nodeId)).toEqual(['5:1', '5:2']);
+  });
+
+  it('should check variant and boolean properties against props', () => {
+    const report = analyzeDesignParity(doc, [{
+      file: 'Settings.tsx',
+      content: [
+        "import * as Naos from '@dtsl/react';",
+        'const hint = "Email me updates";',
+        'export const Settings = () => (',
+        '  <div>',
+        '    <h1>Profile settings</h1>',
+        '    <Naos.Button size="small" variant="secondary">Save</Naos.Button>',
+        '    <Naos.Toggle checked label={hint} />',
+        '  </div>',
+        ');',
+      ].join('\n'),
+    }]);
+
+    expect(report.unmatched.map(n => n.reason)).toEqual([
+      'Instance "Button": Size=Large is not reflected in its props',
+      'Instance "Button": Type=Primary is not reflected in its props',
+    ]);
+    expect(report.components[1].score).toBe(100);
+  });
+
+  it('should not count elements that are not from the design system', () => {
+    const report = analyzeDesignParity(doc, [{
+      file: 'Custom.tsx',
+      content: "import { Button } from './Button';\nexport const X = () => <Button>Save</Button>;",
+    }]);
+
+    expect(report.unmatched.find(n => n.nodeId === '3:3')?.reason)
+      .toBe('Instance "Button" has no matching @dtsl/react element');
+  });
+});
+
+describe('parityIssues', () => {
+  it('should only fail below the minimum score', () => {
+    const report = {
+      score: 60,
+      components: [{ nodeId: '2:2', name: 'Footer', score: 60, checks: 5, matched: 3 }],
+      unmatched: [{ nodeId: '5:2', name: 'Hint', type: 'TEXT', component: 'Footer', reason: 'Text "Email me updates" is not rendered' }],
+    };
+
+    expect(parityIssues(report, 50)).toEqual([]);
+    expect(parityIssues(report, 95).map(i => i.message)).toEqual([
+      'Design parity 60% is below the 95% minimum (Footer 60%)',
+      '[Footer] Text "Email me updates" is not rendered (node 5:2)',
+    ]);
+  });
+});
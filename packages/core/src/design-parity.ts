@@ -0,0 +1,331 @@
+import ts from 'typescript';
+import {
+  getComponentProperties,
+  getComponentUnits,
+  walkFigmaNodes,
+  type FigmaDocument,
+  type FigmaNode,
+} from './figma-data';
+import type { ValidationIssue } from './validation';
+
+// ==============================================================================
+// Design Parity
+// ==============================================================================
+// Compares the Figma node tree with the JSX that was generated for it:
+//   - every visible text layer's content appears in the generated code
+//   - every component instance is rendered as a matching @dtsl/react element
+//   - the instance's variant/boolean properties line up with that element's props
+// Each of these is one check; a component's score is the share of its
+// checks that pass. Matching is deliberately lenient (case, spacing and
+// common size abbreviations are ignored) — the goal is to catch missing
+// content and wrong components, not to diff markup.
+
+export const DESIGN_SYSTEM_PACKAGE = '@dtsl/react';
+
+export interface GeneratedSource {
+  file: string;
+  content: string;
+}
+
+export interface ComponentParity {
+  nodeId: string;
+  name: string;
+  /** Percentage of passed checks; 100 when there is nothing to check */
+  score: number;
+  checks: number;
+  matched: number;
+}
+
+export interface UnmatchedNode {
+  nodeId: string;
+  name: string;
+  type: string;
+  /** Name of the component (Figma unit) the node belongs to */
+  component: string;
+  reason: string;
+}
+
+export interface ParityReport {
+  /** Percentage of passed checks across all components */
+  score: number;
+  components: ComponentParity[];
+  unmatched: UnmatchedNode[];
+}
+
+/** A rendered design system element and the props it was given */
+interface RenderedElement {
+  /** Name exported by the design system, even when imported under an alias */
+  component: string;
+  /** Normalized prop name → normalized literal value ('' for non-literals) */
+  props: Map<string, string>;
+}
+
+interface JsxUsage {
+  elements: RenderedElement[];
+  /** All normalized text and string literals, space-joined */
+  text: string;
+}
+
+// Variant values with nothing to verify, and interaction states that are
+// not props (the component handles hover/press itself)
+const SKIPPED_VARIANT_VALUES = new Set(['default', 'none', 'hover', 'hovered', 'pressed', 'active', 'focus', 'focused']);
+
+const SIZE_ALIASES: Record<string, string[]> = {
+  extrasmall: ['xs'],
+  small: ['sm', 's'],
+  medium: ['md', 'm'],
+  large: ['lg', 'l'],
+  extralarge: ['xl'],
+};
+
+export function analyzeDesignParity(doc: FigmaDocument, sources: GeneratedSource[]): ParityReport {
+  const usage = collectJsxUsage(sources);
+  const components: ComponentParity[] = [];
+  const unmatched: UnmatchedNode[] = [];
+
+  for (const unit of getComponentUnits(doc)) {
+    let checks = 0;
+    let matched = 0;
+
+    const check = (node: FigmaNode, ok: boolean, reason: string) => {
+      checks++;
+      if (ok) {
+        matched++;
+      } else {
+        unmatched.push({ nodeId: node.id, name: node.name, type: node.type, component: unit.name, reason });
+      }
+    };
+
+    walkFigmaNodes([unit], (node, ancestors) => {
+      // Hidden layers (and everything under them) are not part of the design
+      if ([...ancestors, node].some(n => n.visible === false)) return;
+
+      if (node.type === 'TEXT' && node.text?.trim()) {
+        check(node, usage.text.includes(normalizeText(node.text)), `Text "${node.text.trim()}" is not rendered`);
+      }
+
+      // Instances nested in other instances are internals of a design
+      // system component, not something the generated code renders
+      if (node.type === 'INSTANCE' && !ancestors.some(a => a.type === 'INSTANCE')) {
+        const elements = usage.elements.filter(e => instanceMatchesElement(node.name, e.component));
+        check(node, elements.length > 0, `Instance "${node.name}" has no matching ${DESIGN_SYSTEM_PACKAGE} element`);
+
+        if (elements.length > 0) {
+          for (const prop of getComponentProperties(node)) {
+            const outcome = checkProperty(prop.name, prop.value, prop.type, elements);
+            if (outcome !== 'skip') {
+              check(node, outcome === 'match', `Instance "${node.name}": ${prop.name}=${prop.value} is not reflected in its props`);
+            }
+          }
+        }
+      }
+    });
+
+    components.push({ nodeId: unit.id, name: unit.name, score: percent(matched, checks), checks, matched });
+  }
+
+  const totalChecks = components.reduce((sum, c) => sum + c.checks, 0);
+  const totalMatched = components.reduce((sum, c) => sum + c.matched, 0);
+
+  return { score: percent(totalMatched, totalChecks), components, unmatched };
+}
+
+/**
+ * Validation issues when the overall score is below `minScore`: a summary
+ * plus one issue per unmatched node.
+ */
+export function parityIssues(report: ParityReport, minScore: number): ValidationIssue[] {
+  if (report.score >= minScore) return [];
+
+  const failing = report.components.filter(c => c.score < minScore).map(c => `${c.name} ${c.score}%`);
+  return [
+    {
+      source: 'design-parity',
+      severity: 'error',
+      message: `Design parity ${report.score}% is below the ${minScore}% minimum (${failing.join(', ')})`,
+    },
+    ...report.unmatched.map(node => ({
+      source: 'design-parity',
+      severity: 'error' as const,
+      message: `[${node.component}] ${node.reason} (node ${node.nodeId})`,
+    })),
+  ];
+}
+
+// ==============================================================================
+// Matching
+// ==============================================================================
+
+/**
+ * "Button", "Button/Primary" or "Primary button" all match a rendered
+ * `Button`: any path segment equal to the component, or containing it.
+ */
+function instanceMatchesElement(instanceName: string, component: string): boolean {
+  const target = normalizeName(component);
+  if (!target) return false;
+  return instanceName.split('/').some(segment => {
+    const name = normalizeName(segment);
+    return name === target || name.includes(target);
+  });
+}
+
+function checkProperty(
+  name: string,
+  value: string,
+  type: string,
+  elements: RenderedElement[],
+): 'match' | 'mismatch' | 'skip' {
+  const propName = normalizeName(name);
+  const propValue = normalizeName(value);
+
+  if (type === 'BOOLEAN') {
+    // A false boolean is satisfied by leaving the prop out
+    if (propValue !== 'true') return 'skip';
+    return elements.some(e => [...e.props.keys()].some(k => k === propName || k.includes(propName) || propName.includes(k)))
+      ? 'match'
+      : 'mismatch';
+  }
+
+  if (type !== 'VARIANT' || !propValue || SKIPPED_VARIANT_VALUES.has(propValue)) return 'skip';
+
+  const accepted = new Set([propValue, ...(SIZE_ALIASES[propValue] ?? [])]);
+  const matches = elements.some(e =>
+    // size="large" for Size=Large
+    accepted.has(e.props.get(propName) ?? '\0') ||
+    // variant="primary" for Type=Primary
+    [...e.props.values()].some(v => accepted.has(v)) ||
+    // disabled for State=Disabled
+    e.props.has(propValue));
+
+  return matches ? 'match' : 'mismatch';
+}
+
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function percent(matched: number, total: number): number {
+  return total === 0 ? 100 : Math.round(1000 * matched / total) / 10;
+}
+
+// ==============================================================================
+// JSX extraction
+// ==============================================================================
+
+function collectJsxUsage(sources: GeneratedSource[]): JsxUsage {
+  const elements: RenderedElement[] = [];
+  const texts: string[] = [];
+
+  for (const source of sources) {
+    const sourceFile = ts.createSourceFile(source.file, source.content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+    const imports = collectDesignSystemImports(sourceFile);
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isImportDeclaration(node)) return;
+
+      if (ts.isJsxText(node)) {
+        texts.push(node.text);
+      } else if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+        texts.push(node.text);
+      } else if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        const component = resolveDesignSystemTag(node.tagName, imports);
+        if (component) {
+          elements.push({ component, props: readProps(node.attributes) });
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  return { elements, text: texts.map(normalizeText).join(' ') };
+}
+
+export interface DesignSystemImports {
+  /** Local name → exported name, e.g. NaosButton → Button */
+  named: Map<string, string>;
+  /** Local names of `import * as X from '@dtsl/react'` */
+  namespaces: Set<string>;
+}
+
+/** Local names bound to design system exports, and namespace imports */
+export function collectDesignSystemImports(sourceFile: ts.SourceFile): DesignSystemImports {
+  const named = new Map<string, string>();
+  const namespaces = new Set<string>();
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement)) continue;
+    if (!ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    if (statement.moduleSpecifier.text !== DESIGN_SYSTEM_PACKAGE) continue;
+
+    const bindings = statement.importClause?.namedBindings;
+    if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        named.set(element.name.text, (element.propertyName ?? element.name).text);
+      }
+    } else if (bindings && ts.isNamespaceImport(bindings)) {
+      namespaces.add(bindings.name.text);
+    }
+  }
+
+  return { named, namespaces };
+}
+
+/**
+ * The design system component a JSX tag renders, e.g. `Button` for
+ * `<NaosButton>` or `<Naos.Button>`; null for anything else.
+ */
+export function resolveDesignSystemTag(
+  tag: ts.JsxTagNameExpression,
+  { named, namespaces }: DesignSystemImports,
+): string | null {
+  if (ts.isIdentifier(tag)) {
+    return named.get(tag.text) ?? null;
+  }
+  // <Naos.Button> or <Button.Group>
+  if (ts.isPropertyAccessExpression(tag) && ts.isIdentifier(tag.expression)) {
+    if (namespaces.has(tag.expression.text)) return tag.name.text;
+    const parent = named.get(tag.expression.text);
+    if (parent) return `${parent}.${tag.name.text}`;
+  }
+  return null;
+}
+
+function readProps(attributes: ts.JsxAttributes): Map<string, string> {
+  const props = new Map<string, string>();
+
+  for (const attribute of attributes.properties) {
+    if (!ts.isJsxAttribute(attribute)) continue;
+
+    const name = normalizeName(attribute.name.getText());
+    const initializer = attribute.initializer;
+    let value = '';
+
+    if (!initializer) {
+      value = 'true';
+    } else if (ts.isStringLiteral(initializer)) {
+      value = initializer.text;
+    } else if (ts.isJsxExpression(initializer) && initializer.expression) {
+      const expression = initializer.expression;
+      if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+        value = expression.text;
+      } else if (expression.kind === ts.SyntaxKind.TrueKeyword) {
+        value = 'true';
+      }
+    }
+
+    // An explicit {false} is the same as leaving the prop out
+    if (initializer && ts.isJsxExpression(initializer) && initializer.expression?.kind === ts.SyntaxKind.FalseKeyword) {
+      continue;
+    }
+
+    props.set(name, normalizeName(value));
+  }
+
+  return props;
+}
@@ -0,0 +1,114 @@
+import { buildFigmaNodeUrl, getComponentProperties, parseFigmaData, parseFigmaUrl, resolveFigmaTarget, walkFigmaNodes } from './figma-data';
+
+describe('parseFigmaData', () => {
+  it('should parse JSON output', () => {
+    const raw = JSON.stringify({
+      metadata: { name: 'Settings' },
+      nodes: [{ id: '1:2', name: 'Header', type: 'FRAME' }],
+    });
+
+    const doc = parseFigmaData(raw);
+
+    expect(doc).not.toBeNull();
+    expect(doc!.metadata).toEqual({ name: 'Settings' });
+    expect(doc!.nodes[0].id).toBe('1:2');
+  });
+
+  it('should parse YAML output (figma-developer-mcp default)', () => {
+    const raw = [
+      'metadata:',
+      '  name: Settings',
+      'nodes:',
+      "  - id: '1:2'",
+      '    name: Header',
+      '    type: FRAME',
+      '    children:',
+      "      - id: '1:3'",
+      '        name: Title',
+      '        type: TEXT',
+      '        text: Account settings',
+      'globalVars:',
+      '  styles:',
+      '    fill_ABC:',
+      "      - '#FFFFFF'",
+    ].join('\n');
+
+    const doc = parseFigmaData(raw);
+
+    expect(doc).not.toBeNull();
+    expect(doc!.nodes[0].children![0].text).toBe('Account settings');
+    expect(doc!.globalVars!.styles!.fill_ABC).toEqual(['#FFFFFF']);
+  });
+
+  it('should return null for payloads without a nodes array', () => {
+    expect(parseFigmaData('{"error":true,"message":"rate limited"}')).toBeNull();
+    expect(parseFigmaData('Error: file not found')).toBeNull();
+  });
+});
+
+describe('walkFigmaNodes', () => {
+  it('should visit nodes depth-first with their ancestors', () => {
+    const visited: string[] = [];
+
+    walkFigmaNodes(
+      [{ id: '1', name: 'Page', type: 'FRAME', children: [{ id: '2', name: 'Card', type: 'FRAME' }] }],
+      (node, ancestors) => visited.push(`${ancestors.map(a => a.id).join('/')}>${node.id}`),
+    );
+
+    expect(visited).toEqual(['>1', '1>2']);
+  });
+});
+
+describe('getComponentProperties', () => {
+  it('should read both the simplified list and the raw API map', () => {
+    const simplified = getComponentProperties({
+      id: '1', name: 'Button', type: 'INSTANCE',
+      componentProperties: [{ name: 'Size', value: 'Large', type: 'VARIANT' }],
+    });
+    const raw = getComponentProperties({
+      id: '1', name: 'Button', type: 'INSTANCE',
+      componentProperties: { 'Show icon#12:3': { type: 'BOOLEAN', value: false } },
+    });
+
+    expect(simplified).toEqual([{ name: 'Size', value: 'Large', type: 'VARIANT' }]);
+    expect(raw).toEqual([{ name: 'Show icon', value: 'false', type: 'BOOLEAN' }]);
+  });
+});
+
+describe('parseFigmaUrl', () => {
+  it('should extract file key and node ID', () => {
+    expect(parseFigmaUrl('https://www.figma.com/design/ABC123/Name?node-id=12-34&m=dev'))
+      .toEqual({ fileKey: 'ABC123', nodeId: '12-34' });
+  });
+
+  it('should throw on URLs without a file key', () => {
+    expect(() => parseFigmaUrl('https://example.com')).toThrow('Could not extract Figma file key');
+  });
+});
+
+describe('buildFigmaNodeUrl', () => {
+  it('should append a node-id parameter', () => {
+    expect(buildFigmaNodeUrl('https://www.figma.com/design/ABC/Name', '12:34'))
+      .toBe('https://www.figma.com/design/ABC/Name?node-id=12-34');
+  });
+
+  it('should replace an existing node-id parameter', () => {
+    expect(buildFigmaNodeUrl('https://www.figma.com/design/ABC/Name?node-id=1-1&m=dev', '12:34'))
+      .toBe('https://www.figma.com/design/ABC/Name?node-id=12-34&m=dev');
+  });
+});
+
+describe('resolveFigmaTarget', () => {
+  const base = 'https://www.figma.com/design/ABC/Name?node-id=1-1';
+
+  it('should resolve node IDs against the base URL and keep full URLs', () => {
+    expect(resolveFigmaTarget('12:34', base)).toBe('https://www.figma.com/design/ABC/Name?node-id=12-34');
+    expect(resolveFigmaTarget(' 12-34 ', base)).toBe('https://www.figma.com/design/ABC/Name?node-id=12-34');
+    expect(resolveFigmaTarget('https://www.figma.com/file/XYZ/Other')).toBe('https://www.figma.com/file/XYZ/Other');
+  });
+
+  it('should reject node IDs without a base URL and URLs without a file key', () => {
+    expect(() => resolveFigmaTarget('12:34')).toThrow('needs a Figma URL');
+    expect(() => resolveFigmaTarget('https://example.com/page', base)).toThrow('Could not extract Figma file key');
+  });
+});
@@ -0,0 +1,184 @@
+import * as yaml from 'js-yaml';
+
+// ==============================================================================
+// Figma Data Model
+// ==============================================================================
+// Shape of the simplified design returned by figma-developer-mcp's
+// `get_figma_data` tool. The server serializes as YAML by default and as
+// JSON when started with `--json`, so parseFigmaData() accepts both.
+//
+// Only the fields DesignForge reads are typed; everything else is kept
+// as-is so fingerprints and prompts see the full node.
+
+export interface FigmaNode {
+  id: string;
+  name: string;
+  type: string;
+  text?: string;
+  visible?: boolean;
+  componentId?: string;
+  /**
+   * Instance properties: a `{ name, value, type }` list in the simplified
+   * format, a map keyed by name in raw Figma API data. Read them with
+   * getComponentProperties().
+   */
+  componentProperties?: FigmaComponentProperty[] | Record<string, { type?: string; value?: unknown }>;
+  children?: FigmaNode[];
+  [key: string]: unknown;
+}
+
+export interface FigmaComponentProperty {
+  /** Property name without Figma's `#123:45` suffix, e.g. "Size" */
+  name: string;
+  value: string;
+  /** 'VARIANT' | 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' */
+  type: string;
+}
+
+export interface FigmaDocument {
+  metadata?: Record<string, unknown>;
+  nodes: FigmaNode[];
+  globalVars?: {
+    styles?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Parse a `get_figma_data` response into a node tree.
+ * Returns null when the payload is neither JSON nor YAML with a `nodes`
+ * array (e.g. an error message from the MCP server).
+ */
+export function parseFigmaData(raw: string): FigmaDocument | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    try {
+      parsed = yaml.load(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object') return null;
+  const doc = parsed as Partial<FigmaDocument>;
+  if (!Array.isArray(doc.nodes)) return null;
+
+  return {
+    metadata: doc.metadata,
+    nodes: doc.nodes,
+    globalVars: doc.globalVars,
+  };
+}
+
+/**
+ * Depth-first walk over a node tree. The visitor receives each node and
+ * its ancestors (closest last).
+ */
+export function walkFigmaNodes(
+  nodes: FigmaNode[],
+  visit: (node: FigmaNode, ancestors: FigmaNode[]) => void,
+  ancestors: FigmaNode[] = [],
+): void {
+  for (const node of nodes) {
+    visit(node, ancestors);
+    if (node.children && node.children.length > 0) {
+      walkFigmaNodes(node.children, visit, [...ancestors, node]);
+    }
+  }
+}
+
+/**
+ * The nodes that stand for individual components: the children of a
+ * single selected frame, or the top-level nodes otherwise.
+ */
+export function getComponentUnits(doc: FigmaDocument): FigmaNode[] {
+  return doc.nodes.length === 1 && doc.nodes[0].children?.length
+    ? doc.nodes[0].children
+    : doc.nodes;
+}
+
+/**
+ * An instance's component properties in one shape, whichever format the
+ * node came in.
+ */
+export function getComponentProperties(node: FigmaNode): FigmaComponentProperty[] {
+  const raw = node.componentProperties;
+  if (!raw) return [];
+
+  const entries: Array<[string, { type?: unknown; value?: unknown }]> = Array.isArray(raw)
+    ? raw.map(p => [p.name, p])
+    : Object.entries(raw);
+
+  return entries.map(([name, prop]) => ({
+    name: name.replace(/#[^#]*$/, ''),
+    value: String(prop?.value ?? ''),
+    type: String(prop?.type ?? 'VARIANT'),
+  }));
+}
+
+/** JSON with object keys sorted, so equal values serialize identically */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// ==============================================================================
+// Figma URLs
+// ==============================================================================
+
+/**
+ * Parse a Figma URL to extract the file key and optional node ID.
+ * Handles URLs like:
+ *   https://www.figma.com/design/ABCDEF/Name?node-id=123-456&m=dev
+ *   https://www.figma.com/file/ABCDEF/Name
+ */
+export function parseFigmaUrl(url: string): { fileKey: string; nodeId?: string } {
+  // Extract file key from /design/<key>/ or /file/<key>/
+  const keyMatch = url.match(/\/(?:design|file)\/([A-Za-z0-9]+)/);
+  if (!keyMatch) {
+    throw new Error(`Could not extract Figma file key from URL: ${url}`);
+  }
+
+  // Extract node ID from ?node-id=<id> query parameter
+  const nodeMatch = url.match(/[?&]node-id=([^&]+)/);
+  const nodeId = nodeMatch ? nodeMatch[1] : undefined;
+
+  return { fileKey: keyMatch[1], nodeId };
+}
+
+/**
+ * Point a Figma URL at a specific node. API node IDs use `123:456` while
+ * URLs use `123-456`; either form is accepted.
+ */
+export function buildFigmaNodeUrl(url: string, nodeId: string): string {
+  const urlNodeId = nodeId.replace(/:/g, '-');
+  if (/[?&]node-id=[^&]*/.test(url)) {
+    return url.replace(/([?&]node-id=)[^&]*/, `$1${urlNodeId}`);
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}node-id=${urlNodeId}`;
+}
+
+/**
+ * A batch target as a Figma URL: full URLs are checked and kept, bare
+ * node IDs (`12:34` or `12-34`) are resolved against `baseUrl`.
+ */
+export function resolveFigmaTarget(target: string, baseUrl?: string): string {
+  const value = target.trim();
+  if (/^\d+[:-]\d+$/.test(value)) {
+    if (!baseUrl) {
+      throw new Error(`Node ID "${value}" needs a Figma URL to resolve against`);
+    }
+    return buildFigmaNodeUrl(baseUrl, value);
+  }
+  parseFigmaUrl(value);
+  return value;
+}
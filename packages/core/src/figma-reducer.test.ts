@@ -0,0 +1,115 @@
+import { estimateTokens, reduceFigmaData } from './figma-reducer';
+import type { FigmaDocument, FigmaNode } from './figma-data';
+
+describe('reduceFigmaData', () => {
+  const doc: FigmaDocument = {
+    metadata: { components: { 'c:1': { name: 'Button' } } },
+    globalVars: {
+      styles: {
+        layout_1: { mode: 'column', gap: '16px' },
+        style_1: { fontFamily: 'Inter', fontSize: 24 },
+      },
+    },
+    nodes: [{
+      id: '1:1',
+      name: 'Profile card',
+      type: 'FRAME',
+      layout: 'layout_1',
+      fills: [{ type: 'SOLID', color: '#FFFFFF' }],
+      children: [
+        { id: '2:1', name: 'Title', type: 'TEXT', text: 'Profile\n settings', textStyle: 'style_1' },
+        { id: '2:2', name: 'Divider', type: 'LINE' },
+        { id: '2:3', name: 'Debug', type: 'FRAME', visible: false, children: [{ id: '9:1', name: 'x', type: 'TEXT' }] },
+        { id: '2:4', name: 'Decoration', type: 'GROUP', children: [{ id: '9:2', name: 'Blob', type: 'VECTOR' }] },
+        { id: '2:5', name: 'Avatar', type: 'ELLIPSE', fills: [{ type: 'IMAGE', imageRef: 'abc' }] },
+        {
+          id: '2:6',
+          name: 'Save',
+          type: 'INSTANCE',
+          componentId: 'c:1',
+          componentProperties: [{ name: 'Type', value: 'Primary', type: 'VARIANT' }],
+          children: [{ id: '9:3', name: 'Label', type: 'TEXT', text: 'Save' }, { id: '9:4', name: 'Icon', type: 'VECTOR' }],
+        },
+        { id: '2:7', name: 'Row', type: 'FRAME', fills: [{ type: 'SOLID', color: '#FFFFFF' }] },
+        { id: '2:8', name: 'Row', type: 'FRAME', fills: [{ type: 'SOLID', color: '#FFFFFF' }] },
+      ],
+    }],
+  };
+
+  it('should outline the tree without decorative nodes, instance internals or repeats', () => {
+    const reduced = reduceFigmaData(doc);
+
+    expect(reduced.split).toBe(false);
+    expect(reduced.outline).toBe([
+      '- FRAME "Profile card" #1:1 layout=$layout_1 fills=$fills_1',
+      '  - TEXT "Title" #2:1 "Profile settings" textStyle=$style_1',
+      '  - IMAGE "Avatar" #2:5 fills=$fills_2',
+      '  - INSTANCE "Save" #2:6 of "Button" {Type=Primary} ["Save"]',
+      '  - FRAME "Row" #2:7 fills=$fills_1 ×2',
+      '',
+      'styles:',
+      '  $fills_1: [{"type":"SOLID","color":"#FFFFFF"}]',
+      '  $fills_2: [{"type":"IMAGE","imageRef":"abc"}]',
+      '  $layout_1: {"mode":"column","gap":"16px"}',
+      '  $style_1: {"fontFamily":"Inter","fontSize":24}',
+    ].join('\n'));
+    expect(reduced.chunks).toEqual([{ nodeId: '1:1', path: 'Profile card', outline: reduced.outline, tokens: estimateTokens(reduced.outline) }]);
+    expect(reduced.stats).toEqual({ nodes: 13, dropped: 7, deduped: 1, tokens: estimateTokens(reduced.outline) });
+  });
+
+  it('should split designs over the budget into per-frame chunks', () => {
+    const section = (n: number): FigmaNode => ({
+      id: `2:${n}`,
+      name: `Section ${n}`,
+      type: 'FRAME',
+      children: Array.from({ length: 5 }, (_, i) => ({
+        id: `3:${n}${i}`,
+        name: `Paragraph ${i}`,
+        type: 'TEXT',
+        text: `Section ${n} paragraph ${i} with enough copy to matter`,
+      })),
+    });
+    const page: FigmaDocument = {
+      nodes: [{ id: '1:1', name: 'Page', type: 'FRAME', children: [section(1), section(2), section(3)] }],
+    };
+
+    const reduced = reduceFigmaData(page, { tokenBudget: 150 });
+
+    expect(reduced.split).toBe(true);
+    expect(reduced.chunks.map(c => [c.nodeId, c.path])).toEqual([
+      ['2:1', 'Page / Section 1'],
+      ['2:2', 'Page / Section 2'],
+      ['2:3', 'Page / Section 3'],
+    ]);
+    expect(reduced.chunks.every(c => c.tokens <= 150)).toBe(true);
+    // Nothing is lost to the split
+    for (let i = 0; i < 5; i++) {
+      expect(reduced.chunks[2].outline).toContain(`"Section 3 paragraph ${i} with enough copy to matter"`);
+    }
+    expect(reduced.outline).toContain('Design split into 3 parts');
+    expect(reduced.outline).toContain('2. Page / Section 2 #2:2');
+  });
+
+  it('should group small sibling frames into chunks up to the budget', () => {
+    const card = (n: number): FigmaNode => ({
+      id: `2:${n}`,
+      name: `Card ${n}`,
+      type: 'FRAME',
+      children: [{ id: `3:${n}`, name: 'Label', type: 'TEXT', text: `Card number ${n}` }],
+    });
+    const grid: FigmaDocument = {
+      nodes: [{ id: '1:1', name: 'Grid', type: 'FRAME', children: Array.from({ length: 40 }, (_, i) => card(i + 1)) }],
+    };
+
+    const reduced = reduceFigmaData(grid, { tokenBudget: 200 });
+
+    expect(reduced.split).toBe(true);
+    expect(reduced.chunks.length).toBeLessThan(10);
+    expect(reduced.chunks.every(c => c.tokens <= 200)).toBe(true);
+    expect(reduced.chunks[0].nodeId).toMatch(/^2:1,2:2,2:3/);
+    expect(reduced.chunks[0].path).toMatch(/^Grid \/ Card 1 \+ Card 2/);
+    // Every card is still in exactly one chunk
+    const ids = reduced.chunks.flatMap(c => c.nodeId.split(','));
+    expect(ids).toEqual(grid.nodes[0].children!.map(c => c.id));
+  });
+});
@@ -0,0 +1,331 @@
+import {
+  getComponentProperties,
+  stableStringify,
+  type FigmaDocument,
+  type FigmaNode,
+} from './figma-data';
+
+// ==============================================================================
+// Figma Reducer
+// ==============================================================================
+// Turns a parsed `get_figma_data` tree into a compact outline for the
+// prompt, instead of slicing the raw payload mid-node:
+//   - invisible nodes and purely decorative shapes (vectors, lines, ...) go
+//   - a component instance becomes one line (component, properties, texts);
+//     its internals belong to the design system component
+//   - identical siblings (list rows, repeated cards) become one line × N
+//   - style objects become references into a legend listed once per outline
+// When the outline exceeds the token budget, it is split into chunks of
+// adjacent frames up to the budget (recursing into frames that are still
+// too large) rather than truncated.
+//
+// Output, one node per line:
+//   - FRAME "Profile card" #2:1 layout=$layout_1 fills=$fills_2
+//     - TEXT "Title" #3:1 "Profile settings" textStyle=$style_1
+//     - INSTANCE "Button" #3:3 {Size=Large, Type=Primary} ["Save"] ×2
+
+export interface FigmaReduceOptions {
+  /** Tokens one outline may use (≈ 4 characters per token) */
+  tokenBudget?: number;
+}
+
+export interface FigmaChunk {
+  /** Nodes the chunk covers, comma-separated when siblings were grouped */
+  nodeId: string;
+  /** Frame names from the top of the design, e.g. "Settings / Profile card" */
+  path: string;
+  outline: string;
+  tokens: number;
+}
+
+export interface ReducedFigma {
+  /** The whole design when it fits the budget, otherwise an index of the chunks */
+  outline: string;
+  /** One chunk when the design fits the budget */
+  chunks: FigmaChunk[];
+  split: boolean;
+  stats: {
+    /** Nodes in the original tree */
+    nodes: number;
+    /** Nodes dropped as invisible, decorative or internal to an instance */
+    dropped: number;
+    /** Sibling nodes merged into a "× N" line */
+    deduped: number;
+    /** Tokens of the full outline before splitting */
+    tokens: number;
+  };
+}
+
+/** ≈ the 8,000 characters the pre-fetch used to cap Figma data at */
+export const DEFAULT_FIGMA_TOKEN_BUDGET = 2_000;
+
+const DECORATIVE_TYPES = new Set([
+  'VECTOR', 'LINE', 'ELLIPSE', 'RECTANGLE', 'REGULAR_POLYGON', 'STAR', 'BOOLEAN_OPERATION', 'SLICE',
+]);
+// Containers that carry nothing once their children are gone
+const GROUP_TYPES = new Set(['GROUP', 'SECTION']);
+// Node fields serialized by the outline itself rather than as attributes
+const STRUCTURAL_FIELDS = new Set([
+  'id', 'name', 'type', 'text', 'visible', 'children', 'componentId', 'componentProperties',
+]);
+const MAX_INLINE_VALUE_CHARS = 24;
+
+interface OutlineNode {
+  /** `TYPE "name"` */
+  label: string;
+  /** Everything after the label and id: text, instance details, style attributes */
+  details: string;
+  children: OutlineNode[];
+  /** Same subtree, ids left out — equal for identical siblings */
+  signature: string;
+  /** Identical siblings merged into this one */
+  repeat: number;
+  /** Legend entries the subtree refers to */
+  styles: Set<string>;
+  id: string;
+  name: string;
+}
+
+interface ReduceContext {
+  styles: Record<string, unknown>;
+  components: Record<string, { name?: string }>;
+  /** Inline style values interned into the legend, by serialized value */
+  interned: Map<string, string>;
+  legend: Map<string, unknown>;
+  stats: ReducedFigma['stats'];
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function reduceFigmaData(doc: FigmaDocument, options: FigmaReduceOptions = {}): ReducedFigma {
+  const budget = options.tokenBudget ?? DEFAULT_FIGMA_TOKEN_BUDGET;
+  const ctx: ReduceContext = {
+    styles: doc.globalVars?.styles ?? {},
+    components: (doc.metadata?.components ?? {}) as Record<string, { name?: string }>,
+    interned: new Map(),
+    legend: new Map(),
+    stats: {
+      nodes: doc.nodes.reduce((sum, node) => sum + 1 + countDescendants(node), 0),
+      dropped: 0,
+      deduped: 0,
+      tokens: 0,
+    },
+  };
+
+  const roots = reduceChildren(doc.nodes, ctx);
+  const full = renderOutline(roots, ctx);
+  ctx.stats.tokens = estimateTokens(full);
+
+  if (ctx.stats.tokens <= budget || roots.length === 0) {
+    const chunk: FigmaChunk = {
+      nodeId: roots.map(r => r.id).join(','),
+      path: roots.map(r => r.name).join(' + '),
+      outline: full,
+      tokens: ctx.stats.tokens,
+    };
+    return { outline: full, chunks: [chunk], split: false, stats: ctx.stats };
+  }
+
+  const chunks: FigmaChunk[] = [];
+  const pushChunk = (nodes: OutlineNode[], path: string[]) => {
+    const outline = renderOutline(nodes, ctx);
+    chunks.push({
+      nodeId: nodes.map(n => n.id).join(','),
+      path: [...path, nodes.map(n => n.name).join(' + ')].join(' / '),
+      outline,
+      tokens: estimateTokens(outline),
+    });
+  };
+  // Adjacent siblings that fit the budget share a chunk, so a frame of many
+  // small cards does not turn into one chunk (and one turn) per card
+  const splitSiblings = (nodes: OutlineNode[], path: string[]) => {
+    let group: OutlineNode[] = [];
+    const flush = () => {
+      if (group.length > 0) pushChunk(group, path);
+      group = [];
+    };
+    for (const node of nodes) {
+      if (estimateTokens(renderOutline([...group, node], ctx)) <= budget) {
+        group.push(node);
+        continue;
+      }
+      flush();
+      if (estimateTokens(renderOutline([node], ctx)) <= budget || node.children.length === 0) {
+        // A frame with nothing left to split goes out whole, over budget or not
+        group.push(node);
+      } else {
+        splitSiblings(node.children, [...path, node.name]);
+      }
+    }
+    flush();
+  };
+  splitSiblings(roots, []);
+
+  const index = [
+    `Design split into ${chunks.length} parts (~${ctx.stats.tokens} tokens in total):`,
+    ...chunks.map((c, i) => `${i + 1}. ${c.path} #${c.nodeId} (~${c.tokens} tokens)`),
+  ].join('\n');
+
+  return { outline: index, chunks, split: true, stats: ctx.stats };
+}
+
+// ==============================================================================
+// Reduction
+// ==============================================================================
+
+function reduceChildren(nodes: FigmaNode[], ctx: ReduceContext): OutlineNode[] {
+  const reduced: OutlineNode[] = [];
+  for (const node of nodes) {
+    const outline = reduceNode(node, ctx);
+    if (!outline) continue;
+
+    const twin = reduced.find(r => r.signature === outline.signature);
+    if (twin) {
+      twin.repeat++;
+      ctx.stats.deduped++;
+    } else {
+      reduced.push(outline);
+    }
+  }
+  return reduced;
+}
+
+function reduceNode(node: FigmaNode, ctx: ReduceContext): OutlineNode | null {
+  if (node.visible === false || (DECORATIVE_TYPES.has(node.type) && !hasImage(node, ctx))) {
+    ctx.stats.dropped += 1 + countDescendants(node);
+    return null;
+  }
+
+  const styles = new Set<string>();
+  // Before the children, so legend entries are numbered in reading order
+  const attributes = styleAttributes(node, ctx, styles);
+  let children: OutlineNode[] = [];
+  let details = '';
+
+  if (node.type === 'TEXT' && node.text) {
+    details += ` ${JSON.stringify(node.text.replace(/\s+/g, ' ').trim())}`;
+  }
+
+  if (node.type === 'INSTANCE') {
+    const component = node.componentId ? ctx.components[node.componentId]?.name : undefined;
+    if (component && component !== node.name) details += ` of ${JSON.stringify(component)}`;
+
+    const props = getComponentProperties(node).map(p => `${p.name}=${p.value}`);
+    if (props.length > 0) details += ` {${props.join(', ')}}`;
+
+    const texts = instanceTexts(node);
+    if (texts.length > 0) details += ` [${texts.map(t => JSON.stringify(t)).join(', ')}]`;
+
+    // Internals are the design system component's business
+    ctx.stats.dropped += countDescendants(node);
+  } else {
+    children = reduceChildren(node.children ?? [], ctx);
+  }
+  if (attributes) details += ` ${attributes}`;
+
+  // A group whose children were all dropped has nothing left to say
+  if (GROUP_TYPES.has(node.type) && children.length === 0) {
+    ctx.stats.dropped++;
+    return null;
+  }
+
+  for (const child of children) {
+    for (const style of child.styles) styles.add(style);
+  }
+
+  const label = `${DECORATIVE_TYPES.has(node.type) ? 'IMAGE' : node.type} ${JSON.stringify(node.name)}`;
+  return {
+    label,
+    details,
+    children,
+    signature: `${label}${details}[${children.map(c => `${c.signature}×${c.repeat}`).join(',')}]`,
+    repeat: 1,
+    styles,
+    id: node.id,
+    name: node.name,
+  };
+}
+
+/**
+ * `fills=$fill_1 opacity=0.5`: style references stay references (resolved
+ * in the legend), inline objects are interned into the legend and short
+ * scalars are written inline.
+ */
+function styleAttributes(node: FigmaNode, ctx: ReduceContext, used: Set<string>): string {
+  const attributes: string[] = [];
+
+  for (const [key, value] of Object.entries(node)) {
+    if (STRUCTURAL_FIELDS.has(key) || value === undefined || value === null) continue;
+
+    if (typeof value === 'string' && value in ctx.styles) {
+      ctx.legend.set(value, ctx.styles[value]);
+      used.add(value);
+      attributes.push(`${key}=$${value}`);
+    } else if (typeof value === 'object' || String(value).length > MAX_INLINE_VALUE_CHARS) {
+      const serialized = stableStringify(value);
+      let ref = ctx.interned.get(serialized);
+      if (!ref) {
+        ref = `${key}_${ctx.interned.size + 1}`;
+        ctx.interned.set(serialized, ref);
+        ctx.legend.set(ref, value);
+      }
+      used.add(ref);
+      attributes.push(`${key}=$${ref}`);
+    } else {
+      attributes.push(`${key}=${value}`);
+    }
+  }
+
+  return attributes.join(' ');
+}
+
+function instanceTexts(node: FigmaNode): string[] {
+  const texts: string[] = [];
+  const visit = (children: FigmaNode[]) => {
+    for (const child of children) {
+      if (child.visible === false) continue;
+      if (child.type === 'TEXT' && child.text?.trim()) texts.push(child.text.replace(/\s+/g, ' ').trim());
+      if (child.children) visit(child.children);
+    }
+  };
+  visit(node.children ?? []);
+  return texts;
+}
+
+/** Shapes filled with an image are content, not decoration */
+function hasImage(node: FigmaNode, ctx: ReduceContext): boolean {
+  const fills = typeof node.fills === 'string' ? ctx.styles[node.fills] : node.fills;
+  return JSON.stringify(fills ?? null).includes('IMAGE');
+}
+
+function countDescendants(node: FigmaNode): number {
+  return (node.children ?? []).reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+// ==============================================================================
+// Rendering
+// ==============================================================================
+
+function renderOutline(roots: OutlineNode[], ctx: ReduceContext): string {
+  const lines: string[] = [];
+  const styles = new Set<string>();
+
+  const render = (node: OutlineNode, depth: number) => {
+    const repeat = node.repeat > 1 ? ` ×${node.repeat}` : '';
+    lines.push(`${'  '.repeat(depth)}- ${node.label} #${node.id}${node.details}${repeat}`);
+    for (const style of node.styles) styles.add(style);
+    for (const child of node.children) render(child, depth + 1);
+  };
+  for (const root of roots) render(root, 0);
+
+  if (styles.size > 0) {
+    lines.push('', 'styles:');
+    for (const ref of [...styles].sort()) {
+      lines.push(`  $${ref}: ${JSON.stringify(ctx.legend.get(ref))}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DesignForgeAgent } from './agent';
+import { McpBridge } from './mcp-bridge';
+import {
+  FigmaWatcher,
+  fingerprintFigmaNodes,
+  loadWatchState,
+  type WatchEvent,
+} from './figma-watcher';
+
+jest.mock('./agent');
+jest.mock('./mcp-bridge');
+
+const FIGMA_URL = 'https://www.figma.com/design/ABC123/Settings?node-id=1-1';
+
+function figmaPayload(headerTitle: string, withForm = true): string {
+  return JSON.stringify({
+    nodes: [
+      {
+        id: '1:1',
+        name: 'Settings Page',
+        type: 'FRAME',
+        children: [
+          { id: '1:2', name: 'Header', type: 'FRAME', children: [{ id: '1:3', name: 'Title', type: 'TEXT', text: headerTitle }] },
+          ...(withForm ? [{ id: '1:4', name: 'Form', type: 'FRAME', fills: 'fill_A' }] : []),
+        ],
+      },
+    ],
+    globalVars: { styles: { fill_A: ['#FFFFFF'] } },
+  });
+}
+
+describe('fingerprintFigmaNodes', () => {
+  it('should fingerprint the children of a single watched frame', () => {
+    const fingerprints = fingerprintFigmaNodes(JSON.parse(figmaPayload('Account')));
+
+    expect(fingerprints.map(fp => fp.id)).toEqual(['1:2', '1:4']);
+  });
+
+  it('should only change the hash of the edited node', () => {
+    const before = fingerprintFigmaNodes(JSON.parse(figmaPayload('Account')));
+    const after = fingerprintFigmaNodes(JSON.parse(figmaPayload('Profile')));
+
+    expect(after[0].hash).not.toBe(before[0].hash);
+    expect(after[1].hash).toBe(before[1].hash);
+  });
+
+  it('should change the hash when a referenced style changes', () => {
+    const doc = JSON.parse(figmaPayload('Account'));
+    const before = fingerprintFigmaNodes(doc);
+    doc.globalVars.styles.fill_A = ['#000000'];
+
+    expect(fingerprintFigmaNodes(doc)[1].hash).not.toBe(before[1].hash);
+  });
+});
+
+describe('FigmaWatcher', () => {
+  const stateDir = path.join(__dirname, '__test_watch__');
+  const stateFile = path.join(stateDir, 'watch-state.json');
+  let figmaResponse: string;
+  let agentRuns: string[];
+
+  beforeEach(() => {
+    if (fs.existsSync(stateDir)) fs.rmSync(stateDir, { recursive: true });
+
+    figmaResponse = figmaPayload('Account');
+    agentRuns = [];
+
+    (McpBridge as jest.Mock).mockImplementation(() => ({
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      getTools: () => [{ name: 'get_figma_data', toolName: 'get_figma_data', serverName: 'figma', inputSchema: { type: 'object' } }],
+      callTool: jest.fn(async () => figmaResponse),
+    }));
+    (DesignForgeAgent as unknown as jest.Mock).mockImplementation((config) => ({
+      run: jest.fn(async () => {
+        agentRuns.push(config.figmaUrl);
+        return { files: [`${config.figmaUrl}.tsx`] };
+      }),
+    }));
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(stateDir)) fs.rmSync(stateDir, { recursive: true });
+  });
+
+  function createWatcher(events: WatchEvent[] = []): FigmaWatcher {
+    return new FigmaWatcher({
+      agentConfig: {
+        figmaUrl: FIGMA_URL,
+        outputPath: './out',
+        anthropicApiKey: 'sk-ant-test-key',
+        mcpServers: [{ name: 'figma', transport: 'stdio', command: 'figma-mcp' }],
+      },
+      intervalMs: 60_000,
+      stateFile,
+      onEvent: e => events.push(e),
+    });
+  }
+
+  it('should regenerate every node on first run and persist fingerprints', async () => {
+    const watcher = createWatcher();
+    await watcher.start();
+    await watcher.regeneratePending();
+    await watcher.stop();
+
+    expect(agentRuns).toEqual([
+      'https://www.figma.com/design/ABC123/Settings?node-id=1-2',
+      'https://www.figma.com/design/ABC123/Settings?node-id=1-4',
+    ]);
+    expect(Object.keys(loadWatchState(stateFile, FIGMA_URL).nodes)).toEqual(['1:2', '1:4']);
+  });
+
+  it('should only regenerate changed nodes after a restart', async () => {
+    const first = createWatcher();
+    await first.start();
+    await first.regeneratePending();
+    await first.stop();
+    agentRuns = [];
+
+    figmaResponse = figmaPayload('Profile');
+    const events: WatchEvent[] = [];
+    const second = createWatcher(events);
+    await second.start();
+    await second.regeneratePending();
+    await second.stop();
+
+    expect(agentRuns).toEqual(['https://www.figma.com/design/ABC123/Settings?node-id=1-2']);
+    expect(events).toContainEqual({ type: 'changed', nodeIds: ['1:2'] });
+  });
+
+  it('should forget removed nodes and regenerate them when added back', async () => {
+    const watcher = createWatcher();
+    await watcher.start();
+    await watcher.regeneratePending();
+
+    figmaResponse = figmaPayload('Account', false);
+    await watcher.poll();
+    expect(Object.keys(loadWatchState(stateFile, FIGMA_URL).nodes)).toEqual(['1:2']);
+
+    agentRuns = [];
+    figmaResponse = figmaPayload('Account');
+    await watcher.poll();
+    await watcher.regeneratePending();
+    await watcher.stop();
+
+    expect(agentRuns).toEqual(['https://www.figma.com/design/ABC123/Settings?node-id=1-4']);
+  });
+
+  it('should retry nodes whose regeneration failed', async () => {
+    (DesignForgeAgent as unknown as jest.Mock).mockImplementation(() => ({
+      run: jest.fn().mockRejectedValue(new Error('LLM unavailable')),
+    }));
+
+    const events: WatchEvent[] = [];
+    const watcher = createWatcher(events);
+    await watcher.start();
+    await watcher.regeneratePending();
+
+    expect(events).toContainEqual({ type: 'error', nodeId: '1:2', message: 'LLM unavailable' });
+    expect(loadWatchState(stateFile, FIGMA_URL).nodes).toEqual({});
+
+    await watcher.poll();
+    await watcher.stop();
+    expect(events.filter(e => e.type === 'changed')).toHaveLength(2);
+  });
+
+  it('should disconnect the bridge on stop', async () => {
+    const watcher = createWatcher();
+    await watcher.start();
+    const bridge = (McpBridge as jest.Mock).mock.results.at(-1)!.value;
+    await watcher.stop();
+
+    expect(bridge.disconnect).toHaveBeenCalled();
+  });
+});
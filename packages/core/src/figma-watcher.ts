@@ -0,0 +1,308 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DesignForgeAgent, type DesignForgeConfig } from './agent';
+import { McpBridge } from './mcp-bridge';
+import {
+  buildFigmaNodeUrl,
+  getComponentUnits,
+  parseFigmaData,
+  parseFigmaUrl,
+  stableStringify,
+  type FigmaDocument,
+} from './figma-data';
+
+// ==============================================================================
+// Watch Configuration
+// ==============================================================================
+
+export interface FigmaWatcherOptions {
+  /** Base agent config. `figmaUrl` is the URL being watched. */
+  agentConfig: DesignForgeConfig;
+  /** Poll interval in milliseconds. */
+  intervalMs: number;
+  /** Quiet period after the last detected change before regenerating. */
+  debounceMs?: number;
+  /** JSON file that remembers fingerprints across restarts. */
+  stateFile: string;
+  onEvent?: (event: WatchEvent) => void;
+}
+
+export type WatchEvent =
+  | { type: 'poll'; nodeCount: number }
+  | { type: 'changed'; nodeIds: string[] }
+  | { type: 'regenerating'; nodeId: string; name: string }
+  | { type: 'regenerated'; nodeId: string; name: string; files: string[] }
+  | { type: 'error'; nodeId?: string; message: string };
+
+// ==============================================================================
+// Persistent State
+// ==============================================================================
+// Fingerprints are only recorded after a node regenerates successfully,
+// so a failed regeneration is retried on the next poll.
+
+export interface WatchNodeState {
+  name: string;
+  hash: string;
+  files: string[];
+  generatedAt: string;
+}
+
+export interface WatchState {
+  version: 1;
+  figmaUrl: string;
+  nodes: Record<string, WatchNodeState>;
+}
+
+export function loadWatchState(stateFile: string, figmaUrl: string): WatchState {
+  const empty: WatchState = { version: 1, figmaUrl, nodes: {} };
+  if (!fs.existsSync(stateFile)) return empty;
+
+  try {
+    const state = JSON.parse(fs.readFileSync(stateFile, 'utf-8')) as WatchState;
+    // State recorded for a different file or frame is meaningless here
+    if (state.version !== 1 || state.figmaUrl !== figmaUrl || !state.nodes) {
+      return empty;
+    }
+    return state;
+  } catch {
+    return empty;
+  }
+}
+
+export function saveWatchState(stateFile: string, state: WatchState): void {
+  fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+  fs.writeFileSync(stateFile, JSON.stringify(state, null, 2), 'utf-8');
+}
+
+// ==============================================================================
+// Fingerprinting
+// ==============================================================================
+
+export interface NodeFingerprint {
+  id: string;
+  name: string;
+  hash: string;
+}
+
+/**
+ * Fingerprint each component-level node of a Figma document.
+ *
+ * When the watched URL points at a single frame, the units of
+ * regeneration are that frame's children; otherwise they are the
+ * top-level nodes. Style references (e.g. `fill_ABC123`) are resolved
+ * through `globalVars.styles` so a restyle changes the hash too.
+ */
+export function fingerprintFigmaNodes(doc: FigmaDocument): NodeFingerprint[] {
+  const units = getComponentUnits(doc);
+  const styles = doc.globalVars?.styles ?? {};
+
+  return units.map(node => ({
+    id: node.id,
+    name: node.name,
+    hash: crypto
+      .createHash('sha256')
+      .update(stableStringify(resolveStyleRefs(node, styles)))
+      .digest('hex'),
+  }));
+}
+
+function resolveStyleRefs(value: unknown, styles: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    return value in styles ? styles[value] : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(v => resolveStyleRefs(v, styles));
+  }
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      out[key] = resolveStyleRefs(v, styles);
+    }
+    return out;
+  }
+  return value;
+}
+
+// ==============================================================================
+// FigmaWatcher
+// ==============================================================================
+// Polls `get_figma_data` through one long-lived McpBridge, compares
+// per-node fingerprints against the persisted state and reruns
+// DesignForgeAgent only for nodes whose fingerprint changed. Files are
+// written by the agent through writeCodeBlocks as in a normal run.
+//
+// Lifecycle: construct → start() → ... → stop()
+
+export class FigmaWatcher {
+  private bridge: McpBridge | null = null;
+  private state: WatchState;
+  private pending: Map<string, NodeFingerprint> = new Map();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private busy = false;
+  private stopped = false;
+  // Aborts an in-flight regeneration when the watcher stops
+  private abortController = new AbortController();
+
+  constructor(private options: FigmaWatcherOptions) {
+    this.state = loadWatchState(options.stateFile, options.agentConfig.figmaUrl);
+  }
+
+  async start(): Promise<void> {
+    const { mcpServers } = this.options.agentConfig;
+    if (!mcpServers || mcpServers.length === 0) {
+      throw new Error('Watch mode requires at least one MCP server providing get_figma_data');
+    }
+
+    // No response cache: every poll must see the current design
+    this.bridge = new McpBridge(mcpServers, this.options.agentConfig.verbose);
+    await this.bridge.connect();
+
+    if (!this.bridge.getTools().some(t => t.toolName === 'get_figma_data')) {
+      await this.stop();
+      throw new Error('No connected MCP server exposes get_figma_data');
+    }
+
+    await this.poll();
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, this.options.intervalMs);
+  }
+
+  /**
+   * Fetch the design once and queue every node whose fingerprint differs
+   * from the last successful regeneration. Skipped while a previous poll
+   * or regeneration is still running.
+   */
+  async poll(): Promise<void> {
+    if (this.busy || this.stopped || !this.bridge) return;
+    this.busy = true;
+
+    try {
+      const { fileKey, nodeId } = parseFigmaUrl(this.options.agentConfig.figmaUrl);
+      const args: Record<string, unknown> = { fileKey };
+      if (nodeId) args.nodeId = nodeId;
+
+      const raw = await this.bridge.callTool('get_figma_data', args);
+      const doc = parseFigmaData(raw);
+      if (!doc) {
+        this.emit({ type: 'error', message: `Unreadable get_figma_data response: ${raw.slice(0, 200)}` });
+        return;
+      }
+
+      const fingerprints = fingerprintFigmaNodes(doc);
+      this.emit({ type: 'poll', nodeCount: fingerprints.length });
+      this.pruneRemovedNodes(new Set(fingerprints.map(fp => fp.id)));
+
+      const changed = fingerprints.filter(fp =>
+        this.state.nodes[fp.id]?.hash !== fp.hash &&
+        this.pending.get(fp.id)?.hash !== fp.hash,
+      );
+      if (changed.length === 0) return;
+
+      for (const fp of changed) this.pending.set(fp.id, fp);
+      this.emit({ type: 'changed', nodeIds: changed.map(fp => fp.id) });
+      this.scheduleRegeneration();
+    } catch (err) {
+      this.emit({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /**
+   * Forget nodes that are no longer in the design, so the state file does
+   * not grow forever and a node added back is generated afresh.
+   */
+  private pruneRemovedNodes(currentIds: Set<string>): void {
+    for (const id of this.pending.keys()) {
+      if (!currentIds.has(id)) this.pending.delete(id);
+    }
+
+    const removed = Object.keys(this.state.nodes).filter(id => !currentIds.has(id));
+    if (removed.length === 0) return;
+    for (const id of removed) delete this.state.nodes[id];
+    saveWatchState(this.options.stateFile, this.state);
+  }
+
+  /**
+   * Stop polling, cancel any in-flight regeneration and close the MCP
+   * connections. Safe to call more than once.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.abortController.abort();
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.pollTimer = null;
+    this.debounceTimer = null;
+
+    if (this.bridge) {
+      await this.bridge.disconnect();
+      this.bridge = null;
+    }
+  }
+
+  // Every new change restarts the quiet period, so a designer nudging
+  // a frame several times in a row triggers one regeneration.
+  private scheduleRegeneration(): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.regeneratePending();
+    }, this.options.debounceMs ?? 0);
+  }
+
+  /**
+   * Run the agent once per pending node, sequentially. Exposed for tests.
+   */
+  async regeneratePending(): Promise<void> {
+    if (this.busy || this.stopped || !this.bridge) {
+      // A poll is in flight — try again after it settles
+      if (!this.stopped && this.pending.size > 0) this.scheduleRegeneration();
+      return;
+    }
+    this.busy = true;
+
+    try {
+      for (const fp of [...this.pending.values()]) {
+        if (this.stopped || !this.bridge) break;
+        this.pending.delete(fp.id);
+        this.emit({ type: 'regenerating', nodeId: fp.id, name: fp.name });
+
+        try {
+          const agent = new DesignForgeAgent({
+            ...this.options.agentConfig,
+            figmaUrl: buildFigmaNodeUrl(this.options.agentConfig.figmaUrl, fp.id),
+            mcpBridge: this.bridge,
+          });
+          const result = await agent.run(undefined, { signal: this.abortController.signal });
+          const files: string[] = result?.files ?? [];
+
+          this.state.nodes[fp.id] = {
+            name: fp.name,
+            hash: fp.hash,
+            files,
+            generatedAt: new Date().toISOString(),
+          };
+          saveWatchState(this.options.stateFile, this.state);
+          this.emit({ type: 'regenerated', nodeId: fp.id, name: fp.name, files });
+        } catch (err) {
+          if (this.stopped) break;
+          this.emit({
+            type: 'error',
+            nodeId: fp.id,
+            message: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private emit(event: WatchEvent): void {
+    this.options.onEvent?.(event);
+  }
+}
@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { parseCodeBlocks, writeCodeBlocks } from './file-writer';
+import { CodeFenceStream, parseCodeBlocks, writeCodeBlocks } from './file-writer';
 
 describe('parseCodeBlocks', () => {
   it('should parse blocks with file path in info string', () => {
@@ -132,6 +132,56 @@ describe('parseCodeBlocks', () => {
   });
 });
 
+describe('CodeFenceStream', () => {
+  const response = [
+    'Here is the component:',
+    '',
+    '```tsx Button/Button.tsx',
+    'export const Button = () => <button />;',
+    '```',
+    '',
+    '**File:** Button/index.ts',
+    '```ts',
+    "export * from './Button';",
+    '```',
+  ].join('\n');
+
+  it('should report each block as soon as its closing fence arrives', () => {
+    const stream = new CodeFenceStream();
+
+    expect(stream.push('Here is the component:\n\n```tsx Button/But')).toEqual([]);
+    expect(stream.push('ton.tsx\nexport const Button = () => <button />;\n')).toEqual([]);
+    expect(stream.currentFile).toBe('Button/Button.tsx');
+
+    const [button] = stream.push('```\n\n**File:** Button/index.ts\n```ts\n');
+    expect(button.filePath).toBe('Button/Button.tsx');
+    expect(stream.currentFile).toBeNull();
+  });
+
+  it('should match parsing the complete text, whatever the chunking', () => {
+    const stream = new CodeFenceStream();
+    const blocks = [];
+
+    for (let i = 0; i < response.length; i += 7) {
+      blocks.push(...stream.push(response.slice(i, i + 7)));
+    }
+    blocks.push(...stream.end());
+
+    expect(blocks).toEqual(parseCodeBlocks(response));
+    expect(blocks.map(b => b.filePath)).toEqual(['Button/Button.tsx', 'Button/index.ts']);
+  });
+
+  it('should wait for the first line before guessing from preceding text', () => {
+    const stream = new CodeFenceStream();
+
+    stream.push('### Old.tsx\n```tsx\n// Button/Butt');
+    expect(stream.currentFile).toBeNull();
+
+    stream.push('on.tsx\n');
+    expect(stream.currentFile).toBe('Button/Button.tsx');
+  });
+});
+
 describe('writeCodeBlocks', () => {
   const testOutputDir = path.join(__dirname, '__test_output__');
 
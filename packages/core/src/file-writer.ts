@@ -57,39 +57,8 @@ export function parseCodeBlocks(text: string): ParsedCodeBlock[] {
     // Skip empty blocks
     if (!content.trim()) continue;
 
-    let filePath: string | null = null;
-
-    // Strategy 1: filename="..." attribute in info string
-    const attrMatch = infoString.match(FILENAME_ATTR_REGEX);
-    if (attrMatch) {
-      filePath = attrMatch[1];
-    }
-
-    // Strategy 2: file path directly in info string (after language)
-    if (!filePath && infoString.trim()) {
-      const candidate = infoString.trim();
-      if (FILE_EXTENSION_REGEX.test(candidate)) {
-        filePath = candidate;
-      }
-    }
-
-    // Strategy 3: first line of content is a comment with a file path
-    if (!filePath) {
-      const firstLine = content.split('\n')[0].trim();
-      const commentMatch = firstLine.match(FIRST_LINE_COMMENT_REGEX);
-      if (commentMatch && FILE_EXTENSION_REGEX.test(commentMatch[1])) {
-        filePath = commentMatch[1];
-      }
-    }
-
-    // Strategy 4: look at the text immediately before the code fence
-    if (!filePath) {
-      const textBefore = text.slice(Math.max(0, matchStart - 200), matchStart);
-      const precedingMatch = textBefore.match(PRECEDING_FILE_REGEX);
-      if (precedingMatch) {
-        filePath = precedingMatch[1].trim();
-      }
-    }
+    const textBefore = text.slice(Math.max(0, matchStart - 200), matchStart);
+    const filePath = resolveBlockFilePath(infoString, content, textBefore);
 
     // Only include blocks where we found a file path
     if (filePath) {
@@ -112,6 +81,129 @@ export function parseCodeBlocks(text: string): ParsedCodeBlock[] {
   return blocks;
 }
 
+/**
+ * Find the target file path of a code block using strategies 1–4 above.
+ * `content` may be partial (a block still being streamed); strategy 3
+ * only applies once its first line is complete.
+ */
+function resolveBlockFilePath(infoString: string, content: string, textBefore: string): string | null {
+  // Strategy 1: filename="..." attribute in info string
+  const attrMatch = infoString.match(FILENAME_ATTR_REGEX);
+  if (attrMatch) {
+    return attrMatch[1];
+  }
+
+  // Strategy 2: file path directly in info string (after language)
+  const candidate = infoString.trim();
+  if (candidate && FILE_EXTENSION_REGEX.test(candidate)) {
+    return candidate;
+  }
+
+  // Strategy 3: first line of content is a comment with a file path
+  const firstLine = content.split('\n')[0].trim();
+  const commentMatch = firstLine.match(FIRST_LINE_COMMENT_REGEX);
+  if (commentMatch && FILE_EXTENSION_REGEX.test(commentMatch[1])) {
+    return commentMatch[1];
+  }
+
+  // Strategy 4: look at the text immediately before the code fence
+  const precedingMatch = textBefore.match(PRECEDING_FILE_REGEX);
+  if (precedingMatch) {
+    return precedingMatch[1].trim();
+  }
+
+  return null;
+}
+
+// ==============================================================================
+// Streaming Code Block Parser
+// ==============================================================================
+// Consumes LLM output as it streams in and reports each code block as soon
+// as its closing fence arrives, so files can be written mid-response.
+// Fences are only recognized on complete lines, and closed blocks are
+// parsed with parseCodeBlocks() so the result matches parsing the full
+// text afterwards.
+
+export class CodeFenceStream {
+  private text = '';
+  /** Offset of the first character not yet scanned for fences */
+  private scanned = 0;
+  /** Offset of the open fence line, or -1 outside a code block */
+  private openFenceStart = -1;
+  private emitted = 0;
+
+  /**
+   * Append a text delta. Returns the code blocks completed by it.
+   */
+  push(delta: string): ParsedCodeBlock[] {
+    this.text += delta;
+    let closed = false;
+
+    let newline: number;
+    while ((newline = this.text.indexOf('\n', this.scanned)) !== -1) {
+      closed = this.scanLine(this.scanned, newline) || closed;
+      this.scanned = newline + 1;
+    }
+
+    return closed ? this.takeCompleted(this.scanned) : [];
+  }
+
+  /**
+   * Flush at the end of the response — a closing fence on the very last
+   * line has no trailing newline.
+   */
+  end(): ParsedCodeBlock[] {
+    if (this.scanned < this.text.length && this.scanLine(this.scanned, this.text.length)) {
+      this.scanned = this.text.length;
+      return this.takeCompleted(this.text.length);
+    }
+    return [];
+  }
+
+  /**
+   * File path of the block currently being streamed, if it can be told yet.
+   */
+  get currentFile(): string | null {
+    if (this.openFenceStart === -1) return null;
+
+    const lineEnd = this.text.indexOf('\n', this.openFenceStart);
+    if (lineEnd === -1) return null;
+
+    const info = this.text.slice(this.openFenceStart + 3, lineEnd).replace(/^\w*[ \t]*/, '');
+    const content = this.text.slice(lineEnd + 1);
+
+    // Until the first line is complete only the info string is conclusive —
+    // a first-line comment would take priority over the preceding text
+    if (!content.includes('\n')) {
+      return resolveBlockFilePath(info, '', '')?.trim() ?? null;
+    }
+
+    const textBefore = this.text.slice(Math.max(0, this.openFenceStart - 200), this.openFenceStart);
+    return resolveBlockFilePath(info, content, textBefore)?.trim() ?? null;
+  }
+
+  /** Returns true when the line closes a code block. */
+  private scanLine(start: number, end: number): boolean {
+    const line = this.text.slice(start, end);
+    if (this.openFenceStart === -1) {
+      if (line.startsWith('```')) this.openFenceStart = start;
+      return false;
+    }
+    if (line === '```') {
+      this.openFenceStart = -1;
+      return true;
+    }
+    return false;
+  }
+
+  private takeCompleted(upTo: number): ParsedCodeBlock[] {
+    const blocks = parseCodeBlocks(this.text.slice(0, upTo));
+    const fresh = blocks.slice(this.emitted);
+    this.emitted = blocks.length;
+    return fresh;
+  }
+}
+
 // ==============================================================================
 // File Writer
 // ==============================================================================
@@ -0,0 +1,82 @@
+import { formatIconMapping, iconGaps, matchIcons, parseNaosIcons } from './icon-matcher';
+import type { FigmaDocument } from './figma-data';
+
+describe('parseNaosIcons', () => {
+  it('should read JSON lists with optional Figma keys', () => {
+    expect(parseNaosIcons(JSON.stringify({
+      icons: [{ name: 'CloseIcon', key: 'k-close' }, 'SearchIcon', { exportName: 'ChevronDownIcon' }],
+    }))).toEqual([
+      { name: 'CloseIcon', figmaKey: 'k-close' },
+      { name: 'SearchIcon' },
+      { name: 'ChevronDownIcon' },
+    ]);
+  });
+
+  it('should read icon names from text', () => {
+    expect(parseNaosIcons([
+      '# Naos Icons',
+      'Import from @dtsl/icons: CloseIcon, SearchIcon',
+      '- Calendar: date pickers',
+      '- `Bell`',
+      'Available sizes: 16, 24',
+    ].join('\n')).map(i => i.name)).toEqual(['CloseIcon', 'SearchIcon', 'Calendar', 'Bell']);
+  });
+});
+
+describe('matchIcons', () => {
+  const doc: FigmaDocument = {
+    metadata: {
+      components: {
+        'c:1': { key: 'k-close', name: 'Size=16', componentSetId: 's:1' },
+        'c:2': { key: 'k-other', name: 'Primary', componentSetId: 's:2' },
+      },
+      componentSets: {
+        's:1': { name: 'Icon/Close' },
+        's:2': { name: 'Button' },
+      },
+    },
+    nodes: [{
+      id: '1:1',
+      name: 'Toolbar',
+      type: 'FRAME',
+      children: [
+        { id: '2:1', name: 'Dismiss', type: 'INSTANCE', componentId: 'c:1', children: [{ id: '9:1', name: 'Vector', type: 'VECTOR' }] },
+        { id: '2:2', name: 'Dismiss', type: 'INSTANCE', componentId: 'c:1' },
+        { id: '2:3', name: 'Icons/Navigation/Chevron Down/24', type: 'INSTANCE' },
+        { id: '2:4', name: 'icon-sparkles', type: 'INSTANCE' },
+        { id: '2:5', name: 'Save', type: 'INSTANCE', componentId: 'c:2', children: [
+          { id: '3:1', name: 'SearchIcon', type: 'INSTANCE' },
+        ] },
+        { id: '2:6', name: 'Icon/Hidden', type: 'INSTANCE', visible: false },
+      ],
+    }],
+  };
+
+  const icons = [
+    { name: 'CloseIcon', figmaKey: 'k-close' },
+    { name: 'IconChevronDown' },
+    { name: 'SearchIcon' },
+  ];
+
+  it('should match icon instances by component key, then by name', () => {
+    const mapping = matchIcons(doc, icons);
+
+    expect(mapping.matched).toEqual([
+      { nodeId: '2:1', figmaName: 'Icon/Close', icon: 'CloseIcon', matchedBy: 'key', count: 2 },
+      { nodeId: '2:3', figmaName: 'Icons/Navigation/Chevron Down/24', icon: 'IconChevronDown', matchedBy: 'name', count: 1 },
+      { nodeId: '3:1', figmaName: 'SearchIcon', icon: 'SearchIcon', matchedBy: 'name', count: 1 },
+    ]);
+    expect(mapping.unmatched).toEqual([
+      { nodeId: '2:4', figmaName: 'icon-sparkles', icon: null, matchedBy: null, count: 1 },
+    ]);
+  });
+
+  it('should format the mapping for the prompt and report unmatched icons as gaps', () => {
+    const mapping = matchIcons(doc, icons);
+
+    const prompt = formatIconMapping(mapping);
+    expect(prompt).toContain('| Icons/Navigation/Chevron Down/24 | `IconChevronDown` |');
+    expect(prompt).toContain('No Naos icon exists for: "icon-sparkles"');
+    expect(iconGaps(mapping)).toEqual(['No Naos icon for "icon-sparkles" (node 2:4)']);
+  });
+});
@@ -0,0 +1,249 @@
+import type { FigmaDocument, FigmaNode } from './figma-data';
+
+// ==============================================================================
+// Icon Matcher
+// ==============================================================================
+// Maps icon instances in the Figma design to Naos icon exports, so the model
+// is told "Icon/Chevron Down → ChevronDownIcon" instead of inlining SVG.
+//
+// An instance is an icon when its name, its main component's name or its
+// component set's name looks like one ("Icon/Close", "icon-close",
+// "CloseIcon"). It matches a Naos icon
+// by Figma component key when the icon list has keys, otherwise by name:
+// the meaningful path segments ("Icons/Navigation/Chevron Down/24" →
+// "Chevron Down") compared with the export name minus its Icon
+// prefix/suffix ("ChevronDownIcon" → "ChevronDown").
+
+export interface NaosIcon {
+  /** Export name, e.g. ChevronDownIcon */
+  name: string;
+  /** Key of the Figma component the icon was published from */
+  figmaKey?: string;
+}
+
+export interface IconMatch {
+  /** First instance of this icon in the design */
+  nodeId: string;
+  /** Icon name as designed, e.g. "Icon/Chevron Down" */
+  figmaName: string;
+  /** Matching Naos export; null when there is none */
+  icon: string | null;
+  matchedBy: 'key' | 'name' | null;
+  /** Instances of this icon in the design */
+  count: number;
+}
+
+export interface IconMapping {
+  matched: IconMatch[];
+  unmatched: IconMatch[];
+}
+
+interface FigmaComponentMeta {
+  key?: string;
+  name?: string;
+  componentSetId?: string;
+}
+
+// Size and style segments that say nothing about which icon it is
+const NOISE_SEGMENT = /^(icons?|\d+(px)?|xs|sm|md|lg|xl|small|medium|large|outlined?|filled|solid|regular)$/;
+
+/**
+ * Parse the `get_naos_icons` response: a JSON list (of names or of
+ * `{ name, key }` objects), a JSON map keyed by name, or plain text with one
+ * or more icon names per line.
+ */
+export function parseNaosIcons(raw: string): NaosIcon[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return iconsFromText(raw);
+  }
+  return dedupe(iconsFromJson(parsed));
+}
+
+/** Map every icon instance in the design to a Naos icon, one entry per distinct icon */
+export function matchIcons(doc: FigmaDocument, icons: NaosIcon[]): IconMapping {
+  const byKey = new Map(icons.filter(i => i.figmaKey).map(i => [i.figmaKey!, i.name]));
+  const byName = new Map<string, string>();
+  for (const icon of icons) {
+    const key = iconKey(icon.name);
+    if (key && !byName.has(key)) byName.set(key, icon.name);
+  }
+
+  const entries = new Map<string, IconMatch>();
+  for (const { node, name, componentKey } of findIconInstances(doc)) {
+    const id = componentKey ?? normalize(name);
+    const existing = entries.get(id);
+    if (existing) {
+      existing.count++;
+      continue;
+    }
+
+    let icon: string | null = componentKey ? byKey.get(componentKey) ?? null : null;
+    let matchedBy: IconMatch['matchedBy'] = icon ? 'key' : null;
+    if (!icon) {
+      icon = nameCandidates(name).map(c => byName.get(c)).find(Boolean) ?? null;
+      if (icon) matchedBy = 'name';
+    }
+
+    entries.set(id, { nodeId: node.id, figmaName: name, icon, matchedBy, count: 1 });
+  }
+
+  const all = [...entries.values()];
+  return { matched: all.filter(m => m.icon), unmatched: all.filter(m => !m.icon) };
+}
+
+/** Markdown section for the user prompt */
+export function formatIconMapping(mapping: IconMapping): string {
+  const lines = [
+    'Render these icons with the Naos icon components below. Never inline SVG or use another icon library.',
+  ];
+  if (mapping.matched.length > 0) {
+    lines.push('', '| Figma icon | Naos icon |', '|---|---|');
+    for (const m of mapping.matched) lines.push(`| ${m.figmaName} | \`${m.icon}\` |`);
+  }
+  if (mapping.unmatched.length > 0) {
+    lines.push(
+      '',
+      `No Naos icon exists for: ${mapping.unmatched.map(m => `"${m.figmaName}"`).join(', ')}. ` +
+      'Leave a TODO comment where they go and report them as design system gaps.',
+    );
+  }
+  return lines.join('\n');
+}
+
+/** One design-system gap per icon without a Naos equivalent */
+export function iconGaps(mapping: IconMapping): string[] {
+  return mapping.unmatched.map(m => `No Naos icon for "${m.figmaName}" (node ${m.nodeId})`);
+}
+
+// ==============================================================================
+// Figma side
+// ==============================================================================
+
+/**
+ * Icon instances, outermost only: the vectors inside an icon instance are
+ * not icons of their own.
+ */
+function findIconInstances(doc: FigmaDocument): Array<{ node: FigmaNode; name: string; componentKey?: string }> {
+  const components = (doc.metadata?.components ?? {}) as Record<string, FigmaComponentMeta>;
+  const componentSets = (doc.metadata?.componentSets ?? {}) as Record<string, FigmaComponentMeta>;
+  const found: Array<{ node: FigmaNode; name: string; componentKey?: string }> = [];
+
+  const visit = (nodes: FigmaNode[]) => {
+    for (const node of nodes) {
+      if (node.visible === false) continue;
+
+      if (node.type === 'INSTANCE') {
+        const component = node.componentId ? components[node.componentId] : undefined;
+        const set = component?.componentSetId ? componentSets[component.componentSetId] : undefined;
+        // Variants are named "Size=16, Style=Filled" — the set has the icon's name
+        const candidates = [node.name, set?.name, component?.name].filter((n): n is string => !!n && !n.includes('='));
+        const name = candidates.find(isIconName);
+        if (name) {
+          found.push({ node, name, componentKey: component?.key });
+          continue;
+        }
+      }
+
+      if (node.children) visit(node.children);
+    }
+  };
+  visit(doc.nodes);
+
+  return found;
+}
+
+/** "Icon/Close", "Icons / Arrow", "icon-close", "ic_close" or "CloseIcon" */
+function isIconName(name: string): boolean {
+  const segments = splitSegments(name);
+  return segments.some(s => /^icons?$/i.test(s)) ||
+    /^(icons?|ic)[\s_-]/i.test(segments[0] ?? '') ||
+    /^[A-Z][A-Za-z0-9]*Icon$/.test(name);
+}
+
+/**
+ * Normalized names to look up, most specific first:
+ * "Icons/Navigation/Chevron Down/24" → ["navigationchevrondown", "chevrondown"]
+ */
+function nameCandidates(name: string): string[] {
+  const segments = splitSegments(name)
+    .map(s => normalize(s.replace(/^(icons?|ic)[\s_-]+/i, '').replace(/[\s_-]+icons?$/i, '')))
+    .filter(s => s && !NOISE_SEGMENT.test(s))
+    .map(s => s.replace(/^icon|icon$/, ''))
+    .filter(Boolean);
+
+  const candidates: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    candidates.push(segments.slice(i).join(''));
+  }
+  return candidates;
+}
+
+function splitSegments(name: string): string[] {
+  return name.split(/[/|]/).map(s => s.trim()).filter(Boolean);
+}
+
+// ==============================================================================
+// Naos side
+// ==============================================================================
+
+/** "ChevronDownIcon" / "IconChevronDown" / "chevron-down" → "chevrondown" */
+function iconKey(exportName: string): string {
+  return normalize(exportName).replace(/^icon|icon$/, '');
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function iconsFromJson(value: unknown): NaosIcon[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (typeof item === 'string') return [{ name: item }];
+      if (!item || typeof item !== 'object') return [];
+      const entry = item as Record<string, unknown>;
+      const name = entry.exportName ?? entry.component ?? entry.name;
+      const figmaKey = entry.figmaKey ?? entry.componentKey ?? entry.key;
+      if (typeof name !== 'string') return [];
+      return [typeof figmaKey === 'string' ? { name, figmaKey } : { name }];
+    });
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (record.icons) return iconsFromJson(record.icons);
+    // { ChevronDownIcon: { key: '...' } }
+    return Object.entries(record).map(([name, entry]) => {
+      const figmaKey = entry && typeof entry === 'object'
+        ? (entry as Record<string, unknown>).figmaKey ?? (entry as Record<string, unknown>).key
+        : undefined;
+      return typeof figmaKey === 'string' ? { name, figmaKey } : { name };
+    });
+  }
+
+  return [];
+}
+
+/**
+ * Names with an Icon prefix or suffix anywhere in the text, plus the first
+ * word of each list item ("- Close: the close icon")
+ */
+function iconsFromText(raw: string): NaosIcon[] {
+  const icons: NaosIcon[] = [];
+  for (const line of raw.split('\n')) {
+    if (/^\s*#/.test(line)) continue;
+    const item = line.match(/^\s*[-*•]\s+`?([A-Z][A-Za-z0-9]+)`?/);
+    if (item) icons.push({ name: item[1] });
+    for (const match of line.matchAll(/\b(Icon[A-Z][A-Za-z0-9]*|[A-Z][A-Za-z0-9]*Icon)\b/g)) {
+      icons.push({ name: match[1] });
+    }
+  }
+  return dedupe(icons);
+}
+
+function dedupe(icons: NaosIcon[]): NaosIcon[] {
+  const seen = new Set<string>();
+  return icons.filter(icon => !seen.has(icon.name) && !!seen.add(icon.name));
+}
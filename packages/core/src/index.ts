@@ -1,6 +1,48 @@
-export { DesignForgeAgent, runDesignForge } from './agent';
-export type { DesignForgeConfig, AgentProgress } from './agent';
-export { McpBridge } from './mcp-bridge';
-export type { McpServerConfig, McpStdioServer, McpHttpServer, McpToolDescriptor } from './mcp-bridge';
-export { parseCodeBlocks, writeCodeBlocks } from './file-writer';
+export { DesignForgeAgent, runDesignForge, AgentCancelledError, fetchNaosContext, DEFAULT_PREFETCH_SOURCES } from './agent';
+export type { DesignForgeConfig, DesignForgeResult, ChunkSummary, AgentProgress, ChunkProgress, PrefetchedContext, NaosContext, PrefetchSource, PrefetchSources, RunOptions, ValidationConfig } from './agent';
+export { runDesignForgeBatch, resolveBatchTargets, DEFAULT_BATCH_CONCURRENCY } from './batch';
+export type { BatchOptions, BatchTarget, BatchTargetEntry, BatchEvent, BatchTargetResult, BatchReport } from './batch';
+export { CheckpointStore, createRunId } from './checkpoint';
+export type { RunCheckpoint, CheckpointConfig } from './checkpoint';
+export { loadConfigFile, loadBatchManifest, validateConfig, resolveMcpServers, ConfigValidationError, CONFIG_SCHEMA, BATCH_MANIFEST_SCHEMA, CONFIG_FILE_NAME } from './config';
+export type { DesignForgeFileConfig, BatchFileConfig, McpServerFileConfig, ConfigIssue, ConfigSchema, LoadedConfig } from './config';
+export { McpBridge, McpBridgeError, DEFAULT_MCP_TIMEOUT_MS, DEFAULT_MCP_RETRIES } from './mcp-bridge';
+export type { McpServerConfig, McpStdioServer, McpHttpServer, McpToolDescriptor, McpCallOptions, McpBridgeOptions, McpServerLimits, McpServerToolOptions, McpBridgeErrorCode, McpResourceDescriptor, McpPromptDescriptor, McpImage, McpToolResult } from './mcp-bridge';
+export { createLlmProvider, AnthropicProvider, OpenAiCompatibleProvider, LlmProviderError, LLM_PROVIDERS, DEFAULT_ANTHROPIC_BASE_URL, DEFAULT_OPENAI_BASE_URL } from './llm-provider';
+export type { LlmProvider, LlmProviderName, LlmProviderOptions, LlmProviderErrorCode, LlmRequestOptions, LlmStreamHandlers } from './llm-provider';
+export { McpCache, DEFAULT_CACHE_DIR, DEFAULT_CACHE_TTLS } from './mcp-cache';
+export type { McpCacheOptions, McpCacheEntry, McpCacheEntryInfo } from './mcp-cache';
+export { checkMcpServers } from './mcp-diagnostics';
+export type { McpServerDiagnostic, McpSmokeResult, McpDiagnosticsOptions } from './mcp-diagnostics';
+export { parseCodeBlocks, writeCodeBlocks, CodeFenceStream } from './file-writer';
 export type { ParsedCodeBlock } from './file-writer';
+export { buildRepairPrompt, formatValidationIssue } from './validation';
+export type { ValidationIssue } from './validation';
+export { typeCheckFiles } from './type-checker';
+export type { TypeCheckOptions } from './type-checker';
+export { runGeneratedTests } from './test-runner';
+export type { TestRunOptions, TestRunReport, FileCoverage } from './test-runner';
+export { analyzeDesignParity, parityIssues } from './design-parity';
+export type { ParityReport, ComponentParity, UnmatchedNode, GeneratedSource } from './design-parity';
+export { checkCodeRules, fixCodeRules, applyTextEdits, BUILTIN_RULES, DEFAULT_ALLOWED_IMPORTS } from './code-rules';
+export type { CodeRule, CodeRulesOptions, RuleContext, RuleFinding, RuleSetting, TextEdit } from './code-rules';
+export { auditAccessibility, checkStaticAccessibility, accessibilityIssues } from './accessibility';
+export type { AccessibilityOptions, AccessibilityFinding, AccessibilityReport, WcagLevel } from './accessibility';
+export { parseNaosIcons, matchIcons, formatIconMapping, iconGaps } from './icon-matcher';
+export type { NaosIcon, IconMatch, IconMapping } from './icon-matcher';
+export { parseNaosTokens, resolveDesignTokens, formatTokenMapping, tokenGaps, findTokenForLiteral, DEFAULT_MAX_COLOR_DISTANCE } from './token-resolver';
+export type { NaosToken, TokenKind, TokenMatch, TokenMapping, StyleValueKind, TokenResolverOptions } from './token-resolver';
+export { parseNaosCatalog, checkCatalogUsage, catalogIssues, catalogGaps, selectNaosDocs } from './naos-catalog';
+export type { NaosCatalog, NaosCatalogComponent, CatalogViolation } from './naos-catalog';
+export { OUTPUT_TOOLS, WRITE_FILE_TOOL, FINISH_TOOL } from './output-tools';
+export type { FinishReport } from './output-tools';
+export { parseFigmaData, parseFigmaUrl, buildFigmaNodeUrl, resolveFigmaTarget, walkFigmaNodes, getComponentUnits, getComponentProperties } from './figma-data';
+export type { FigmaDocument, FigmaNode, FigmaComponentProperty } from './figma-data';
+export { reduceFigmaData, estimateTokens, DEFAULT_FIGMA_TOKEN_BUDGET } from './figma-reducer';
+export type { FigmaReduceOptions, FigmaChunk, ReducedFigma } from './figma-reducer';
+export { planPageChunks, toComponentName } from './page-chunks';
+export type { PageChunk, ChunkPassResult, ChunkedRunState } from './page-chunks';
+export { FigmaWatcher, fingerprintFigmaNodes, loadWatchState, saveWatchState } from './figma-watcher';
+export type { FigmaWatcherOptions, WatchEvent, WatchState, WatchNodeState, NodeFingerprint } from './figma-watcher';
+export { ImageBudget, DEFAULT_MAX_IMAGES, DEFAULT_MAX_IMAGE_BYTES } from './vision';
+export type { VisionConfig } from './vision';
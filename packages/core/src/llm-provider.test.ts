@@ -0,0 +1,195 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  AnthropicProvider,
+  LlmProviderError,
+  OpenAiCompatibleProvider,
+  createLlmProvider,
+  fromOpenAiResponse,
+  invalidToolArguments,
+  toOpenAiRequest,
+} from './llm-provider';
+
+describe('OpenAI-compatible provider', () => {
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: 'qwen2.5-coder',
+    max_tokens: 8000,
+    system: 'You generate React components.',
+    tools: [{ name: 'get_figma_data', description: 'Fetch a design', input_schema: { type: 'object' } }],
+    messages: [
+      { role: 'user', content: 'Build the card' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Fetching the design.' },
+          { type: 'tool_use', id: 'call_1', name: 'get_figma_data', input: { fileKey: 'ABC' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [{
+          type: 'tool_result',
+          tool_use_id: 'call_1',
+          content: [
+            { type: 'text', text: 'Frame: Card' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBOR' } },
+          ],
+        }],
+      },
+    ],
+  };
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+  const sse = (events: unknown[]) =>
+    new Response(events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n');
+
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should translate messages, tool calls, tool results and images', () => {
+    expect(toOpenAiRequest(params)).toEqual({
+      model: 'qwen2.5-coder',
+      max_tokens: 8000,
+      messages: [
+        { role: 'system', content: 'You generate React components.' },
+        { role: 'user', content: 'Build the card' },
+        {
+          role: 'assistant',
+          content: 'Fetching the design.',
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_figma_data', arguments: '{"fileKey":"ABC"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Frame: Card' },
+        { role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,iVBOR' } }] },
+      ],
+      tools: [{
+        type: 'function',
+        function: { name: 'get_figma_data', description: 'Fetch a design', parameters: { type: 'object' } },
+      }],
+    });
+  });
+
+  it('should turn tool calls in the response into tool_use blocks', () => {
+    const message = fromOpenAiResponse({
+      id: 'chatcmpl-1',
+      choices: [{
+        message: {
+          content: null,
+          tool_calls: [
+            { id: 'call_2', type: 'function', function: { name: 'write_file', arguments: '{"path":"Card.tsx"}' } },
+            { id: 'call_3', type: 'function', function: { name: 'finish', arguments: '{not json' } },
+          ],
+        },
+        finish_reason: 'tool_calls',
+      }],
+      usage: { prompt_tokens: 120, completion_tokens: 30 },
+    }, 'qwen2.5-coder');
+
+    expect(message).toMatchObject({
+      id: 'chatcmpl-1',
+      model: 'qwen2.5-coder',
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 120, output_tokens: 30 },
+      content: [
+        { type: 'tool_use', id: 'call_2', name: 'write_file', input: { path: 'Card.tsx' } },
+        { type: 'tool_use', id: 'call_3', name: 'finish', input: { __invalidArguments: '{not json' } },
+      ],
+    });
+    expect(invalidToolArguments((message.content[1] as Anthropic.Messages.ToolUseBlock).input)).toBe('{not json');
+    expect(invalidToolArguments((message.content[0] as Anthropic.Messages.ToolUseBlock).input)).toBeUndefined();
+  });
+
+  it('should post to chat/completions with the API key', async () => {
+    fetchMock.mockResolvedValue(json({
+      choices: [{ message: { content: 'WORKFLOW COMPLETE' }, finish_reason: 'length' }],
+    }));
+    const provider = new OpenAiCompatibleProvider('sk-local', 'http://localhost:11434/v1/');
+
+    const message = await provider.createMessage(params);
+
+    expect(message.content).toEqual([{ type: 'text', text: 'WORKFLOW COMPLETE' }]);
+    expect(message.stop_reason).toBe('max_tokens');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.authorization).toBe('Bearer sk-local');
+  });
+
+  it('should rebuild a streamed response from its deltas', async () => {
+    fetchMock.mockResolvedValue(sse([
+      { id: 'chatcmpl-2', choices: [{ delta: { content: 'Writing ' } }] },
+      { choices: [{ delta: { content: 'the card' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_4', function: { name: 'finish', arguments: '{"sum' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'mary":"done"}' } }] }, finish_reason: 'tool_calls' }] },
+      { choices: [], usage: { prompt_tokens: 50, completion_tokens: 12 } },
+    ]));
+    const onText = jest.fn();
+    const onContentBlock = jest.fn();
+
+    const message = await new OpenAiCompatibleProvider().streamMessage(params, { onText, onContentBlock });
+
+    expect(onText.mock.calls.map(([delta]) => delta)).toEqual(['Writing ', 'the card']);
+    expect(message).toMatchObject({
+      id: 'chatcmpl-2',
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 50, output_tokens: 12 },
+      content: [
+        { type: 'text', text: 'Writing the card' },
+        { type: 'tool_use', id: 'call_4', name: 'finish', input: { summary: 'done' } },
+      ],
+    });
+    expect(onContentBlock).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ stream: true });
+  });
+
+  it('should normalize HTTP and network errors', async () => {
+    const provider = new OpenAiCompatibleProvider();
+
+    fetchMock.mockResolvedValueOnce(json({ error: { message: "This model's maximum context length is 32768 tokens" } }, 400));
+    await expect(provider.createMessage(params)).rejects.toMatchObject({
+      code: 'context_length', provider: 'openai', status: 400, retryable: false,
+    });
+
+    fetchMock.mockResolvedValueOnce(new Response('Too Many Requests', { status: 429 }));
+    await expect(provider.createMessage(params)).rejects.toMatchObject({ code: 'rate_limit', retryable: true });
+
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed', { cause: new Error('connect ECONNREFUSED') }));
+    const error = await provider.createMessage(params).catch(e => e);
+    expect(error).toBeInstanceOf(LlmProviderError);
+    expect(error).toMatchObject({ code: 'connection', message: 'Connection error: connect ECONNREFUSED' });
+  });
+});
+
+describe('AnthropicProvider', () => {
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: 'claude-3-5-sonnet-latest',
+    max_tokens: 100,
+    messages: [{ role: 'user', content: 'Hi' }],
+  };
+
+  it('should normalize SDK errors and pass others through', async () => {
+    const provider = createLlmProvider({ apiKey: 'sk-ant-test' }) as AnthropicProvider;
+    const create = jest.spyOn(provider.client.messages, 'create');
+
+    create.mockRejectedValueOnce(Anthropic.APIError.generate(401, { error: { message: 'invalid x-api-key' } }, undefined, undefined));
+    await expect(provider.createMessage(params)).rejects.toMatchObject({ code: 'auth', provider: 'anthropic', status: 401 });
+
+    create.mockRejectedValueOnce(Anthropic.APIError.generate(529, { error: { message: 'Overloaded' } }, undefined, undefined));
+    await expect(provider.createMessage(params)).rejects.toMatchObject({ code: 'server', retryable: true });
+
+    create.mockRejectedValueOnce(new Anthropic.APIUserAbortError());
+    await expect(provider.createMessage(params)).rejects.toMatchObject({ code: 'cancelled' });
+
+    create.mockRejectedValueOnce(new Error('connection reset'));
+    await expect(provider.createMessage(params)).rejects.not.toBeInstanceOf(LlmProviderError);
+  });
+
+  it('should reject unknown provider names', () => {
+    expect(() => createLlmProvider({ provider: 'gemini' as any })).toThrow('Unknown LLM provider "gemini"');
+  });
+});
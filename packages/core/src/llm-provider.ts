@@ -0,0 +1,558 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+// ==============================================================================
+// LLM Providers
+// ==============================================================================
+// The agent talks to the model through an LlmProvider. Requests and
+// responses use the Anthropic Messages shapes throughout, so the agent
+// loop, checkpoints and tests stay provider-neutral; a provider for
+// another protocol translates at its edge.
+//
+// - 'anthropic': the Anthropic SDK — Anthropic's API, or any server with
+//   an Anthropic-compatible endpoint (LM Studio's, by default)
+// - 'openai': OpenAI chat completions over fetch — Ollama, vLLM,
+//   llama.cpp, LM Studio's /v1 endpoint or OpenAI itself
+//
+// Both report failures as LlmProviderError, so callers see the same codes
+// whichever backend answered.
+
+export type LlmProviderName = 'anthropic' | 'openai';
+
+export const LLM_PROVIDERS: readonly LlmProviderName[] = ['anthropic', 'openai'];
+
+export const DEFAULT_ANTHROPIC_BASE_URL = 'http://127.0.0.1:1234';
+export const DEFAULT_OPENAI_BASE_URL = 'http://127.0.0.1:1234/v1';
+
+export interface LlmRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface LlmStreamHandlers {
+  /** A text delta, as it arrives */
+  onText?: (delta: string) => void;
+  /** A content block, once it is complete */
+  onContentBlock?: (block: Anthropic.Messages.ContentBlock) => void;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options?: LlmRequestOptions,
+  ): Promise<Anthropic.Message>;
+  /** Same result as createMessage, reporting text and blocks on the way */
+  streamMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    handlers: LlmStreamHandlers,
+    options?: LlmRequestOptions,
+  ): Promise<Anthropic.Message>;
+}
+
+export interface LlmProviderOptions {
+  provider?: LlmProviderName;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export function createLlmProvider(options: LlmProviderOptions = {}): LlmProvider {
+  const provider = options.provider ?? 'anthropic';
+  switch (provider) {
+    case 'anthropic':
+      return new AnthropicProvider(options.apiKey, options.baseURL);
+    case 'openai':
+      return new OpenAiCompatibleProvider(options.apiKey, options.baseURL);
+    default:
+      throw new Error(`Unknown LLM provider "${provider}" (expected ${LLM_PROVIDERS.map(p => `"${p}"`).join(' or ')})`);
+  }
+}
+
+// ==============================================================================
+// Errors
+// ==============================================================================
+// Each provider maps its own failures — SDK error classes, HTTP statuses,
+// network errors — to one set of codes. `retryable` marks the ones worth
+// another attempt later. Errors that are not the backend's (bugs, file
+// system errors) pass through unchanged.
+
+export type LlmProviderErrorCode =
+  | 'auth'
+  | 'rate_limit'
+  | 'context_length'
+  | 'bad_request'
+  | 'server'
+  | 'connection'
+  | 'cancelled'
+  | 'unknown';
+
+const RETRYABLE_CODES: LlmProviderErrorCode[] = ['rate_limit', 'server', 'connection'];
+
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    readonly code: LlmProviderErrorCode,
+    readonly provider: LlmProviderName,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+// Servers word it differently: "prompt is too long", "maximum context
+// length", "context window", "exceeds the context"
+const CONTEXT_LENGTH_PATTERN = /prompt is too long|context (length|window)|exceeds? the context|too many tokens/i;
+
+function codeForStatus(status: number, message: string): LlmProviderErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (CONTEXT_LENGTH_PATTERN.test(message)) return 'context_length';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'bad_request';
+  return 'unknown';
+}
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
+
+// ==============================================================================
+// Anthropic
+// ==============================================================================
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+  readonly client: Anthropic;
+
+  constructor(apiKey?: string, baseURL?: string) {
+    this.client = new Anthropic({
+      apiKey,
+      baseURL: baseURL || DEFAULT_ANTHROPIC_BASE_URL,
+    });
+  }
+
+  async createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options: LlmRequestOptions = {},
+  ): Promise<Anthropic.Message> {
+    try {
+      return await this.client.messages.create(params, { signal: options.signal });
+    } catch (err) {
+      throw this.normalizeError(err);
+    }
+  }
+
+  async streamMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    handlers: LlmStreamHandlers,
+    options: LlmRequestOptions = {},
+  ): Promise<Anthropic.Message> {
+    try {
+      const stream = this.client.messages.stream(params, { signal: options.signal });
+      if (handlers.onText) stream.on('text', handlers.onText);
+      if (handlers.onContentBlock) stream.on('contentBlock', handlers.onContentBlock);
+      return await stream.finalMessage();
+    } catch (err) {
+      throw this.normalizeError(err);
+    }
+  }
+
+  normalizeError(err: unknown): unknown {
+    if (!(err instanceof Anthropic.APIError)) return err;
+
+    const message = err.message;
+    if (err instanceof Anthropic.APIUserAbortError) {
+      return new LlmProviderError(message, 'cancelled', this.name);
+    }
+    if (err instanceof Anthropic.APIConnectionError) {
+      return new LlmProviderError(message, 'connection', this.name);
+    }
+    // 529 "overloaded" is a server error, like any other 5xx
+    return new LlmProviderError(
+      message,
+      err.status === undefined ? 'unknown' : codeForStatus(err.status, message),
+      this.name,
+      err.status,
+    );
+  }
+}
+
+// ==============================================================================
+// OpenAI-compatible
+// ==============================================================================
+// Speaks POST <baseURL>/chat/completions. The translation both ways:
+//
+//   system prompt          → a leading `system` message
+//   tool_use blocks        → assistant `tool_calls` (arguments as JSON text)
+//   tool_result blocks     → `tool` messages, in call order
+//   image blocks           → `image_url` parts with data: URLs; images in
+//                            tool results follow in a user message, since
+//                            tool messages carry text only
+//   tools                  → `function` tools
+//   finish_reason          → stop_reason (tool_calls → tool_use,
+//                            length → max_tokens, otherwise end_turn)
+//
+// Streaming reads the server-sent events and rebuilds the same message
+// createMessage returns.
+
+interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAiContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+type OpenAiMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | OpenAiContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAiChatRequest {
+  model: string;
+  messages: OpenAiMessage[];
+  max_tokens: number;
+  temperature?: number;
+  stop?: string[];
+  tools?: Array<{ type: 'function'; function: { name: string; description?: string; parameters: unknown } }>;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+}
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAiChatResponse {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    message: { content?: string | null; tool_calls?: OpenAiToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAiUsage;
+}
+
+interface OpenAiChatChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAiUsage | null;
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  private baseURL: string;
+
+  // Local servers usually take any key, or none
+  constructor(private apiKey?: string, baseURL?: string) {
+    this.baseURL = (baseURL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options: LlmRequestOptions = {},
+  ): Promise<Anthropic.Message> {
+    const response = await this.post(toOpenAiRequest(params), options.signal);
+    try {
+      return fromOpenAiResponse((await response.json()) as OpenAiChatResponse, params.model);
+    } catch (err) {
+      throw this.normalizeError(err);
+    }
+  }
+
+  async streamMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    handlers: LlmStreamHandlers,
+    options: LlmRequestOptions = {},
+  ): Promise<Anthropic.Message> {
+    const response = await this.post(
+      { ...toOpenAiRequest(params), stream: true, stream_options: { include_usage: true } },
+      options.signal,
+    );
+
+    let text = '';
+    const toolCalls: OpenAiToolCall[] = [];
+    let finishReason: string | null = null;
+    let usage: OpenAiUsage | undefined;
+    let id: string | undefined;
+    let model: string | undefined;
+
+    try {
+      for await (const chunk of readServerSentEvents(response)) {
+        id ??= chunk.id;
+        model ??= chunk.model;
+        if (chunk.usage) usage = chunk.usage;
+
+        const choice = chunk.choices?.[0];
+        if (!choice) continue;
+        if (choice.delta?.content) {
+          text += choice.delta.content;
+          handlers.onText?.(choice.delta.content);
+        }
+        // Tool calls arrive in pieces, keyed by index: the first piece
+        // carries id and name, the rest append to the arguments
+        for (const part of choice.delta?.tool_calls ?? []) {
+          const call = (toolCalls[part.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } });
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.function.name += part.function.name;
+          if (part.function?.arguments) call.function.arguments += part.function.arguments;
+        }
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+      }
+    } catch (err) {
+      throw this.normalizeError(err);
+    }
+
+    const message = fromOpenAiResponse({
+      id,
+      model,
+      choices: [{ message: { content: text, tool_calls: toolCalls.filter(Boolean) }, finish_reason: finishReason }],
+      usage,
+    }, params.model);
+    message.content.forEach(block => handlers.onContentBlock?.(block));
+    return message;
+  }
+
+  private async post(body: OpenAiChatRequest, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (err) {
+      throw this.normalizeError(err);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      let message = detail || response.statusText;
+      try {
+        message = JSON.parse(detail).error?.message ?? message;
+      } catch {
+        // Not JSON — keep the body as it is
+      }
+      throw new LlmProviderError(
+        `${response.status} ${message}`,
+        codeForStatus(response.status, message),
+        this.name,
+        response.status,
+      );
+    }
+    return response;
+  }
+
+  normalizeError(err: unknown): unknown {
+    if (err instanceof LlmProviderError) return err;
+    if (isAbortError(err)) {
+      return new LlmProviderError('Request was aborted.', 'cancelled', this.name);
+    }
+    // fetch rejects with a TypeError when the server cannot be reached
+    if (err instanceof TypeError) {
+      const cause = (err as { cause?: unknown }).cause;
+      const detail = cause instanceof Error ? `: ${cause.message}` : '';
+      return new LlmProviderError(`Connection error${detail}`, 'connection', this.name);
+    }
+    if (err instanceof SyntaxError) {
+      return new LlmProviderError(`Invalid response from ${this.baseURL}: ${err.message}`, 'server', this.name);
+    }
+    return err;
+  }
+}
+
+/** Translate an Anthropic Messages request to a chat completions request */
+export function toOpenAiRequest(params: Anthropic.MessageCreateParamsNonStreaming): OpenAiChatRequest {
+  const messages: OpenAiMessage[] = [];
+
+  const system = typeof params.system === 'string'
+    ? params.system
+    : params.system?.map(block => block.text).join('\n');
+  if (system) messages.push({ role: 'system', content: system });
+
+  for (const message of params.messages) {
+    if (typeof message.content === 'string') {
+      messages.push({ role: message.role, content: message.content });
+    } else if (message.role === 'assistant') {
+      messages.push(toAssistantMessage(message.content));
+    } else {
+      messages.push(...toUserMessages(message.content));
+    }
+  }
+
+  const request: OpenAiChatRequest = {
+    model: params.model,
+    messages,
+    max_tokens: params.max_tokens,
+  };
+  if (params.temperature !== undefined) request.temperature = params.temperature;
+  if (params.stop_sequences?.length) request.stop = params.stop_sequences;
+  if (params.tools?.length) {
+    request.tools = params.tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+    }));
+  }
+  return request;
+}
+
+function toAssistantMessage(blocks: Exclude<Anthropic.MessageParam['content'], string>): OpenAiMessage {
+  const text: string[] = [];
+  const toolCalls: OpenAiToolCall[] = [];
+  for (const block of blocks) {
+    if (block.type === 'text') {
+      text.push(block.text);
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      });
+    }
+  }
+  return {
+    role: 'assistant',
+    content: text.length > 0 ? text.join('\n') : null,
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+  };
+}
+
+// Tool messages must directly follow the assistant message that made the
+// calls, so they go first; the user's text and images follow
+function toUserMessages(blocks: Exclude<Anthropic.MessageParam['content'], string>): OpenAiMessage[] {
+  const toolMessages: OpenAiMessage[] = [];
+  const parts: OpenAiContentPart[] = [];
+
+  for (const block of blocks) {
+    if (block.type === 'text') {
+      parts.push({ type: 'text', text: block.text });
+    } else if (block.type === 'image') {
+      parts.push(toImagePart(block));
+    } else if (block.type === 'tool_result') {
+      const content = typeof block.content === 'string' ? [{ type: 'text' as const, text: block.content }] : block.content ?? [];
+      const text = content.flatMap(c => (c.type === 'text' ? [c.text] : [])).join('\n');
+      toolMessages.push({
+        role: 'tool',
+        tool_call_id: block.tool_use_id,
+        content: block.is_error ? `Error: ${text}` : text,
+      });
+      parts.push(...content.flatMap(c => (c.type === 'image' ? [toImagePart(c)] : [])));
+    }
+  }
+
+  if (parts.length === 0) return toolMessages;
+  // Plain text stays a string, which every server accepts
+  const content = parts.every(p => p.type === 'text')
+    ? parts.map(p => (p as { text: string }).text).join('\n')
+    : parts;
+  return [...toolMessages, { role: 'user', content }];
+}
+
+function toImagePart(block: Anthropic.Messages.ImageBlockParam): OpenAiContentPart {
+  return {
+    type: 'image_url',
+    image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` },
+  };
+}
+
+/** Translate a chat completions response to an Anthropic Message */
+export function fromOpenAiResponse(response: OpenAiChatResponse, model: string): Anthropic.Message {
+  const choice = response.choices?.[0];
+  if (!choice) throw new SyntaxError('response has no choices');
+
+  const content: Anthropic.Messages.ContentBlock[] = [];
+  if (choice.message.content) {
+    content.push({ type: 'text', text: choice.message.content });
+  }
+  for (const call of choice.message.tool_calls ?? []) {
+    content.push({
+      type: 'tool_use',
+      id: call.id || `call_${content.length}`,
+      name: call.function.name,
+      input: parseToolArguments(call.function.arguments),
+    });
+  }
+
+  const hasToolCalls = content.some(block => block.type === 'tool_use');
+  return {
+    id: response.id ?? '',
+    type: 'message',
+    role: 'assistant',
+    model: response.model ?? model,
+    content,
+    stop_reason: hasToolCalls || choice.finish_reason === 'tool_calls'
+      ? 'tool_use'
+      : choice.finish_reason === 'length' ? 'max_tokens' : 'end_turn',
+    stop_sequence: null,
+    usage: {
+      input_tokens: response.usage?.prompt_tokens ?? 0,
+      output_tokens: response.usage?.completion_tokens ?? 0,
+    },
+  };
+}
+
+// Smaller models sometimes send arguments that are not valid JSON. The raw
+// text is kept so the agent can answer with a parse error the model can act
+// on, rather than running the tool without arguments.
+const INVALID_ARGUMENTS_KEY = '__invalidArguments';
+
+function parseToolArguments(args: string): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // Reported below
+  }
+  return { [INVALID_ARGUMENTS_KEY]: args };
+}
+
+/** The raw arguments of a tool call whose JSON could not be parsed */
+export function invalidToolArguments(input: unknown): string | undefined {
+  const raw = (input as Record<string, unknown> | null)?.[INVALID_ARGUMENTS_KEY];
+  return typeof raw === 'string' ? raw : undefined;
+}
+
+async function* readServerSentEvents(response: Response): AsyncGenerator<OpenAiChatChunk> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        if (data) yield JSON.parse(data) as OpenAiChatChunk;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,234 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { McpBridge, McpBridgeError } from './mcp-bridge';
+
+jest.mock('@modelcontextprotocol/sdk/client/index.js', () => ({ Client: jest.fn() }));
+jest.mock('@modelcontextprotocol/sdk/client/stdio.js');
+jest.mock('@modelcontextprotocol/sdk/client/streamableHttp.js', () => ({
+  ...jest.requireActual('@modelcontextprotocol/sdk/client/streamableHttp.js'),
+  StreamableHTTPClientTransport: jest.fn(),
+}));
+
+describe('McpBridge', () => {
+  let callTool: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    callTool = jest.fn();
+    (Client as unknown as jest.Mock).mockImplementation(() => ({
+      connect: jest.fn().mockResolvedValue(undefined),
+      getServerCapabilities: () => ({ tools: {} }),
+      listTools: jest.fn().mockResolvedValue({
+        tools: [{ name: 'get_figma_data', inputSchema: { type: 'object' } }],
+      }),
+      callTool,
+      close: jest.fn().mockResolvedValue(undefined),
+    }));
+  });
+
+  const connectBridge = async (retries = 2) => {
+    const bridge = new McpBridge([
+      { name: 'figma', transport: 'stdio', command: 'figma-mcp', timeoutMs: 5_000, retries },
+    ]);
+    await bridge.connect();
+    return bridge;
+  };
+  const text = (value: string) => ({ content: [{ type: 'text', text: value }] });
+  const timeout = () => new McpError(ErrorCode.RequestTimeout, 'Request timed out');
+
+  it('should retry a timed-out call and pass the server timeout to the SDK', async () => {
+    callTool.mockRejectedValueOnce(timeout()).mockResolvedValueOnce(text('nodes: []'));
+    const bridge = await connectBridge();
+
+    await expect(bridge.callTool('get_figma_data', { fileKey: 'ABC' })).resolves.toBe('nodes: []');
+    expect(callTool).toHaveBeenCalledTimes(2);
+    expect(callTool.mock.calls[0][2]).toMatchObject({ timeout: 5_000 });
+  });
+
+  it('should reject with a structured error once retries are used up', async () => {
+    callTool.mockRejectedValue(timeout());
+    const bridge = await connectBridge(0);
+
+    const error = await bridge.callTool('get_figma_data', {}).catch(e => e);
+    expect(error).toBeInstanceOf(McpBridgeError);
+    expect(error.toJSON()).toMatchObject({ error: true, code: 'timeout', server: 'figma', tool: 'get_figma_data', attempts: 1 });
+  });
+
+  it('should not retry errors reported by the tool', async () => {
+    callTool.mockResolvedValue({ ...text('File not found'), isError: true });
+    const bridge = await connectBridge();
+
+    await expect(bridge.callTool('get_figma_data', {})).rejects.toMatchObject({ code: 'tool_error', message: 'File not found' });
+    expect(callTool).toHaveBeenCalledTimes(1);
+  });
+
+  it('should respawn a server whose process exited and list its tools again', async () => {
+    callTool.mockResolvedValue(text('nodes: []'));
+    const bridge = await connectBridge();
+    const [first] = (Client as unknown as jest.Mock).mock.results.map(r => r.value);
+
+    first.onclose();
+    await bridge.callTool('get_figma_data', {});
+
+    expect(Client).toHaveBeenCalledTimes(2);
+    const second = (Client as unknown as jest.Mock).mock.results[1].value;
+    expect(second.listTools).toHaveBeenCalled();
+    expect(bridge.getTools().map(t => t.name)).toEqual(['get_figma_data']);
+  });
+
+  it('should close a server whose tool listing fails and report a connection error', async () => {
+    (Client as unknown as jest.Mock).mockImplementationOnce(() => ({
+      connect: jest.fn().mockResolvedValue(undefined),
+      getServerCapabilities: () => ({ tools: {} }),
+      listTools: jest.fn().mockRejectedValue(timeout()),
+      close: jest.fn().mockResolvedValue(undefined),
+    }));
+    const bridge = new McpBridge([{ name: 'figma', transport: 'stdio', command: 'figma-mcp' }]);
+
+    const error = await bridge.connect().catch(e => e);
+
+    expect(error).toBeInstanceOf(McpBridgeError);
+    expect(error).toMatchObject({ code: 'connection', retryable: true });
+    const [client] = (Client as unknown as jest.Mock).mock.results.map(r => r.value);
+    expect(client.close).toHaveBeenCalled();
+    expect(bridge.getTools()).toEqual([]);
+
+    // Nothing half-connected is left: the next call connects afresh
+    callTool.mockResolvedValue(text('nodes: []'));
+    await bridge.connect();
+    await expect(bridge.callTool('get_figma_data', {})).resolves.toBe('nodes: []');
+    expect(Client).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep image content and not cache results that have it', async () => {
+    const cache = { get: jest.fn().mockReturnValue(null), set: jest.fn() };
+    callTool.mockResolvedValue({ content: [{ type: 'text', text: 'Frame 1' }, { type: 'image', data: 'iVBOR', mimeType: 'image/png' }] });
+    const bridge = new McpBridge([{ name: 'figma', transport: 'stdio', command: 'figma-mcp' }], false, { cache: cache as any });
+    await bridge.connect();
+
+    await expect(bridge.callToolContent('get_figma_data', {})).resolves.toEqual({
+      text: 'Frame 1',
+      images: [{ data: 'iVBOR', mimeType: 'image/png' }],
+    });
+    expect(cache.set).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown tools without calling a server', async () => {
+    const bridge = await connectBridge();
+
+    await expect(bridge.callTool('get_naos_icons', {})).rejects.toMatchObject({ code: 'unknown_tool' });
+    expect(callTool).not.toHaveBeenCalled();
+  });
+
+  describe('tool names', () => {
+    const listing = (...names: string[]) => ({ tools: names.map(name => ({ name, inputSchema: { type: 'object' } })) });
+
+    beforeEach(() => {
+      const listings = [
+        listing('get_figma_data', 'search', 'delete_file'),
+        listing('get_naos_component_docs', 'search'),
+      ];
+      (Client as unknown as jest.Mock).mockImplementation(() => ({
+        connect: jest.fn().mockResolvedValue(undefined),
+        getServerCapabilities: () => ({ tools: {} }),
+        listTools: jest.fn().mockResolvedValue(listings.shift()),
+        callTool,
+        close: jest.fn().mockResolvedValue(undefined),
+      }));
+      callTool.mockResolvedValue(text('ok'));
+    });
+
+    it('should namespace colliding tools on every server that offers them', async () => {
+      const bridge = new McpBridge([
+        { name: 'figma', transport: 'stdio', command: 'figma-mcp' },
+        { name: 'naos', transport: 'http', url: 'https://naos.example/mcp' },
+      ]);
+      await bridge.connect();
+
+      expect(bridge.getTools().map(t => t.name)).toEqual([
+        'get_figma_data', 'figma__search', 'delete_file', 'get_naos_component_docs', 'naos__search',
+      ]);
+      await bridge.callTool('naos__search', { q: 'button' });
+      expect(callTool).toHaveBeenLastCalledWith({ name: 'search', arguments: { q: 'button' } }, undefined, expect.anything());
+      await expect(bridge.callTool('search', {})).rejects.toThrow('Ambiguous tool: "search"');
+    });
+
+    it('should apply allow/deny lists and per-server namespacing', async () => {
+      const bridge = new McpBridge([
+        { name: 'figma', transport: 'stdio', command: 'figma-mcp', namespace: true, tools: { deny: ['delete_*'] } },
+        { name: 'naos', transport: 'http', url: 'https://naos.example/mcp', tools: { allow: ['get_naos_*'] } },
+      ]);
+      await bridge.connect();
+
+      expect(bridge.getTools().map(t => t.name)).toEqual([
+        'figma__get_figma_data', 'figma__search', 'get_naos_component_docs',
+      ]);
+      // Pre-fetches still call tools by their server name
+      await expect(bridge.callTool('get_figma_data', {})).resolves.toBe('ok');
+      await expect(bridge.callTool('delete_file', {})).rejects.toMatchObject({ code: 'unknown_tool' });
+    });
+  });
+
+  describe('resources and prompts', () => {
+    let notify: (notification: unknown) => void;
+
+    beforeEach(() => {
+      (Client as unknown as jest.Mock).mockImplementation(() => ({
+        connect: jest.fn().mockResolvedValue(undefined),
+        getServerCapabilities: () => ({ tools: {}, resources: { subscribe: true }, prompts: {} }),
+        listTools: jest.fn().mockResolvedValue({ tools: [] }),
+        listResources: jest.fn().mockResolvedValue({
+          resources: [{ uri: 'naos://tokens.css', name: 'Tokens', mimeType: 'text/css' }],
+        }),
+        listPrompts: jest.fn().mockResolvedValue({
+          prompts: [{ name: 'component-guidelines', arguments: [{ name: 'component', required: true }] }],
+        }),
+        readResource: jest.fn().mockResolvedValue({
+          contents: [{ uri: 'naos://tokens.css', text: '--space-md: 16px;' }, { uri: 'naos://logo.png', blob: 'iVBOR' }],
+        }),
+        getPrompt: jest.fn(async ({ arguments: args }) => ({
+          messages: [{ role: 'user', content: { type: 'text', text: `Use Naos ${args.component}` } }],
+        })),
+        subscribeResource: jest.fn().mockResolvedValue({}),
+        setNotificationHandler: jest.fn((_schema, handler) => { notify = handler; }),
+        close: jest.fn().mockResolvedValue(undefined),
+      }));
+    });
+
+    const connectNaos = async () => {
+      const bridge = new McpBridge([{ name: 'naos', transport: 'http', url: 'https://naos.example/mcp' }]);
+      await bridge.connect();
+      return bridge;
+    };
+
+    it('should list and read resources and render prompts', async () => {
+      const bridge = await connectNaos();
+
+      expect(bridge.getResources()).toEqual([
+        { uri: 'naos://tokens.css', name: 'Tokens', mimeType: 'text/css', description: undefined, serverName: 'naos' },
+      ]);
+      await expect(bridge.readResource('naos://tokens.css')).resolves.toBe('--space-md: 16px;');
+      expect(bridge.getPrompts().map(p => p.name)).toEqual(['component-guidelines']);
+      await expect(bridge.getPrompt('component-guidelines', { component: 'Button' })).resolves.toBe('Use Naos Button');
+      await expect(bridge.getPrompt('missing')).rejects.toMatchObject({ code: 'unknown_prompt' });
+    });
+
+    it('should notify subscribers and subscribe again after a reconnect', async () => {
+      const bridge = await connectNaos();
+      const updates: string[] = [];
+      await bridge.subscribeResource('naos://tokens.css', uri => updates.push(uri));
+
+      notify({ method: 'notifications/resources/updated', params: { uri: 'naos://tokens.css' } });
+      expect(updates).toEqual(['naos://tokens.css']);
+
+      const [first] = (Client as unknown as jest.Mock).mock.results.map(r => r.value);
+      first.onclose();
+      await bridge.readResource('naos://tokens.css');
+
+      const second = (Client as unknown as jest.Mock).mock.results[1].value;
+      expect(second.subscribeResource).toHaveBeenCalledWith({ uri: 'naos://tokens.css' }, expect.anything());
+      notify({ method: 'notifications/resources/updated', params: { uri: 'naos://tokens.css' } });
+      expect(updates).toHaveLength(2);
+    });
+  });
+});
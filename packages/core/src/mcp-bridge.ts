@@ -1,6 +1,8 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { StreamableHTTPClientTransport, StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ErrorCode, McpError, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { McpCache } from './mcp-cache';
 
 // ==============================================================================
 // MCP Server Configuration
@@ -10,7 +12,28 @@ import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/
 //   - stdio: spawns a local process (e.g. `npx figma-developer-mcp --stdio`)
 //   - http:  connects to a remote HTTP endpoint (e.g. `https://naos-mcp.51b.dev/mcp`)
 
-export interface McpStdioServer {
+// Both transports take the same limits. A call that times out or loses its
+// connection is retried with exponential backoff; tool errors are not.
+export interface McpServerLimits {
+  /** Per-request timeout (default 60s) */
+  timeoutMs?: number;
+  /** Retries of a transient failure (default 2) */
+  retries?: number;
+}
+
+// Which of a server's tools the model sees, and under what name. Patterns
+// may use `*` wildcards; deny wins over allow. With `namespace`, tools are
+// exposed as `<server>__<tool>` — which also happens automatically to tools
+// whose names collide with another server's.
+export interface McpServerToolOptions {
+  namespace?: boolean;
+  tools?: {
+    allow?: string[];
+    deny?: string[];
+  };
+}
+
+export interface McpStdioServer extends McpServerLimits, McpServerToolOptions {
   name: string;
   transport: 'stdio';
   command: string;
@@ -18,7 +41,7 @@ export interface McpStdioServer {
   env?: Record<string, string>;
 }
 
-export interface McpHttpServer {
+export interface McpHttpServer extends McpServerLimits, McpServerToolOptions {
   name: string;
   transport: 'http';
   url: string;
@@ -27,6 +50,67 @@ export interface McpHttpServer {
 
 export type McpServerConfig = McpStdioServer | McpHttpServer;
 
+export interface McpCallOptions {
+  /** Aborts the in-flight request; the call then rejects with a `cancelled` McpBridgeError */
+  signal?: AbortSignal;
+}
+
+export interface McpBridgeOptions {
+  /** Serve and store tool responses on disk (see McpCache) */
+  cache?: McpCache | null;
+}
+
+export const DEFAULT_MCP_TIMEOUT_MS = 60_000;
+export const DEFAULT_MCP_RETRIES = 2;
+/** First retry delay; doubled for every further attempt */
+const RETRY_BASE_DELAY_MS = 500;
+const NAMESPACE_SEPARATOR = '__';
+
+// ==============================================================================
+// Errors
+// ==============================================================================
+// Every failed bridge request rejects with an McpBridgeError. `code` says what
+// went wrong and `retryable` whether the bridge considered it transient;
+// toJSON() is the shape handed to the model as a tool result.
+
+export type McpBridgeErrorCode =
+  | 'unknown_tool'
+  | 'unknown_resource'
+  | 'unknown_prompt'
+  | 'tool_error'
+  | 'timeout'
+  | 'connection'
+  | 'protocol'
+  | 'cancelled';
+
+export class McpBridgeError extends Error {
+  constructor(
+    message: string,
+    public readonly code: McpBridgeErrorCode,
+    public readonly details: {
+      server?: string;
+      tool?: string;
+      resource?: string;
+      prompt?: string;
+      retryable?: boolean;
+      /** Attempts made, including retries */
+      attempts?: number;
+    } = {},
+  ) {
+    super(message);
+    this.name = 'McpBridgeError';
+  }
+
+  get retryable(): boolean {
+    return this.details.retryable ?? false;
+  }
+
+  toJSON() {
+    const { server, tool, resource, prompt, attempts } = this.details;
+    return { error: true, code: this.code, message: this.message, server, tool, resource, prompt, attempts };
+  }
+}
+
 // ==============================================================================
 // Tool Descriptor
 // ==============================================================================
@@ -34,7 +118,10 @@ export type McpServerConfig = McpStdioServer | McpHttpServer;
 // owns it, so callers can understand the tool landscape.
 
 export interface McpToolDescriptor {
+  /** Name the model sees and calls — namespaced when configured or colliding */
   name: string;
+  /** Name on the server */
+  toolName: string;
   description?: string;
   inputSchema: {
     type: 'object';
@@ -44,138 +131,227 @@ export interface McpToolDescriptor {
   serverName: string;
 }
 
+/** Base64 image content from a tool result */
+export interface McpImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface McpToolResult {
+  text: string;
+  images: McpImage[];
+}
+
+// ==============================================================================
+// Resources and Prompts
+// ==============================================================================
+// Design-system servers often publish docs and token files as resources
+// and guideline templates as prompts. Both are listed on connect when the
+// server declares the capability; allow/deny lists only apply to tools.
+
+export interface McpResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  serverName: string;
+}
+
+export interface McpPromptDescriptor {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+  serverName: string;
+}
+
+interface ServerListing {
+  tools: McpToolDescriptor[];
+  resources: McpResourceDescriptor[];
+  prompts: McpPromptDescriptor[];
+  /** Server supports resources/subscribe */
+  subscribable: boolean;
+}
+
 // ==============================================================================
 // McpBridge
 // ==============================================================================
-// Connects to one or more MCP servers, discovers their tools, and routes
-// tool calls to the correct server. This replaces the mock simulateToolResult()
-// layer in the agent loop.
+// Connects to one or more MCP servers, discovers their tools, resources and
+// prompts, and routes requests to the correct server. This replaces the mock
+// simulateToolResult() layer in the agent loop.
 //
-// Lifecycle: construct → connect() → callTool() / getTools() → disconnect()
+// Lifecycle: construct → connect() → callTool() / readResource() / getPrompt() → disconnect()
 
 export class McpBridge {
   private clients: Map<string, Client> = new Map();
-  private toolMap: Map<string, string> = new Map();
+  // Per-server listings, kept so one server can be re-listed on its own
+  private listings: Map<string, ServerListing> = new Map();
   private tools: McpToolDescriptor[] = [];
+  private reconnects: Map<string, Promise<Client>> = new Map();
+  // Resource URI → update listeners; re-subscribed after a reconnect
+  private subscriptions: Map<string, { server: string; listeners: Set<(uri: string) => void> }> = new Map();
 
   constructor(
     private servers: McpServerConfig[],
     private verbose: boolean = false,
+    private options: McpBridgeOptions = {},
   ) {}
 
-  async connect(): Promise<void> {
+  async connect(options: McpCallOptions = {}): Promise<void> {
     for (const server of this.servers) {
-      const client = new Client(
-        { name: 'designforge', version: '0.1.0' },
-      );
+      options.signal?.throwIfAborted();
+      await this.connectServer(server, options.signal);
+    }
+  }
 
-      let transport: StdioClientTransport | StreamableHTTPClientTransport;
+  /**
+   * All tools discovered across every connected server, minus the ones
+   * their server's allow/deny lists hide.
+   */
+  getTools(): McpToolDescriptor[] {
+    return this.tools;
+  }
 
-      if (server.transport === 'stdio') {
-        transport = new StdioClientTransport({
-          command: server.command,
-          args: server.args,
-          env: server.env,
-        });
-      } else {
-        const opts = server.headers
-          ? { requestInit: { headers: server.headers } }
-          : undefined;
-        transport = new StreamableHTTPClientTransport(
-          new URL(server.url),
-          opts,
-        );
-      }
+  /**
+   * Route a tool call to the server that owns it, or answer it from the
+   * cache. `name` is the exposed name, or the server's own name when only
+   * one server has that tool. Returns the MCP response's text content.
+   * Transient failures are retried and a server whose connection dropped
+   * is reconnected first; anything else rejects with an McpBridgeError.
+   */
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    options: McpCallOptions = {},
+  ): Promise<string> {
+    return (await this.callToolContent(name, args, options)).text;
+  }
 
-      this.log(`Connecting to MCP server: ${server.name}...`);
+  /**
+   * callTool() with the result's image content kept. Only results without
+   * images are cached, so a cache hit never loses any.
+   */
+  async callToolContent(
+    name: string,
+    args: Record<string, unknown>,
+    options: McpCallOptions = {},
+  ): Promise<McpToolResult> {
+    const tool = this.resolveTool(name);
+    if (!tool) {
+      const candidates = this.tools.filter(t => t.toolName === name).map(t => t.name);
+      throw new McpBridgeError(
+        candidates.length > 1
+          ? `Ambiguous tool: "${name}". Use one of: ${candidates.join(', ')}`
+          : `Unknown tool: "${name}". Available: ${this.tools.map(t => t.name).join(', ')}`,
+        'unknown_tool',
+        { tool: name },
+      );
+    }
+    const server = this.servers.find(s => s.name === tool.serverName)!;
+    name = tool.toolName;
 
-      try {
-        await client.connect(transport);
-      } catch (err) {
-        const message = err instanceof Error ? err.message : String(err);
-        this.log(`  Failed to connect to ${server.name}: ${message}`);
-        throw new Error(`MCP server ${server.name} connection failed: ${message}`);
-      }
+    const cached = this.options.cache?.get(server.name, name, args);
+    if (cached != null) {
+      this.log(`  ${name} on ${server.name}: cached`);
+      return { text: cached, images: [] };
+    }
 
-      this.clients.set(server.name, client);
-
-      // Discover tools exposed by this server
-      const { tools } = await client.listTools();
-      for (const tool of tools) {
-        this.toolMap.set(tool.name, server.name);
-        this.tools.push({
-          name: tool.name,
-          description: tool.description,
-          inputSchema: tool.inputSchema as McpToolDescriptor['inputSchema'],
-          serverName: server.name,
-        });
-      }
+    this.log(`  Calling ${name} on ${server.name}...`);
+    const result = await this.withRetries(server, { tool: name }, options.signal, client =>
+      this.callOnce(client, server, name, args, options.signal),
+    );
+    if (result.images.length === 0) this.options.cache?.set(server.name, name, args, result.text);
+    return result;
+  }
 
-      this.log(
-        `  Connected. ${tools.length} tools: ${tools.map(t => t.name).join(', ')}`,
-      );
-    }
+  /** Resources discovered across every connected server */
+  getResources(): McpResourceDescriptor[] {
+    return this.servers.flatMap(server => this.listings.get(server.name)?.resources ?? []);
+  }
+
+  /** Prompts discovered across every connected server */
+  getPrompts(): McpPromptDescriptor[] {
+    return this.servers.flatMap(server => this.listings.get(server.name)?.prompts ?? []);
   }
 
   /**
-   * All tools discovered across every connected server.
+   * Read a resource as text. The URI may also match a resource template
+   * not in the listing when exactly one server offers resources. Binary
+   * contents are skipped.
    */
-  getTools(): McpToolDescriptor[] {
-    return this.tools;
+  async readResource(uri: string, options: McpCallOptions = {}): Promise<string> {
+    const server = this.resourceServer(uri);
+    const timeout = server.timeoutMs ?? DEFAULT_MCP_TIMEOUT_MS;
+
+    this.log(`  Reading ${uri} from ${server.name}...`);
+    return this.withRetries(server, { resource: uri }, options.signal, async client => {
+      const { contents } = await client.readResource({ uri }, { signal: options.signal, timeout });
+      return contents
+        .flatMap(c => 'text' in c ? [c.text] : [])
+        .join('\n');
+    });
   }
 
   /**
-   * Route a tool call to the server that owns it.
-   * Returns the text content from the MCP response as a string.
-   * On error, returns a JSON string with `{ error: true, message }`.
+   * Render a prompt with its arguments. Returns the text of its messages,
+   * one paragraph per message.
    */
-  async callTool(name: string, args: Record<string, unknown>): Promise<string> {
-    const serverName = this.toolMap.get(name);
-    if (!serverName) {
-      return JSON.stringify({
-        error: true,
-        message: `Unknown tool: "${name}". Available: ${[...this.toolMap.keys()].join(', ')}`,
-      });
+  async getPrompt(name: string, args: Record<string, string> = {}, options: McpCallOptions = {}): Promise<string> {
+    const prompt = this.getPrompts().find(p => p.name === name);
+    if (!prompt) {
+      throw new McpBridgeError(
+        `Unknown prompt: "${name}". Available: ${this.getPrompts().map(p => p.name).join(', ')}`,
+        'unknown_prompt',
+        { prompt: name },
+      );
     }
+    const server = this.servers.find(s => s.name === prompt.serverName)!;
+    const timeout = server.timeoutMs ?? DEFAULT_MCP_TIMEOUT_MS;
 
-    const client = this.clients.get(serverName);
-    if (!client) {
-      return JSON.stringify({
-        error: true,
-        message: `Server "${serverName}" is not connected`,
+    this.log(`  Getting prompt ${name} from ${server.name}...`);
+    return this.withRetries(server, { prompt: name }, options.signal, async client => {
+      const { messages } = await client.getPrompt({ name, arguments: args }, { signal: options.signal, timeout });
+      return messages
+        .flatMap(m => m.content.type === 'text' ? [m.content.text] : [])
+        .join('\n\n');
+    });
+  }
+
+  /**
+   * Call `listener` whenever the server reports the resource changed.
+   * Returns a function that removes the listener (and unsubscribes once
+   * the resource has none left).
+   */
+  async subscribeResource(
+    uri: string,
+    listener: (uri: string) => void,
+    options: McpCallOptions = {},
+  ): Promise<() => Promise<void>> {
+    const server = this.resourceServer(uri);
+    if (!this.listings.get(server.name)?.subscribable) {
+      throw new McpBridgeError(`MCP server ${server.name} does not support resource subscriptions`, 'protocol', {
+        server: server.name,
+        resource: uri,
       });
     }
 
-    this.log(`  Calling ${name} on ${serverName}...`);
-
-    try {
-      const result = await client.callTool({ name, arguments: args });
-
-      // The SDK's CallToolResult uses an index signature that makes
-      // .content resolve to `unknown` under strict mode. We cast
-      // to the concrete union so the type guard works correctly.
-      type ContentBlock = { type: string; text?: string };
-      const content = result.content as ContentBlock[];
-
-      if (result.isError) {
-        const errorText = content
-          .filter((c): c is ContentBlock & { type: 'text'; text: string } => c.type === 'text')
-          .map(c => c.text)
-          .join('\n');
-        return JSON.stringify({ error: true, message: errorText });
-      }
-
-      // Extract text content from the MCP response
-      const textParts = content
-        .filter((c): c is ContentBlock & { type: 'text'; text: string } => c.type === 'text')
-        .map(c => c.text);
-
-      return textParts.join('\n');
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      this.log(`  Tool call failed: ${message}`);
-      return JSON.stringify({ error: true, message });
+    let subscription = this.subscriptions.get(uri);
+    if (!subscription) {
+      await this.withRetries(server, { resource: uri }, options.signal, client =>
+        client.subscribeResource({ uri }, { signal: options.signal }),
+      );
+      subscription = { server: server.name, listeners: new Set() };
+      this.subscriptions.set(uri, subscription);
     }
+    subscription.listeners.add(listener);
+
+    return async () => {
+      subscription!.listeners.delete(listener);
+      if (subscription!.listeners.size > 0 || this.subscriptions.get(uri) !== subscription) return;
+      this.subscriptions.delete(uri);
+      await this.clients.get(server.name)?.unsubscribeResource({ uri }).catch(() => {
+        // The server forgets subscriptions when the connection goes anyway
+      });
+    };
   }
 
   /**
@@ -195,13 +371,343 @@ export class McpBridge {
     await Promise.all(disconnectPromises);
 
     this.clients.clear();
-    this.toolMap.clear();
+    this.reconnects.clear();
+    this.listings.clear();
+    this.subscriptions.clear();
     this.tools = [];
   }
 
+  /**
+   * Run a request against a server's client, reconnecting a dropped
+   * connection first. Transient failures are retried with exponential
+   * backoff; the final failure rejects with an McpBridgeError.
+   */
+  private async withRetries<T>(
+    server: McpServerConfig,
+    target: { tool: string } | { resource: string } | { prompt: string },
+    signal: AbortSignal | undefined,
+    request: (client: Client) => Promise<T>,
+  ): Promise<T> {
+    const retries = server.retries ?? DEFAULT_MCP_RETRIES;
+    const label = Object.values(target)[0];
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const client = this.clients.get(server.name) ?? await this.reconnect(server, signal);
+        return await request(client);
+      } catch (err) {
+        const error = toBridgeError(err, { server: server.name, ...target }, attempt, signal);
+        // A broken connection is replaced before the next attempt
+        if (error.code === 'connection') this.dropClient(server.name);
+
+        if (!error.retryable || attempt > retries) {
+          this.log(`  ${label} failed: ${error.message}`);
+          throw error;
+        }
+        const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        this.log(`  ${label} on ${server.name} failed (${error.message}), retrying in ${delayMs}ms`);
+        await sleep(delayMs, signal).catch(() => {
+          throw new McpBridgeError('Request cancelled', 'cancelled', { server: server.name, ...target, attempts: attempt });
+        });
+      }
+    }
+  }
+
+  private async callOnce(
+    client: Client,
+    server: McpServerConfig,
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<McpToolResult> {
+    const result = await client.callTool(
+      { name, arguments: args },
+      undefined,
+      { signal, timeout: server.timeoutMs ?? DEFAULT_MCP_TIMEOUT_MS },
+    );
+
+    // The SDK's CallToolResult uses an index signature that makes
+    // .content resolve to `unknown` under strict mode. We cast
+    // to the concrete union so the type guard works correctly.
+    type ContentBlock = { type: string; text?: string; data?: string; mimeType?: string };
+    const content = result.content as ContentBlock[];
+
+    // Extract text content from the MCP response
+    const text = content
+      .filter((c): c is ContentBlock & { type: 'text'; text: string } => c.type === 'text')
+      .map(c => c.text)
+      .join('\n');
+
+    if (result.isError) {
+      throw new McpBridgeError(text, 'tool_error', { server: server.name, tool: name });
+    }
+
+    const images = content
+      .filter((c): c is ContentBlock & { type: 'image'; data: string; mimeType: string } => c.type === 'image')
+      .map(c => ({ data: c.data, mimeType: c.mimeType }));
+    return { text, images };
+  }
+
+  /**
+   * Spawn or open a server's connection and (re-)list its tools, resources
+   * and prompts. When the connection closes on its own — a stdio child
+   * exiting, say — the client is dropped so the next call reconnects.
+   */
+  private async connectServer(server: McpServerConfig, signal?: AbortSignal): Promise<Client> {
+    const client = new Client(
+      { name: 'designforge', version: '0.1.0' },
+    );
+
+    let transport: StdioClientTransport | StreamableHTTPClientTransport;
+
+    if (server.transport === 'stdio') {
+      transport = new StdioClientTransport({
+        command: server.command,
+        args: server.args,
+        env: server.env,
+      });
+    } else {
+      const opts = server.headers
+        ? { requestInit: { headers: server.headers } }
+        : undefined;
+      transport = new StreamableHTTPClientTransport(
+        new URL(server.url),
+        opts,
+      );
+    }
+
+    this.log(`Connecting to MCP server: ${server.name}...`);
+
+    const timeout = server.timeoutMs ?? DEFAULT_MCP_TIMEOUT_MS;
+    try {
+      await client.connect(transport, { signal, timeout });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.log(`  Failed to connect to ${server.name}: ${message}`);
+      throw new McpBridgeError(`MCP server ${server.name} connection failed: ${message}`, 'connection', {
+        server: server.name,
+        retryable: !signal?.aborted,
+      });
+    }
+
+    // Discover what this server exposes. The client is only registered once
+    // that succeeded, so a half-connected server is never left behind.
+    const capabilities = client.getServerCapabilities() ?? {};
+    let tools: Awaited<ReturnType<Client['listTools']>>['tools'];
+    let resources: Awaited<ReturnType<Client['listResources']>>['resources'];
+    let prompts: Awaited<ReturnType<Client['listPrompts']>>['prompts'];
+    try {
+      ({ tools } = await client.listTools(undefined, { signal, timeout }));
+      ({ resources } = capabilities.resources
+        ? await client.listResources(undefined, { signal, timeout })
+        : { resources: [] });
+      ({ prompts } = capabilities.prompts
+        ? await client.listPrompts(undefined, { signal, timeout })
+        : { prompts: [] });
+
+      if (capabilities.resources?.subscribe) {
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+          const { uri } = notification.params;
+          this.log(`Resource updated: ${uri}`);
+          for (const listener of this.subscriptions.get(uri)?.listeners ?? []) listener(uri);
+        });
+        // A new connection starts without the old one's subscriptions
+        for (const [uri, subscription] of this.subscriptions) {
+          if (subscription.server === server.name) await client.subscribeResource({ uri }, { signal, timeout });
+        }
+      }
+    } catch (err) {
+      // Closing also ends a stdio server's child process
+      await client.close().catch(() => undefined);
+      const message = err instanceof Error ? err.message : String(err);
+      this.log(`  Failed to list ${server.name}'s tools: ${message}`);
+      throw new McpBridgeError(`MCP server ${server.name} discovery failed: ${message}`, 'connection', {
+        server: server.name,
+        retryable: !signal?.aborted,
+      });
+    }
+
+    const visible = tools.filter(tool => isToolVisible(server, tool.name));
+    client.onclose = () => {
+      if (this.clients.get(server.name) !== client) return;
+      this.clients.delete(server.name);
+      this.log(`MCP server ${server.name} closed the connection; reconnecting on the next call`);
+    };
+    this.clients.set(server.name, client);
+
+    // Replaces any earlier listing
+    this.listings.set(server.name, {
+      tools: visible.map(tool => ({
+        name: tool.name,
+        toolName: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema as McpToolDescriptor['inputSchema'],
+        serverName: server.name,
+      })),
+      resources: resources.map(r => ({
+        uri: r.uri,
+        name: r.name,
+        description: r.description,
+        mimeType: r.mimeType,
+        serverName: server.name,
+      })),
+      prompts: prompts.map(p => ({
+        name: p.name,
+        description: p.description,
+        arguments: p.arguments,
+        serverName: server.name,
+      })),
+      subscribable: capabilities.resources?.subscribe === true,
+    });
+    this.indexTools();
+
+    const hidden = tools.length - visible.length;
+    this.log(
+      `  Connected. ${visible.length} tools: ${visible.map(t => t.name).join(', ')}` +
+      (hidden > 0 ? ` (${hidden} hidden by allow/deny)` : '') +
+      (resources.length > 0 ? `; ${resources.length} resources` : '') +
+      (prompts.length > 0 ? `; ${prompts.length} prompts` : ''),
+    );
+    return client;
+  }
+
+  // Rebuild the exposed tool list from every server's listing, in server
+  // order. A name offered by two servers is namespaced on both rather than
+  // letting one shadow the other.
+  private indexTools(): void {
+    const listed = this.servers.flatMap(server =>
+      (this.listings.get(server.name)?.tools ?? []).map(tool => ({ tool, namespaced: server.namespace === true })),
+    );
+
+    const owners = new Map<string, Set<string>>();
+    for (const { tool, namespaced } of listed) {
+      if (namespaced) continue;
+      owners.set(tool.toolName, (owners.get(tool.toolName) ?? new Set()).add(tool.serverName));
+    }
+
+    this.tools = listed.map(({ tool, namespaced }) => {
+      const collides = (owners.get(tool.toolName)?.size ?? 0) > 1;
+      return namespaced || collides
+        ? { ...tool, name: `${tool.serverName}${NAMESPACE_SEPARATOR}${tool.toolName}` }
+        : tool;
+    });
+
+    for (const [toolName, servers] of owners) {
+      if (servers.size > 1) {
+        this.log(`  Tool "${toolName}" is offered by ${[...servers].join(', ')}; exposing it namespaced on each`);
+      }
+    }
+  }
+
+  private resolveTool(name: string): McpToolDescriptor | undefined {
+    const exposed = this.tools.find(t => t.name === name);
+    if (exposed) return exposed;
+    const byToolName = this.tools.filter(t => t.toolName === name);
+    return byToolName.length === 1 ? byToolName[0] : undefined;
+  }
+
+  private resourceServer(uri: string): McpServerConfig {
+    const listed = this.getResources().find(r => r.uri === uri);
+    const candidates = listed
+      ? [listed.serverName]
+      : this.servers.filter(s => (this.listings.get(s.name)?.resources.length ?? 0) > 0).map(s => s.name);
+    if (candidates.length !== 1) {
+      throw new McpBridgeError(`Unknown resource: "${uri}"`, 'unknown_resource', { resource: uri });
+    }
+    return this.servers.find(s => s.name === candidates[0])!;
+  }
+
+  // Concurrent calls to a dropped server share one reconnect
+  private reconnect(server: McpServerConfig, signal?: AbortSignal): Promise<Client> {
+    let pending = this.reconnects.get(server.name);
+    if (!pending) {
+      pending = this.connectServer(server, signal).finally(() => this.reconnects.delete(server.name));
+      this.reconnects.set(server.name, pending);
+    }
+    return pending;
+  }
+
+  private dropClient(serverName: string): void {
+    const client = this.clients.get(serverName);
+    if (!client) return;
+    this.clients.delete(serverName);
+    client.close().catch(() => {
+      // Already gone
+    });
+  }
+
   private log(message: string): void {
     if (this.verbose) {
       console.log(`[McpBridge] ${message}`);
     }
   }
 }
+
+// Sort a failure into an McpBridgeError. Timeouts, dropped connections,
+// network errors and HTTP 429/5xx are transient; everything else is not.
+function toBridgeError(
+  err: unknown,
+  target: McpBridgeError['details'],
+  attempts: number,
+  signal?: AbortSignal,
+): McpBridgeError {
+  const details = { ...target, attempts };
+  if (err instanceof McpBridgeError) {
+    return new McpBridgeError(err.message, err.code, { ...err.details, ...details });
+  }
+
+  const message = err instanceof Error ? err.message : String(err);
+  if (signal?.aborted) {
+    return new McpBridgeError('Request cancelled', 'cancelled', details);
+  }
+  if (err instanceof McpError && err.code === ErrorCode.RequestTimeout) {
+    const label = target.tool ?? target.resource ?? target.prompt;
+    return new McpBridgeError(`${label} timed out: ${message}`, 'timeout', { ...details, retryable: true });
+  }
+  if (err instanceof McpError && err.code === ErrorCode.ConnectionClosed) {
+    return new McpBridgeError(message, 'connection', { ...details, retryable: true });
+  }
+  if (err instanceof StreamableHTTPError) {
+    const status = err.code ?? 0;
+    return new McpBridgeError(message, 'connection', { ...details, retryable: status === 429 || status >= 500 });
+  }
+  if (isNetworkError(err)) {
+    return new McpBridgeError(message, 'connection', { ...details, retryable: true });
+  }
+  return new McpBridgeError(message, 'protocol', details);
+}
+
+function isToolVisible(server: McpServerConfig, toolName: string): boolean {
+  const matches = (patterns: string[]) => patterns.some(pattern =>
+    new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`).test(toolName),
+  );
+  const { allow, deny } = server.tools ?? {};
+  if (deny && matches(deny)) return false;
+  return !allow || matches(allow);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_SOCKET']);
+
+// fetch() wraps socket errors in a TypeError whose cause carries the code
+function isNetworkError(err: unknown): boolean {
+  const code = (err as { code?: unknown })?.code ?? (err as { cause?: { code?: unknown } })?.cause?.code;
+  return typeof code === 'string' && NETWORK_ERROR_CODES.has(code);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { McpCache } from './mcp-cache';
+
+describe('McpCache', () => {
+  let dir: string;
+  const now = new Date('2025-01-22T10:00:00Z');
+  const later = (seconds: number) => new Date(now.getTime() + seconds * 1000);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'designforge-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should serve responses by server, tool and args until their TTL runs out', () => {
+    const cache = new McpCache({ dir, ttl: { get_figma_data: 60 } });
+    cache.set('figma', 'get_figma_data', { fileKey: 'ABC', nodeId: '1-2' }, 'nodes: []', now);
+
+    // Argument order does not change the key
+    expect(cache.get('figma', 'get_figma_data', { nodeId: '1-2', fileKey: 'ABC' }, later(30))).toBe('nodes: []');
+    expect(cache.get('figma', 'get_figma_data', { fileKey: 'ABC', nodeId: '9-9' }, later(30))).toBeNull();
+    expect(cache.get('other', 'get_figma_data', { fileKey: 'ABC', nodeId: '1-2' }, later(30))).toBeNull();
+    expect(cache.get('figma', 'get_figma_data', { fileKey: 'ABC', nodeId: '1-2' }, later(60))).toBeNull();
+  });
+
+  it('should only cache tools with a TTL', () => {
+    const cache = new McpCache({ dir, ttl: { get_naos_icons: 0 } });
+    cache.set('naos', 'get_naos_icons', {}, 'CloseIcon', now);
+    cache.set('naos', 'create_ticket', {}, 'ok', now);
+    cache.set('naos', 'get_naos_component_docs', {}, '# Button', now);
+
+    expect(cache.list(now).map(e => e.tool)).toEqual(['get_naos_component_docs']);
+    expect(cache.ttlFor('get_naos_design_tokens')).toBe(24 * 60 * 60);
+  });
+
+  it('should skip reads but keep writing in refresh mode', () => {
+    new McpCache({ dir }).set('naos', 'get_naos_component_docs', {}, 'old', now);
+    const refreshing = new McpCache({ dir, refresh: true });
+
+    expect(refreshing.get('naos', 'get_naos_component_docs', {}, now)).toBeNull();
+    refreshing.set('naos', 'get_naos_component_docs', {}, 'new', now);
+    expect(new McpCache({ dir }).get('naos', 'get_naos_component_docs', {}, now)).toBe('new');
+  });
+
+  it('should list and clear entries by tool or expiry', () => {
+    const cache = new McpCache({ dir });
+    cache.set('figma', 'get_figma_data', { fileKey: 'ABC' }, 'nodes: []', now);
+    cache.set('naos', 'get_naos_icons', {}, 'CloseIcon', later(1));
+
+    const listed = cache.list(later(11 * 60));
+    expect(listed.map(e => [e.tool, e.size, e.expired])).toEqual([
+      ['get_naos_icons', 9, false],
+      ['get_figma_data', 9, true],
+    ]);
+    expect(listed[1].args).toEqual({ fileKey: 'ABC' });
+
+    expect(cache.clear({ expired: true }, later(11 * 60))).toBe(1);
+    expect(cache.clear({ tool: 'get_figma_data' })).toBe(0);
+    expect(cache.clear()).toBe(1);
+    expect(cache.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { stableStringify } from './figma-data';
+
+// ==============================================================================
+// MCP Response Cache
+// ==============================================================================
+// On-disk cache for McpBridge.callTool. An entry is addressed by the hash
+// of server, tool and arguments and written as one JSON file per entry:
+// <dir>/<hash>.json
+//
+// Only tools with a TTL are cached — by default the read-only Figma and
+// Naos fetches. Error responses are never cached. In refresh mode entries
+// are not read but still rewritten, so a refreshed run leaves a warm cache.
+
+export interface McpCacheOptions {
+  dir: string;
+  /** TTL in seconds per tool; merged over DEFAULT_CACHE_TTLS, 0 disables a tool */
+  ttl?: Record<string, number>;
+  /** Ignore existing entries and fetch again, still writing the responses */
+  refresh?: boolean;
+}
+
+export interface McpCacheEntry {
+  version: 1;
+  key: string;
+  server: string;
+  tool: string;
+  args: Record<string, unknown>;
+  createdAt: string;
+  expiresAt: string;
+  response: string;
+}
+
+/** An entry without its response, as listed by `designforge cache ls` */
+export type McpCacheEntryInfo = Omit<McpCacheEntry, 'response'> & { size: number; expired: boolean };
+
+export const DEFAULT_CACHE_DIR = '.designforge/cache';
+
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  // Designs change during a working session; long enough to share across
+  // a batch or a quick rerun, short enough to pick up edits
+  get_figma_data: 10 * 60,
+  get_naos_component_docs: 24 * 60 * 60,
+  get_naos_design_tokens: 24 * 60 * 60,
+  get_naos_icons: 24 * 60 * 60,
+};
+
+export class McpCache {
+  private ttl: Record<string, number>;
+
+  constructor(private options: McpCacheOptions) {
+    this.ttl = { ...DEFAULT_CACHE_TTLS, ...options.ttl };
+  }
+
+  static keyFor(server: string, tool: string, args: Record<string, unknown>): string {
+    return crypto.createHash('sha256').update(stableStringify({ server, tool, args })).digest('hex');
+  }
+
+  /** Cached response, or null when missing, expired or in refresh mode */
+  get(server: string, tool: string, args: Record<string, unknown>, now: Date = new Date()): string | null {
+    if (this.options.refresh || !this.ttlFor(tool)) return null;
+
+    const entry = this.read(McpCache.keyFor(server, tool, args));
+    if (!entry || new Date(entry.expiresAt) <= now) return null;
+    return entry.response;
+  }
+
+  /**
+   * Store a response if the tool is cached. Written atomically, so
+   * concurrent runs sharing the directory never read a partial entry.
+   */
+  set(server: string, tool: string, args: Record<string, unknown>, response: string, now: Date = new Date()): void {
+    const ttl = this.ttlFor(tool);
+    if (!ttl) return;
+
+    const key = McpCache.keyFor(server, tool, args);
+    const entry: McpCacheEntry = {
+      version: 1,
+      key,
+      server,
+      tool,
+      args,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttl * 1000).toISOString(),
+      response,
+    };
+
+    const target = this.pathFor(key);
+    const temp = `${target}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(this.options.dir, { recursive: true });
+      fs.writeFileSync(temp, JSON.stringify(entry), 'utf-8');
+      fs.renameSync(temp, target);
+    } catch {
+      // A cache that cannot be written only costs the next run a fetch
+      fs.rmSync(temp, { force: true });
+    }
+  }
+
+  ttlFor(tool: string): number {
+    return this.ttl[tool] ?? 0;
+  }
+
+  /** All entries, newest first */
+  list(now: Date = new Date()): McpCacheEntryInfo[] {
+    return this.keys()
+      .flatMap(key => {
+        const entry = this.read(key);
+        if (!entry) return [];
+        const { response, ...info } = entry;
+        return [{ ...info, size: Buffer.byteLength(response), expired: new Date(entry.expiresAt) <= now }];
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Delete entries — all of them, one tool's, or only expired ones.
+   * Unreadable entries always go. Returns how many were removed.
+   */
+  clear(filter: { tool?: string; expired?: boolean } = {}, now: Date = new Date()): number {
+    let removed = 0;
+    for (const key of this.keys()) {
+      const entry = this.read(key);
+      if (entry && filter.tool && entry.tool !== filter.tool) continue;
+      if (entry && filter.expired && new Date(entry.expiresAt) > now) continue;
+      fs.rmSync(this.pathFor(key), { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.options.dir, `${key}.json`);
+  }
+
+  private keys(): string[] {
+    if (!fs.existsSync(this.options.dir)) return [];
+    return fs.readdirSync(this.options.dir)
+      .filter(f => /^[0-9a-f]{64}\.json$/.test(f))
+      .map(f => path.basename(f, '.json'));
+  }
+
+  // Unreadable or foreign-version entries count as missing
+  private read(key: string): McpCacheEntry | null {
+    try {
+      const entry = JSON.parse(fs.readFileSync(this.pathFor(key), 'utf-8')) as McpCacheEntry;
+      return entry.version === 1 ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { McpBridge } from './mcp-bridge';
+import { checkMcpServers } from './mcp-diagnostics';
+
+jest.mock('./mcp-bridge');
+
+describe('checkMcpServers', () => {
+  const naosTools = [
+    {
+      name: 'get_naos_component_docs',
+      description: 'Component docs',
+      inputSchema: { type: 'object' as const, properties: { component: { type: 'string' } } },
+      serverName: 'naos',
+    },
+  ];
+
+  function mockBridge(overrides: Partial<Record<'connect' | 'callTool', jest.Mock>> = {}, tools: object[] = naosTools) {
+    (McpBridge as jest.Mock).mockImplementationOnce(() => ({
+      connect: overrides.connect ?? jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      getTools: () => tools,
+      callTool: overrides.callTool ?? jest.fn().mockResolvedValue('# Button\nProps: variant'),
+    }));
+  }
+
+  it('should report latency and tools for a healthy server', async () => {
+    mockBridge();
+
+    const [result] = await checkMcpServers([
+      { name: 'naos', transport: 'http', url: 'https://naos.example/mcp' },
+    ]);
+
+    expect(result.ok).toBe(true);
+    expect(result.connectLatencyMs).toBeGreaterThanOrEqual(0);
+    expect(result.tools.map(t => t.name)).toEqual(['get_naos_component_docs']);
+    expect(result.smoke).toBeUndefined();
+  });
+
+  it('should run the smoke call on the server that exposes the tool', async () => {
+    mockBridge();
+
+    const [result] = await checkMcpServers(
+      [{ name: 'naos', transport: 'http', url: 'https://naos.example/mcp' }],
+      { smokeTool: 'get_naos_component_docs' },
+    );
+
+    expect(result.smoke).toMatchObject({ tool: 'get_naos_component_docs', ok: true, preview: '# Button\nProps: variant' });
+  });
+
+  it('should find a namespaced smoke tool by its server-side name', async () => {
+    const callTool = jest.fn().mockResolvedValue('{"nodes":[]}');
+    mockBridge({ callTool }, [
+      { name: 'figma__get_figma_data', toolName: 'get_figma_data', inputSchema: { type: 'object' }, serverName: 'figma' },
+    ]);
+
+    const [result] = await checkMcpServers(
+      [{ name: 'figma', transport: 'stdio', command: 'figma-mcp', namespace: true }],
+      { smokeTool: 'get_figma_data' },
+    );
+
+    expect(callTool).toHaveBeenCalledWith('figma__get_figma_data', {});
+    expect(result.smoke).toMatchObject({ tool: 'figma__get_figma_data', ok: true });
+  });
+
+  it('should fail the server when the smoke call fails', async () => {
+    mockBridge({
+      callTool: jest.fn().mockRejectedValue(new Error('Upstream 502')),
+    });
+
+    const [result] = await checkMcpServers(
+      [{ name: 'naos', transport: 'http', url: 'https://naos.example/mcp' }],
+      { smokeTool: 'get_naos_component_docs' },
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.smoke).toMatchObject({ ok: false, preview: 'Upstream 502' });
+  });
+
+  it('should keep checking other servers after a connection failure', async () => {
+    mockBridge({ connect: jest.fn().mockRejectedValue(new Error('MCP server figma connection failed: ENOENT')) });
+    mockBridge();
+
+    const results = await checkMcpServers([
+      { name: 'figma', transport: 'stdio', command: 'missing-binary' },
+      { name: 'naos', transport: 'http', url: 'https://naos.example/mcp' },
+    ]);
+
+    expect(results.map(r => r.ok)).toEqual([false, true]);
+    expect(results[0].error).toContain('ENOENT');
+  });
+});
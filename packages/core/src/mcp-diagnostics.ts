@@ -0,0 +1,110 @@
+import { McpBridge, type McpServerConfig, type McpToolDescriptor } from './mcp-bridge';
+
+// ==============================================================================
+// MCP Connectivity Diagnostics
+// ==============================================================================
+// Connects to each configured server in isolation (one McpBridge per
+// server) so a failing server cannot hide the state of the others, then
+// reports connect latency, discovered tools and an optional smoke call.
+// Used by `designforge debug --check-mcp` as a pipeline preflight.
+
+export interface McpSmokeResult {
+  tool: string;
+  ok: boolean;
+  latencyMs: number;
+  /** First characters of the tool output, or the error message */
+  preview: string;
+}
+
+export interface McpServerDiagnostic {
+  server: string;
+  transport: McpServerConfig['transport'];
+  ok: boolean;
+  /** Not checked, e.g. a variable its config references is unset */
+  skipped?: boolean;
+  connectLatencyMs?: number;
+  tools: McpToolDescriptor[];
+  smoke?: McpSmokeResult;
+  error?: string;
+}
+
+export interface McpDiagnosticsOptions {
+  /** Tool to call on whichever server exposes it, e.g. `get_naos_component_docs` */
+  smokeTool?: string;
+  smokeArgs?: Record<string, unknown>;
+  verbose?: boolean;
+}
+
+const SMOKE_PREVIEW_CHARS = 200;
+
+export async function checkMcpServers(
+  servers: McpServerConfig[],
+  options: McpDiagnosticsOptions = {},
+): Promise<McpServerDiagnostic[]> {
+  const results: McpServerDiagnostic[] = [];
+  for (const server of servers) {
+    results.push(await checkMcpServer(server, options));
+  }
+  return results;
+}
+
+async function checkMcpServer(
+  server: McpServerConfig,
+  options: McpDiagnosticsOptions,
+): Promise<McpServerDiagnostic> {
+  const diagnostic: McpServerDiagnostic = {
+    server: server.name,
+    transport: server.transport,
+    ok: false,
+    tools: [],
+  };
+
+  const bridge = new McpBridge([server], options.verbose);
+
+  try {
+    const started = Date.now();
+    await bridge.connect();
+    diagnostic.connectLatencyMs = Date.now() - started;
+    diagnostic.tools = bridge.getTools();
+    diagnostic.ok = true;
+
+    // Matched by the server's own name too, so it also applies to namespaced tools
+    const smokeTool = options.smokeTool &&
+      diagnostic.tools.find(t => t.name === options.smokeTool || t.toolName === options.smokeTool);
+    if (smokeTool) {
+      diagnostic.smoke = await smokeCall(bridge, smokeTool.name, options.smokeArgs ?? {});
+      diagnostic.ok = diagnostic.smoke.ok;
+    }
+  } catch (err) {
+    diagnostic.ok = false;
+    diagnostic.error = err instanceof Error ? err.message : String(err);
+  } finally {
+    await bridge.disconnect();
+  }
+
+  return diagnostic;
+}
+
+async function smokeCall(
+  bridge: McpBridge,
+  tool: string,
+  args: Record<string, unknown>,
+): Promise<McpSmokeResult> {
+  const started = Date.now();
+  let output: string;
+  let ok = true;
+  try {
+    output = await bridge.callTool(tool, args);
+  } catch (err) {
+    // McpBridge rejects with an McpBridgeError once retries are used up
+    output = err instanceof Error ? err.message : String(err);
+    ok = false;
+  }
+
+  return {
+    tool,
+    ok,
+    latencyMs: Date.now() - started,
+    preview: output.slice(0, SMOKE_PREVIEW_CHARS),
+  };
+}
@@ -0,0 +1,149 @@
+import { catalogGaps, catalogIssues, checkCatalogUsage, parseNaosCatalog, selectNaosDocs, type NaosCatalog } from './naos-catalog';
+
+describe('parseNaosCatalog', () => {
+  it('should read components and props from markdown docs', () => {
+    const catalog = parseNaosCatalog([
+      '# Button',
+      'Props: variant, size, `disabled`',
+      '',
+      '## Usage',
+      '```tsx',
+      "<Button variant='primary' />",
+      '```',
+      '',
+      '# Input',
+      '| Prop | Type |',
+      '|------|------|',
+      '| `label` | string |',
+      '| placeholder? | string |',
+      '',
+      '# Toggle',
+      '```ts',
+      'interface ToggleProps {',
+      '  checked: boolean;',
+      '  onChange?: (checked: boolean) => void;',
+      '}',
+      '```',
+      '',
+      '# Tooltip',
+      'Shows a hint on hover.',
+    ].join('\n'));
+
+    expect(catalog?.components).toEqual({
+      Button: { name: 'Button', props: ['variant', 'size', 'disabled'] },
+      Input: { name: 'Input', props: ['label', 'placeholder'] },
+      Toggle: { name: 'Toggle', props: ['checked', 'onChange'] },
+      Tooltip: { name: 'Tooltip', props: null },
+    });
+  });
+
+  it('should read components from JSON docs', () => {
+    const catalog = parseNaosCatalog(JSON.stringify({
+      components: [
+        { name: 'Button', props: [{ name: 'variant' }, { name: 'size' }] },
+        { name: 'Badge', props: { label: { type: 'string' } } },
+        'Divider',
+      ],
+    }));
+
+    expect(catalog?.components).toEqual({
+      Button: { name: 'Button', props: ['variant', 'size'] },
+      Badge: { name: 'Badge', props: ['label'] },
+      Divider: { name: 'Divider', props: null },
+    });
+  });
+
+  it('should return null when no component is recognized', () => {
+    expect(parseNaosCatalog('No components available.')).toBeNull();
+    expect(parseNaosCatalog('[]')).toBeNull();
+  });
+});
+
+describe('checkCatalogUsage', () => {
+  const catalog: NaosCatalog = {
+    components: {
+      Input: { name: 'Input', props: ['label', 'placeholder', 'onChange'] },
+      Tooltip: { name: 'Tooltip', props: null },
+    },
+  };
+
+  const source = {
+    file: '/out/Form.tsx',
+    content: [
+      "import { InputText, Input as NaosInput, Tooltip, useTheme, type InputProps } from '@dtsl/react';",
+      '',
+      'export const Form = () => (',
+      '  <Tooltip anything="goes">',
+      '    <NaosInput label="Name" placeHolder="Jane" data-testid="name" />',
+      '  </Tooltip>',
+      ');',
+    ].join('\n'),
+  };
+
+  it('should report unknown components and props with suggestions', () => {
+    const violations = checkCatalogUsage(catalog, [source]);
+
+    expect(violations).toEqual([
+      { kind: 'unknown-component', file: '/out/Form.tsx', line: 1, column: 10, component: 'InputText', suggestion: 'Input' },
+      {
+        kind: 'unknown-prop',
+        file: '/out/Form.tsx',
+        line: 5,
+        column: 29,
+        component: 'Input',
+        prop: 'placeHolder',
+        suggestion: 'placeholder',
+      },
+    ]);
+  });
+
+  it('should turn violations into repair issues and design-system gaps', () => {
+    const violations = checkCatalogUsage(catalog, [source, source]);
+
+    expect(catalogIssues(violations)[0]).toMatchObject({
+      source: 'naos-catalog',
+      severity: 'error',
+      code: 'unknown-component',
+      message: 'InputText is not a @dtsl/react component. Did you mean Input?',
+    });
+    expect(catalogGaps(violations)).toEqual([
+      'InputText is not in the Naos component catalog',
+      'Input has no "placeHolder" prop in the Naos component catalog',
+    ]);
+  });
+});
+
+describe('selectNaosDocs', () => {
+  it('should keep the preamble and the sections of the wanted components', () => {
+    const docs = [
+      '# Naos',
+      'Import everything from @dtsl/react.',
+      '## Button',
+      'Props: variant, size',
+      '### Examples',
+      '`<Button variant="primary" />`',
+      '## Modal',
+      'Props: open, onClose',
+      '## Tag',
+      'Props: label',
+    ].join('\n');
+
+    expect(selectNaosDocs(docs, ['Button', 'Tag'])).toBe([
+      '# Naos',
+      'Import everything from @dtsl/react.',
+      '## Button',
+      'Props: variant, size',
+      '### Examples',
+      '`<Button variant="primary" />`',
+      '## Tag',
+      'Props: label',
+    ].join('\n'));
+    expect(selectNaosDocs(docs, ['Stepper'])).toBeNull();
+  });
+
+  it('should keep the wanted entries of JSON docs', () => {
+    const docs = JSON.stringify({ version: 2, components: [{ name: 'Button', props: ['size'] }, { name: 'Modal' }] });
+
+    expect(JSON.parse(selectNaosDocs(docs, ['Button'])!)).toEqual({ version: 2, components: [{ name: 'Button', props: ['size'] }] });
+  });
+});
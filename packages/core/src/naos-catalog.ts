@@ -0,0 +1,407 @@
+import ts from 'typescript';
+import {
+  DESIGN_SYSTEM_PACKAGE,
+  collectDesignSystemImports,
+  resolveDesignSystemTag,
+  type GeneratedSource,
+} from './design-parity';
+import type { ValidationIssue } from './validation';
+
+// ==============================================================================
+// Naos Component Catalog
+// ==============================================================================
+// An index of the @dtsl/react components and their props, built from the
+// `get_naos_component_docs` response the pre-fetch already has. Generated
+// imports and JSX props are checked against it, so a hallucinated
+// component (`InputText`) or prop is caught before it reaches the user.
+//
+// The docs tool's format is not fixed, so parsing is best-effort: JSON
+// (an array or map of components) or markdown (one heading per component,
+// props from tables, `Props:` lines, backticked bullets or interface
+// members). When a component's props can't be found, only its name is
+// checked.
+//
+// The catalog is plain JSON so it can live in run checkpoints.
+
+export interface NaosCatalogComponent {
+  name: string;
+  /** Supported props; null when the docs do not list them */
+  props: string[] | null;
+}
+
+export interface NaosCatalog {
+  components: Record<string, NaosCatalogComponent>;
+}
+
+export interface CatalogViolation {
+  kind: 'unknown-component' | 'unknown-prop';
+  file: string;
+  line: number;
+  column: number;
+  component: string;
+  prop?: string;
+  /** Closest catalog name, when one is similar enough */
+  suggestion?: string;
+}
+
+// Props every React element accepts, whether or not the docs list them
+const UNIVERSAL_PROPS = new Set(['key', 'ref', 'children']);
+const UNIVERSAL_PROP_PREFIXES = ['data-', 'aria-'];
+
+// Markdown headings that name a docs section rather than a component
+const SECTION_HEADINGS = new Set([
+  'props', 'properties', 'api', 'usage', 'example', 'examples', 'import', 'installation',
+  'variants', 'accessibility', 'notes', 'overview', 'components', 'description', 'events',
+]);
+
+const IDENTIFIER = /^[A-Za-z_$][\w$-]*$/;
+const HEADING = /^(#{1,6})\s+`?([A-Za-z][\w.]*)`?(?:\s+[Cc]omponent)?\s*$/;
+
+/**
+ * Build a catalog from the raw `get_naos_component_docs` response.
+ * Returns null when no component could be recognized.
+ */
+export function parseNaosCatalog(raw: string): NaosCatalog | null {
+  let components: NaosCatalogComponent[];
+  try {
+    components = componentsFromJson(JSON.parse(raw));
+  } catch {
+    components = componentsFromMarkdown(raw);
+  }
+
+  if (components.length === 0) return null;
+
+  const catalog: NaosCatalog = { components: {} };
+  for (const component of components) {
+    const existing = catalog.components[component.name];
+    // The same component documented twice: keep every prop seen
+    catalog.components[component.name] = existing?.props && component.props
+      ? { name: component.name, props: [...new Set([...existing.props, ...component.props])] }
+      : { name: component.name, props: component.props ?? existing?.props ?? null };
+  }
+  return catalog;
+}
+
+/**
+ * The part of the raw docs response that documents `components`: their
+ * entries in a JSON response, or their sections (plus any text before
+ * the first component) in markdown. Returns null when none of them can
+ * be found, so the caller can fall back to the full docs.
+ */
+export function selectNaosDocs(raw: string, components: string[]): string | null {
+  const wanted = new Set(components);
+  if (wanted.size === 0) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return selectMarkdownSections(raw, wanted);
+  }
+  const selected = selectJsonEntries(parsed, wanted);
+  return selected ? JSON.stringify(selected, null, 2) : null;
+}
+
+/**
+ * Every @dtsl/react import of a component the catalog doesn't have, and
+ * every prop a rendered catalog component doesn't support.
+ */
+export function checkCatalogUsage(catalog: NaosCatalog, sources: GeneratedSource[]): CatalogViolation[] {
+  const violations: CatalogViolation[] = [];
+  const names = Object.keys(catalog.components);
+
+  for (const source of sources) {
+    const sourceFile = ts.createSourceFile(source.file, source.content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+    const position = (node: ts.Node) => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      return { file: source.file, line: line + 1, column: character + 1 };
+    };
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+      if (statement.moduleSpecifier.text !== DESIGN_SYSTEM_PACKAGE) continue;
+      if (statement.importClause?.isTypeOnly) continue;
+
+      const bindings = statement.importClause?.namedBindings;
+      if (!bindings || !ts.isNamedImports(bindings)) continue;
+
+      for (const element of bindings.elements) {
+        const exported = (element.propertyName ?? element.name).text;
+        // Hooks, helpers and types (`ButtonProps`) are not components
+        if (element.isTypeOnly || !/^[A-Z]/.test(exported) || exported.endsWith('Props')) continue;
+        if (catalog.components[exported]) continue;
+
+        violations.push({
+          kind: 'unknown-component',
+          ...position(element),
+          component: exported,
+          suggestion: closestName(exported, names),
+        });
+      }
+    }
+
+    const imports = collectDesignSystemImports(sourceFile);
+    const visit = (node: ts.Node): void => {
+      if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        const component = resolveDesignSystemTag(node.tagName, imports);
+        const props = component ? catalog.components[component]?.props : null;
+
+        if (component && props) {
+          for (const attribute of node.attributes.properties) {
+            if (!ts.isJsxAttribute(attribute)) continue;
+            const prop = attribute.name.getText(sourceFile);
+            if (props.includes(prop) || isUniversalProp(prop)) continue;
+
+            violations.push({
+              kind: 'unknown-prop',
+              ...position(attribute),
+              component,
+              prop,
+              suggestion: closestName(prop, props),
+            });
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  return violations;
+}
+
+/** Violations as validation issues, so they go back to the model for repair */
+export function catalogIssues(violations: CatalogViolation[]): ValidationIssue[] {
+  return violations.map(v => ({
+    source: 'naos-catalog',
+    severity: 'error',
+    message: describeViolation(v),
+    file: v.file,
+    line: v.line,
+    column: v.column,
+    code: v.kind,
+  }));
+}
+
+/** One design-system gap per unknown component or component prop */
+export function catalogGaps(violations: CatalogViolation[]): string[] {
+  const gaps = violations.map(v => v.kind === 'unknown-component'
+    ? `${v.component} is not in the Naos component catalog`
+    : `${v.component} has no "${v.prop}" prop in the Naos component catalog`);
+  return [...new Set(gaps)];
+}
+
+function describeViolation(v: CatalogViolation): string {
+  const hint = v.suggestion ? ` Did you mean ${v.kind === 'unknown-prop' ? `"${v.suggestion}"` : v.suggestion}?` : '';
+  return v.kind === 'unknown-component'
+    ? `${v.component} is not a ${DESIGN_SYSTEM_PACKAGE} component.${hint}`
+    : `<${v.component}> has no "${v.prop}" prop.${hint}`;
+}
+
+function isUniversalProp(prop: string): boolean {
+  return UNIVERSAL_PROPS.has(prop) || UNIVERSAL_PROP_PREFIXES.some(prefix => prop.startsWith(prefix));
+}
+
+// ==============================================================================
+// Parsing
+// ==============================================================================
+
+function componentsFromJson(value: unknown): NaosCatalogComponent[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (typeof item === 'string') return [{ name: item, props: null }];
+      if (!item || typeof item !== 'object') return [];
+      const entry = item as Record<string, unknown>;
+      const name = entry.name ?? entry.component ?? entry.displayName;
+      return typeof name === 'string' ? [{ name, props: propNames(entry.props ?? entry.properties) }] : [];
+    });
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    // { components: [...] } or { components: { Button: {...} } }
+    if (record.components) return componentsFromJson(record.components);
+    // { Button: { props: [...] } }
+    return Object.entries(record)
+      .filter(([name]) => /^[A-Z]/.test(name))
+      .map(([name, entry]) => ({
+        name,
+        props: entry && typeof entry === 'object'
+          ? propNames((entry as Record<string, unknown>).props ?? (entry as Record<string, unknown>).properties)
+          : null,
+      }));
+  }
+
+  return [];
+}
+
+/** Same shapes as componentsFromJson, keeping only the wanted entries */
+function selectJsonEntries(value: unknown, wanted: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    const entries = value.filter(item => {
+      const entry = item as Record<string, unknown> | string | null;
+      const name = typeof entry === 'string' ? entry : entry?.name ?? entry?.component ?? entry?.displayName;
+      return typeof name === 'string' && wanted.has(name);
+    });
+    return entries.length > 0 ? entries : null;
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (record.components) {
+      const components = selectJsonEntries(record.components, wanted);
+      return components ? { ...record, components } : null;
+    }
+    const entries = Object.entries(record).filter(([name]) => wanted.has(name));
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+  }
+
+  return null;
+}
+
+function selectMarkdownSections(raw: string, wanted: Set<string>): string | null {
+  const lines = raw.split('\n');
+  const headings = markdownHeadings(lines);
+
+  // Components are documented at the level their headings share; anything
+  // above that level ("# Naos") is document structure and stays
+  const levels = [...headings.values()].filter(h => wanted.has(h.name)).map(h => h.level);
+  if (levels.length === 0) return null;
+  const level = Math.min(...levels);
+
+  const kept: string[] = [];
+  let keeping = true;
+  lines.forEach((line, i) => {
+    const heading = headings.get(i);
+    if (heading && heading.level < level) keeping = true;
+    else if (heading?.level === level) keeping = wanted.has(heading.name);
+    if (keeping) kept.push(line);
+  });
+
+  return kept.join('\n').trim();
+}
+
+/** Headings outside code blocks, by line index */
+function markdownHeadings(lines: string[]): Map<number, { level: number; name: string }> {
+  const headings = new Map<number, { level: number; name: string }>();
+  let inCode = false;
+  lines.forEach((line, i) => {
+    if (/^\s*```/.test(line)) inCode = !inCode;
+    const heading = !inCode && line.match(/^(#{1,6})\s+`?([^`]+?)`?\s*$/);
+    if (heading) headings.set(i, { level: heading[1].length, name: heading[2].replace(/\s+[Cc]omponent$/, '') });
+  });
+  return headings;
+}
+
+/** ['size'], [{ name: 'size' }] or { size: {...} } → ['size'] */
+function propNames(value: unknown): string[] | null {
+  if (Array.isArray(value)) {
+    const names = value
+      .map(p => typeof p === 'string' ? p : (p as { name?: unknown } | null)?.name)
+      .filter((p): p is string => typeof p === 'string');
+    return names.length > 0 ? names : null;
+  }
+  if (value && typeof value === 'object') {
+    const names = Object.keys(value);
+    return names.length > 0 ? names : null;
+  }
+  return null;
+}
+
+function componentsFromMarkdown(raw: string): NaosCatalogComponent[] {
+  const components: NaosCatalogComponent[] = [];
+  let current: { name: string; level: number; props: Set<string> } | null = null;
+  let inCode = false;
+
+  const flush = () => {
+    if (current) components.push({ name: current.name, props: current.props.size > 0 ? [...current.props] : null });
+    current = null;
+  };
+
+  for (const line of raw.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      inCode = !inCode;
+      continue;
+    }
+
+    const heading = !inCode && line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      const name = heading[2];
+      if (isComponentName(name)) {
+        flush();
+        current = { name, level, props: new Set() };
+      } else if (current && level <= current.level) {
+        // A top-level section after the components ends the last one
+        flush();
+      }
+      continue;
+    }
+
+    if (!current) continue;
+    for (const prop of propsFromLine(line, inCode)) {
+      current.props.add(prop);
+    }
+  }
+  flush();
+
+  return components;
+}
+
+/** A heading that names a component rather than a docs section */
+function isComponentName(heading: string): boolean {
+  return !SECTION_HEADINGS.has(heading.toLowerCase()) && /^[A-Z]/.test(heading);
+}
+
+function propsFromLine(line: string, inCode: boolean): string[] {
+  if (inCode) {
+    // `  size?: 'sm' | 'md';` inside an interface
+    const member = line.match(/^\s+([A-Za-z_$][\w$]*)\??\s*:/);
+    return member ? [member[1]] : [];
+  }
+
+  // | `size` | 'sm' \| 'md' | ... |
+  const cell = line.match(/^\s*\|\s*`?([^|`\s]+)`?\s*\|/);
+  if (cell) {
+    const name = cell[1].replace(/\?$/, '');
+    return IDENTIFIER.test(name) && !['prop', 'props', 'name', 'property'].includes(name.toLowerCase()) ? [name] : [];
+  }
+
+  // Props: size, variant, disabled
+  const list = line.match(/^\s*(?:\*\*)?props(?:\*\*)?\s*:\s*(.+)$/i);
+  if (list) {
+    return list[1].split(',').map(p => p.trim().replace(/`/g, '').replace(/\?$/, '')).filter(p => IDENTIFIER.test(p));
+  }
+
+  // - `size`: ...
+  const bullet = line.match(/^\s*[-*]\s+`([A-Za-z_$][\w$-]*)\??`/);
+  return bullet ? [bullet[1]] : [];
+}
+
+/** Closest name by edit distance, or one that contains the other */
+function closestName(name: string, candidates: string[]): string | undefined {
+  const target = name.toLowerCase();
+  let best: { name: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const lower = candidate.toLowerCase();
+    const distance = lower.includes(target) || target.includes(lower)
+      ? Math.abs(lower.length - target.length) / 2
+      : editDistance(target, lower);
+    if (!best || distance < best.distance) best = { name: candidate, distance };
+  }
+
+  return best && best.distance <= Math.max(2, target.length / 3) ? best.name : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { executeWriteFile, parseFinishInput } from './output-tools';
+
+describe('executeWriteFile', () => {
+  const outputPath = path.join(__dirname, '__test_tool_output__');
+
+  afterEach(() => {
+    if (fs.existsSync(outputPath)) fs.rmSync(outputPath, { recursive: true });
+  });
+
+  it('should write the file and report its relative path', async () => {
+    const { result, writtenPath } = await executeWriteFile(
+      { path: 'Button/Button.tsx', content: 'export {};\n', language: 'tsx' },
+      outputPath,
+    );
+
+    expect(writtenPath).toBe(path.join(outputPath, 'Button/Button.tsx'));
+    expect(fs.readFileSync(writtenPath!, 'utf-8')).toBe('export {};\n');
+    expect(JSON.parse(result)).toEqual({ success: true, path: 'Button/Button.tsx' });
+  });
+
+  it('should reject paths outside the output directory', async () => {
+    const { result, writtenPath } = await executeWriteFile(
+      { path: '../escape.ts', content: 'x' },
+      outputPath,
+    );
+
+    expect(writtenPath).toBeNull();
+    expect(JSON.parse(result)).toMatchObject({ error: true });
+  });
+
+  it('should reject calls without path or content', async () => {
+    const { result, writtenPath } = await executeWriteFile({ path: 'a.ts' }, outputPath);
+
+    expect(writtenPath).toBeNull();
+    expect(JSON.parse(result).message).toContain('"content"');
+  });
+});
+
+describe('parseFinishInput', () => {
+  it('should keep only string gaps', () => {
+    expect(parseFinishInput({ summary: 'Done', gaps: ['No Stepper in Naos', 3] })).toEqual({
+      summary: 'Done',
+      gaps: ['No Stepper in Naos'],
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { writeCodeBlocks } from './file-writer';
+
+// ==============================================================================
+// Local Output Tools
+// ==============================================================================
+// Tools the agent itself implements, offered next to the MCP tools when
+// outputMode is 'tools'. The model emits files as structured `write_file`
+// calls — an explicit path, no guessing from fences — and ends the run
+// with `finish`. Calls are handled locally, never routed to McpBridge.
+
+export const WRITE_FILE_TOOL = 'write_file';
+export const FINISH_TOOL = 'finish';
+
+export const OUTPUT_TOOLS: Anthropic.Messages.Tool[] = [
+  {
+    name: WRITE_FILE_TOOL,
+    description: 'Write a generated file to the output directory. Call once per file; writing the same path again replaces it.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File path relative to the output directory, e.g. "Button/Button.tsx"',
+        },
+        content: {
+          type: 'string',
+          description: 'Complete file contents',
+        },
+        language: {
+          type: 'string',
+          description: 'Language of the file, e.g. "tsx", "ts", "md"',
+        },
+      },
+      required: ['path', 'content'],
+    },
+  },
+  {
+    name: FINISH_TOOL,
+    description: 'Finish the workflow once every file has been written. Ends the run.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        summary: {
+          type: 'string',
+          description: 'Short summary of what was generated',
+        },
+        gaps: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Design system gaps: Figma elements with no matching Naos component',
+        },
+      },
+      required: ['summary'],
+    },
+  },
+];
+
+export interface FinishReport {
+  summary: string;
+  gaps: string[];
+}
+
+export function isOutputTool(name: string): boolean {
+  return name === WRITE_FILE_TOOL || name === FINISH_TOOL;
+}
+
+/**
+ * Handle a `write_file` call. Returns the tool result for the model and
+ * the absolute path written, or null when the call was rejected.
+ */
+export async function executeWriteFile(
+  input: unknown,
+  outputPath: string,
+): Promise<{ result: string; writtenPath: string | null }> {
+  const args = (input ?? {}) as Record<string, unknown>;
+  if (typeof args.path !== 'string' || !args.path.trim() || typeof args.content !== 'string') {
+    return {
+      result: toolError('write_file needs a non-empty "path" string and a "content" string'),
+      writtenPath: null,
+    };
+  }
+
+  const [writtenPath] = await writeCodeBlocks([{
+    filePath: args.path.trim(),
+    content: args.content,
+    language: typeof args.language === 'string' ? args.language : '',
+  }], outputPath);
+
+  if (!writtenPath) {
+    return {
+      result: toolError(`Path "${args.path}" is outside the output directory — use a relative path`),
+      writtenPath: null,
+    };
+  }
+
+  return { result: JSON.stringify({ success: true, path: args.path.trim() }), writtenPath };
+}
+
+export function parseFinishInput(input: unknown): FinishReport {
+  const args = (input ?? {}) as Record<string, unknown>;
+  return {
+    summary: typeof args.summary === 'string' ? args.summary : '',
+    gaps: Array.isArray(args.gaps) ? args.gaps.filter((g): g is string => typeof g === 'string') : [],
+  };
+}
+
+// Same `{ error: true, message }` shape McpBridge uses for failed calls
+function toolError(message: string): string {
+  return JSON.stringify({ error: true, message });
+}
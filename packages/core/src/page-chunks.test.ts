@@ -0,0 +1,78 @@
+import {
+  buildCompositionPrompt,
+  chunkDocument,
+  compositionDocument,
+  planPageChunks,
+  toComponentName,
+} from './page-chunks';
+import type { DesignForgeResult } from './agent';
+import type { FigmaDocument } from './figma-data';
+
+describe('page chunks', () => {
+  const doc: FigmaDocument = {
+    metadata: {
+      components: { 'c:1': { name: 'Type=Primary', componentSetId: 's:1' } },
+      componentSets: { 's:1': { name: 'Forms/Button' } },
+    },
+    globalVars: { styles: { fill_1: [{ type: 'SOLID', color: '#FFF' }] } },
+    nodes: [{
+      id: '1:1',
+      name: 'Settings page',
+      type: 'FRAME',
+      children: [
+        { id: '2:1', name: 'Header', type: 'FRAME', children: [{ id: '3:1', name: 'Save', type: 'INSTANCE', componentId: 'c:1' }] },
+        { id: '2:2', name: 'Profile card', type: 'FRAME', fills: 'fill_1', children: [{ id: '3:2', name: 'Email TextField', type: 'INSTANCE' }] },
+        { id: '2:3', name: 'header', type: 'FRAME' },
+        { id: '2:4', name: 'Draft', type: 'FRAME', visible: false },
+      ],
+    }],
+  };
+  const catalog = {
+    components: {
+      Button: { name: 'Button', props: null },
+      TextField: { name: 'TextField', props: null },
+      Modal: { name: 'Modal', props: null },
+    },
+  };
+
+  it('should plan one chunk per visible frame with the Naos components it uses', () => {
+    const selectDocs = jest.fn((components: string[]) => `docs for ${components.join(', ')}`);
+
+    expect(planPageChunks(doc, catalog, selectDocs)).toEqual([
+      { nodeId: '2:1', name: 'Header', componentName: 'Header', naosComponents: ['Button'], naosDocs: 'docs for Button' },
+      { nodeId: '2:2', name: 'Profile card', componentName: 'ProfileCard', naosComponents: ['TextField'], naosDocs: 'docs for TextField' },
+      { nodeId: '2:3', name: 'header', componentName: 'Header2', naosComponents: [], naosDocs: null },
+    ]);
+  });
+
+  it('should narrow the document to a chunk and collapse chunks for the composition', () => {
+    const chunks = planPageChunks(doc, null);
+
+    expect(chunkDocument(doc, '2:2')).toEqual({ ...doc, nodes: [doc.nodes[0].children![1]] });
+
+    const page = compositionDocument(doc, chunks);
+    expect(page.globalVars).toBe(doc.globalVars);
+    expect(page.nodes[0].children!.map(c => [c.id, c.children?.length ?? 0])).toEqual([
+      ['2:1', 0], ['2:2', 0], ['2:3', 0], ['2:4', 0],
+    ]);
+    expect(page.nodes[0].children![1].fills).toBe('fill_1');
+  });
+
+  it('should list the chunk components for the composition pass', () => {
+    const passResult = (files: string[]) => ({ files }) as DesignForgeResult;
+    const prompt = buildCompositionPrompt('SettingsPage', [
+      { nodeId: '2:1', name: 'Header', componentName: 'Header', result: passResult(['/out/Header/Header.tsx', '/out/Header/Header.test.tsx']) },
+      { nodeId: '2:2', name: 'Profile card', componentName: 'ProfileCard', result: passResult([]) },
+    ], '/out');
+
+    expect(prompt).toContain('| Header | `Header` | `Header/Header.tsx` |');
+    expect(prompt).toContain('| Profile card | `ProfileCard` | `ProfileCard/ProfileCard.tsx` |');
+    expect(prompt).toContain('`SettingsPage/SettingsPage.tsx`');
+  });
+
+  it('should derive component names from frame names', () => {
+    expect(toComponentName('Profile card / v2')).toBe('ProfileCardV2');
+    expect(toComponentName('404 page')).toBe('Frame404Page');
+    expect(toComponentName('✨')).toBe('Frame');
+  });
+});
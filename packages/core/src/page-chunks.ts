@@ -0,0 +1,180 @@
+import * as path from 'path';
+import { getComponentUnits, walkFigmaNodes, type FigmaDocument, type FigmaNode } from './figma-data';
+import type { DesignForgeResult } from './agent';
+import type { NaosCatalog } from './naos-catalog';
+
+// ==============================================================================
+// Page Chunks
+// ==============================================================================
+// Chunked mode generates a large page in passes instead of one prompt:
+// one pass per top-level frame or component set (the same units the
+// watcher regenerates), each given only that frame's Figma data and the
+// docs of the Naos components it appears to use, then a composition pass
+// that writes the page component importing the chunk components.
+//
+// Chunks are plain JSON so they can live in run checkpoints.
+
+export interface PageChunk {
+  nodeId: string;
+  /** Frame name as designed */
+  name: string;
+  /** Component the pass generates, e.g. ProfileCard */
+  componentName: string;
+  /** Catalog components whose names appear in the frame */
+  naosComponents: string[];
+  /** Docs of those components; null when they could not be isolated */
+  naosDocs: string | null;
+}
+
+/** What a finished chunk pass left for the composition pass and the result */
+export interface ChunkPassResult {
+  nodeId: string;
+  name: string;
+  componentName: string;
+  /** The pass's run result, as returned by a single-pass run */
+  result: DesignForgeResult;
+}
+
+/** Progress of a chunked run, persisted in its checkpoints */
+export interface ChunkedRunState {
+  /** Pass being run: chunks in order, then the composition (= chunk count) */
+  pass: number;
+  results: ChunkPassResult[];
+}
+
+/**
+ * One chunk per top-level frame or component set. `selectDocs` narrows
+ * the Naos docs to a chunk's components.
+ */
+export function planPageChunks(
+  doc: FigmaDocument,
+  catalog: NaosCatalog | null | undefined,
+  selectDocs: (components: string[]) => string | null = () => null,
+): PageChunk[] {
+  const taken = new Set<string>();
+
+  return getComponentUnits(doc)
+    .filter(node => node.visible !== false)
+    .map(node => {
+      const naosComponents = catalog ? usedCatalogComponents(doc, node, catalog) : [];
+      return {
+        nodeId: node.id,
+        name: node.name,
+        componentName: uniqueName(toComponentName(node.name), taken),
+        naosComponents,
+        naosDocs: naosComponents.length > 0 ? selectDocs(naosComponents) : null,
+      };
+    });
+}
+
+/** The document narrowed to one chunk's node, with shared metadata and styles */
+export function chunkDocument(doc: FigmaDocument, nodeId: string): FigmaDocument {
+  const node = findNode(doc.nodes, nodeId);
+  return { ...doc, nodes: node ? [node] : [] };
+}
+
+/**
+ * The page with each chunk reduced to its frame: the layout the
+ * composition pass arranges the chunk components in.
+ */
+export function compositionDocument(doc: FigmaDocument, chunks: PageChunk[]): FigmaDocument {
+  const ids = new Set(chunks.map(c => c.nodeId));
+  const strip = (nodes: FigmaNode[]): FigmaNode[] => nodes.map(node => ids.has(node.id)
+    ? { ...node, children: [] }
+    : { ...node, children: node.children && strip(node.children) });
+  return { ...doc, nodes: strip(doc.nodes) };
+}
+
+/** Instructions for the pass that generates one chunk */
+export function buildChunkPassPrompt(chunk: PageChunk, index: number, total: number): string {
+  return `## Chunked Generation — Frame ${index + 1} of ${total}
+This page is generated one frame at a time. The Figma data above is ONLY the frame "${chunk.name}" — ` +
+    `the other frames are handled in their own passes, and a final pass composes the page.
+Generate this frame as ONE component named \`${chunk.componentName}\` in \`${chunk.componentName}/${chunk.componentName}.tsx\` ` +
+    '(default and named export), with its test and story. Smaller components it needs go in their own folders as usual.';
+}
+
+/** Instructions for the final pass that assembles the page */
+export function buildCompositionPrompt(pageName: string, results: ChunkPassResult[], outputPath: string): string {
+  const rows = results.map(r => {
+    const file = (r.result?.files as string[] | undefined)?.find(f => path.basename(f) === `${r.componentName}.tsx`);
+    const location = file ? path.relative(outputPath, file) : `${r.componentName}/${r.componentName}.tsx`;
+    return `| ${r.name} | \`${r.componentName}\` | \`${location}\` |`;
+  });
+
+  return `## Chunked Generation — Composition
+Every frame of this page was generated in an earlier pass:
+
+| Frame | Component | File |
+|---|---|---|
+${rows.join('\n')}
+
+The Figma data above is the page with each of those frames collapsed to one line. ` +
+    `Generate ONLY the page component \`${pageName}\` in \`${pageName}/${pageName}.tsx\`, with its test and story. ` +
+    'It imports the components above and arranges them as the page layout shows. ' +
+    'Do NOT regenerate or modify the frame components.';
+}
+
+/** "Profile card / v2" → "ProfileCardV2"; names starting with a digit get a Frame prefix */
+export function toComponentName(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  if (!pascal) return 'Frame';
+  return /^\d/.test(pascal) ? `Frame${pascal}` : pascal;
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let unique = name;
+  for (let n = 2; taken.has(unique); n++) unique = `${name}${n}`;
+  taken.add(unique);
+  return unique;
+}
+
+function findNode(nodes: FigmaNode[], id: string): FigmaNode | undefined {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = node.children && findNode(node.children, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Catalog components named anywhere in the frame: in a node name, or in
+ * the name of an instance's main component or component set. Names are
+ * compared whole per path segment ("Forms/Text Field" → TextField), per
+ * word ("Email TextField") and per camel-case part ("PrimaryButton").
+ */
+function usedCatalogComponents(doc: FigmaDocument, frame: FigmaNode, catalog: NaosCatalog): string[] {
+  const components = (doc.metadata?.components ?? {}) as Record<string, { name?: string; componentSetId?: string }>;
+  const componentSets = (doc.metadata?.componentSets ?? {}) as Record<string, { name?: string }>;
+
+  const words = new Set<string>();
+  const addName = (name: string | undefined) => {
+    for (const segment of (name ?? '').split(/[/|,=]/)) {
+      words.add(normalize(segment));
+      for (const word of segment.split(/[^A-Za-z0-9]+/)) {
+        words.add(normalize(word));
+        // "PrimaryButton" → Button
+        for (const part of word.split(/(?<=[a-z])(?=[A-Z])/)) words.add(normalize(part));
+      }
+    }
+  };
+
+  walkFigmaNodes([frame], node => {
+    if (node.visible === false) return;
+    addName(node.name);
+    const component = node.componentId ? components[node.componentId] : undefined;
+    addName(component?.name);
+    addName(component?.componentSetId ? componentSets[component.componentSetId]?.name : undefined);
+  });
+
+  return Object.keys(catalog.components).filter(name => words.has(normalize(name)));
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
@@ -0,0 +1,152 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { collectTestFailures, formatLineRanges, runGeneratedTests, summarizeLineCoverage } from './test-runner';
+
+jest.mock('child_process');
+
+describe('runGeneratedTests', () => {
+  const out = '/project/src/components';
+  const component = `${out}/Button/Button.tsx`;
+  const test = `${out}/Button/Button.test.tsx`;
+
+  /** Fake Jest: writes the given results/coverage where the CLI args say */
+  function mockJest(results: object | null, coverage: object = {}) {
+    (spawn as unknown as jest.Mock).mockImplementationOnce((_cmd: string, args: string[]) => {
+      const child = Object.assign(new EventEmitter(), { stdout: new EventEmitter(), stderr: new EventEmitter(), kill: jest.fn() });
+      const outputFile = args.find(a => a.startsWith('--outputFile='))!.split('=')[1];
+      const coverageDir = args.find(a => a.startsWith('--coverageDirectory='))!.split('=')[1];
+
+      setImmediate(() => {
+        if (results) {
+          fs.writeFileSync(outputFile, JSON.stringify(results));
+          fs.mkdirSync(coverageDir, { recursive: true });
+          fs.writeFileSync(path.join(coverageDir, 'coverage-final.json'), JSON.stringify(coverage));
+        } else {
+          child.stderr.emit('data', 'sh: jest: command not found');
+        }
+        child.emit('close', results ? 0 : 127);
+      });
+      return child;
+    });
+  }
+
+  it('should require generated tests', async () => {
+    const report = await runGeneratedTests([component]);
+
+    expect(report.ran).toBe(false);
+    expect(report.issues[0]).toMatchObject({ source: 'jest', severity: 'error' });
+  });
+
+  it('should run only the generated tests and collect their coverage', async () => {
+    mockJest({ numTotalTests: 2, numPassedTests: 2, numFailedTests: 0, testResults: [] }, {
+      [component]: {
+        path: component,
+        statementMap: { 0: { start: { line: 1 }, end: { line: 1 } }, 1: { start: { line: 2 }, end: { line: 2 } } },
+        s: { 0: 1, 1: 1 },
+      },
+    });
+
+    const report = await runGeneratedTests([component, test, `${out}/Button/index.ts`], {
+      cwd: '/project',
+      minCoverage: 80,
+    });
+
+    const args: string[] = (spawn as unknown as jest.Mock).mock.calls.at(-1)[1];
+    expect(args.slice(-2)).toEqual(['--runTestsByPath', test]);
+    expect(args).toContain('--collectCoverageFrom=src/components/Button/Button.tsx');
+    expect(args.join(' ')).not.toContain('index.ts');
+    expect(report).toMatchObject({ ran: true, passed: 2, failed: 0, coverage: 100, issues: [] });
+  });
+
+  it('should flag files below the coverage minimum with their uncovered lines', async () => {
+    mockJest({ numTotalTests: 1, numPassedTests: 1, numFailedTests: 0, testResults: [] }, {
+      [component]: {
+        statementMap: {
+          0: { start: { line: 1 }, end: { line: 1 } },
+          1: { start: { line: 4 }, end: { line: 4 } },
+          2: { start: { line: 5 }, end: { line: 5 } },
+        },
+        s: { 0: 1, 1: 0, 2: 0 },
+      },
+    });
+
+    const report = await runGeneratedTests([component, test], { cwd: '/project', minCoverage: 80 });
+
+    expect(report.coverage).toBe(33.3);
+    expect(report.issues).toEqual([expect.objectContaining({
+      source: 'coverage',
+      file: component,
+      message: expect.stringContaining('Uncovered lines: 4-5'),
+    })]);
+  });
+
+  it('should warn rather than fail when Jest cannot run', async () => {
+    mockJest(null);
+
+    const report = await runGeneratedTests([component, test], { cwd: '/project' });
+
+    expect(report.ran).toBe(false);
+    expect(report.issues).toEqual([expect.objectContaining({
+      severity: 'warning',
+      message: expect.stringContaining('jest: command not found'),
+    })]);
+  });
+
+  it('should warn rather than fail when the Jest config picks up none of the tests', async () => {
+    mockJest({
+      numTotalTests: 0,
+      numPassedTests: 0,
+      numFailedTests: 0,
+      testResults: [{ name: test, status: 'failed', message: 'Jest encountered an unexpected token', assertionResults: [] }],
+    });
+
+    const report = await runGeneratedTests([component, test], { cwd: '/project', minCoverage: 80 });
+
+    expect(report.ran).toBe(false);
+    expect(report.issues).toEqual([expect.objectContaining({
+      severity: 'warning',
+      message: expect.stringContaining('Jest encountered an unexpected token'),
+    })]);
+  });
+});
+
+describe('collectTestFailures', () => {
+  it('should report failing tests and suites that failed to run', () => {
+    const issues = collectTestFailures({
+      testResults: [
+        {
+          name: '/out/Button.test.tsx',
+          status: 'failed',
+          assertionResults: [
+            { fullName: 'Button renders', status: 'passed' },
+            { fullName: 'Button calls onClick', status: 'failed', failureMessages: ['\u001b[31mExpected 1 call\u001b[39m'] },
+          ],
+        },
+        { name: '/out/Card.test.tsx', status: 'failed', message: 'SyntaxError: Unexpected token', assertionResults: [] },
+        { name: '/out/Tag.test.tsx', status: 'failed', message: 'Jest encountered an unexpected token', assertionResults: [] },
+      ],
+    });
+
+    expect(issues.map(i => [i.severity, i.message])).toEqual([
+      ['error', 'Button calls onClick: Expected 1 call'],
+      ['error', 'Test suite failed to run: SyntaxError: Unexpected token'],
+      ['warning', 'Test suite failed to run: Jest encountered an unexpected token'],
+    ]);
+  });
+});
+
+describe('summarizeLineCoverage', () => {
+  it('should count files Jest never instrumented as uncovered', () => {
+    const { files } = summarizeLineCoverage({}, ['/out/Unused.tsx']);
+
+    expect(files).toEqual([{ file: '/out/Unused.tsx', lines: 0, uncoveredLines: [] }]);
+  });
+});
+
+describe('formatLineRanges', () => {
+  it('should collapse consecutive lines', () => {
+    expect(formatLineRanges([3, 4, 5, 9, 11, 12])).toBe('3-5, 9, 11-12');
+  });
+});
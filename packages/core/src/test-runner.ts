@@ -0,0 +1,328 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ValidationIssue } from './validation';
+
+// ==============================================================================
+// Generated Test Runner
+// ==============================================================================
+// Runs Jest on the generated *.test.* files from the host project, so the
+// project's own Jest config (transform, jsdom, RTL setup) applies, and
+// reads back the JSON results and Istanbul coverage of the generated
+// source files. Failing tests and files under the coverage minimum become
+// validation issues for a repair turn.
+
+export interface TestRunOptions {
+  /** Project root to run Jest from (default: process.cwd()) */
+  cwd?: string;
+  /** Required line coverage over the generated source files, in percent */
+  minCoverage?: number;
+  /** Kill Jest after this long (default: 120s) */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface FileCoverage {
+  file: string;
+  /** Line coverage in percent, rounded to one decimal */
+  lines: number;
+  uncoveredLines: number[];
+}
+
+export interface TestRunReport {
+  /** Jest ran and reported results */
+  ran: boolean;
+  passed: number;
+  failed: number;
+  /** Line coverage over all generated source files, in percent */
+  coverage: number;
+  files: FileCoverage[];
+  issues: ValidationIssue[];
+}
+
+const TEST_FILE_REGEX = /\.(test|spec)\.[jt]sx?$/;
+const SOURCE_FILE_REGEX = /\.[jt]sx?$/;
+// Stories and barrel files have nothing worth covering
+const UNCOVERED_SOURCE_REGEX = /(\.stories\.[jt]sx?|\.d\.ts|(^|[\\/])index\.[jt]sx?)$/;
+
+// Suites that failed because the host Jest config cannot load TypeScript/JSX
+// (no transform), not because of anything in the generated code
+const SETUP_FAILURE_REGEX = /Jest encountered an unexpected token|Cannot use import statement outside a module|No tests found/;
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+/** Failure output per test sent back to the model */
+const MAX_FAILURE_CHARS = 1_500;
+
+export function isTestFile(file: string): boolean {
+  return TEST_FILE_REGEX.test(file);
+}
+
+export async function runGeneratedTests(files: string[], options: TestRunOptions = {}): Promise<TestRunReport> {
+  const unique = [...new Set(files.map(f => path.resolve(f)))];
+  const testFiles = unique.filter(isTestFile);
+  const sourceFiles = unique.filter(f =>
+    SOURCE_FILE_REGEX.test(f) && !isTestFile(f) && !UNCOVERED_SOURCE_REGEX.test(f));
+
+  const report: TestRunReport = { ran: false, passed: 0, failed: 0, coverage: 0, files: [], issues: [] };
+
+  if (testFiles.length === 0) {
+    report.issues.push({
+      source: 'jest',
+      severity: 'error',
+      message: 'No test files were generated. Write a *.test.tsx file for every component.',
+    });
+    return report;
+  }
+
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'designforge-jest-'));
+  const resultsFile = path.join(workDir, 'results.json');
+  const coverageDir = path.join(workDir, 'coverage');
+
+  try {
+    const run = await spawnJest(cwd, [
+      '--ci',
+      '--json',
+      `--outputFile=${resultsFile}`,
+      '--coverage',
+      `--coverageDirectory=${coverageDir}`,
+      '--coverageReporters=json',
+      // Instrument every generated source file, including untested ones
+      ...sourceFiles.map(f => `--collectCoverageFrom=${toGlob(path.relative(cwd, f))}`),
+      '--runTestsByPath',
+      ...testFiles,
+    ], options);
+
+    if (!fs.existsSync(resultsFile)) {
+      // Jest itself did not run (not installed, broken config) — not
+      // something the model can repair
+      report.issues.push({
+        source: 'jest',
+        severity: 'warning',
+        message: `Could not run Jest in ${cwd}: ${lastLines(run.output, 10) || `exit code ${run.exitCode}`}`,
+      });
+      return report;
+    }
+
+    const results = JSON.parse(fs.readFileSync(resultsFile, 'utf-8')) as JestResults;
+    if (!results.numTotalTests) {
+      // Jest ran but picked up nothing: `roots`/`testMatch` exclude the
+      // output directory or the generated files cannot be transformed
+      const reason = results.testResults?.find(suite => suite.message)?.message ?? lastLines(run.output, 10);
+      report.issues.push({
+        source: 'jest',
+        severity: 'warning',
+        message: `Jest in ${cwd} ran none of the generated tests; check that its config matches and ` +
+          `transforms them: ${cleanOutput(reason) || 'no tests found'}`,
+      });
+      return report;
+    }
+
+    report.ran = true;
+    report.passed = results.numPassedTests ?? 0;
+    report.failed = results.numFailedTests ?? 0;
+    report.issues.push(...collectTestFailures(results));
+
+    const coverageFile = path.join(coverageDir, 'coverage-final.json');
+    const coverageMap: IstanbulCoverageMap = fs.existsSync(coverageFile)
+      ? JSON.parse(fs.readFileSync(coverageFile, 'utf-8'))
+      : {};
+    const { total, files: fileCoverage } = summarizeLineCoverage(coverageMap, sourceFiles);
+    report.coverage = total;
+    report.files = fileCoverage;
+
+    const minCoverage = options.minCoverage ?? 0;
+    if (total < minCoverage) {
+      report.issues.push(...coverageIssues(fileCoverage, total, minCoverage));
+    }
+
+    return report;
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// ==============================================================================
+// Jest results
+// ==============================================================================
+
+interface JestResults {
+  numTotalTests?: number;
+  numPassedTests?: number;
+  numFailedTests?: number;
+  testResults?: Array<{
+    name: string;
+    status: 'passed' | 'failed';
+    message?: string;
+    assertionResults?: Array<{
+      fullName: string;
+      status: string;
+      failureMessages?: string[];
+    }>;
+  }>;
+}
+
+/**
+ * One issue per failing test, plus one per suite that failed before any
+ * test ran (syntax errors, failing imports). A suite the host config could
+ * not transform is only a warning.
+ */
+export function collectTestFailures(results: JestResults): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const suite of results.testResults ?? []) {
+    const failedTests = (suite.assertionResults ?? []).filter(a => a.status === 'failed');
+
+    for (const test of failedTests) {
+      issues.push({
+        source: 'jest',
+        severity: 'error',
+        file: suite.name,
+        message: `${test.fullName}: ${cleanOutput((test.failureMessages ?? []).join('\n'))}`,
+      });
+    }
+
+    if (suite.status === 'failed' && failedTests.length === 0) {
+      const message = suite.message ?? '';
+      issues.push({
+        source: 'jest',
+        severity: SETUP_FAILURE_REGEX.test(message) ? 'warning' : 'error',
+        file: suite.name,
+        message: `Test suite failed to run: ${cleanOutput(message)}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ==============================================================================
+// Coverage
+// ==============================================================================
+
+type IstanbulCoverageMap = Record<string, {
+  path?: string;
+  statementMap: Record<string, { start: { line: number }; end: { line: number } }>;
+  s: Record<string, number>;
+}>;
+
+/**
+ * Line coverage per generated source file, from Istanbul statement data:
+ * a line is covered when any statement starting on it ran. Files Jest
+ * never instrumented count as 0% covered, with no lines listed.
+ */
+export function summarizeLineCoverage(
+  coverageMap: IstanbulCoverageMap,
+  sourceFiles: string[],
+): { total: number; files: FileCoverage[] } {
+  const byPath = new Map(Object.entries(coverageMap).map(([key, data]) => [path.resolve(data.path ?? key), data]));
+
+  let coveredTotal = 0;
+  let linesTotal = 0;
+  const files: FileCoverage[] = [];
+
+  for (const file of sourceFiles) {
+    const data = byPath.get(path.resolve(file));
+    const lineHits = new Map<number, boolean>();
+
+    for (const [id, location] of Object.entries(data?.statementMap ?? {})) {
+      const line = location.start.line;
+      lineHits.set(line, (lineHits.get(line) ?? false) || (data!.s[id] ?? 0) > 0);
+    }
+
+    const lines = [...lineHits.keys()].sort((a, b) => a - b);
+    const covered = lines.filter(l => lineHits.get(l)).length;
+    coveredTotal += covered;
+    linesTotal += lines.length;
+
+    files.push({
+      file,
+      lines: lines.length > 0 ? round(100 * covered / lines.length) : (data ? 100 : 0),
+      uncoveredLines: lines.filter(l => !lineHits.get(l)),
+    });
+  }
+
+  const total = linesTotal > 0 ? round(100 * coveredTotal / linesTotal) : 0;
+  return { total, files };
+}
+
+function coverageIssues(files: FileCoverage[], total: number, minCoverage: number): ValidationIssue[] {
+  return files
+    .filter(f => f.lines < minCoverage)
+    .map(f => ({
+      source: 'coverage',
+      severity: 'error' as const,
+      file: f.file,
+      message: f.uncoveredLines.length > 0
+        ? `${f.lines}% line coverage (total ${total}%, minimum ${minCoverage}%). ` +
+          `Uncovered lines: ${formatLineRanges(f.uncoveredLines)}`
+        : `Not covered by any test (total ${total}%, minimum ${minCoverage}%)`,
+    }));
+}
+
+/** [3, 4, 5, 9] → "3-5, 9" */
+export function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const start = lines[i];
+    while (i + 1 < lines.length && lines[i + 1] === lines[i] + 1) i++;
+    ranges.push(start === lines[i] ? `${start}` : `${start}-${lines[i]}`);
+  }
+  return ranges.join(', ');
+}
+
+// ==============================================================================
+// Helpers
+// ==============================================================================
+
+function spawnJest(
+  cwd: string,
+  args: string[],
+  options: TestRunOptions,
+): Promise<{ exitCode: number | null; output: string }> {
+  return new Promise((resolve, reject) => {
+    const npx = process.platform === 'win32' ? 'npx.cmd' : 'npx';
+    const child = spawn(npx, ['--no-install', 'jest', ...args], {
+      cwd,
+      env: { ...process.env, CI: 'true', FORCE_COLOR: '0' },
+      signal: options.signal,
+    });
+
+    let output = '';
+    child.stdout.on('data', chunk => { output += chunk; });
+    child.stderr.on('data', chunk => { output += chunk; });
+
+    const timer = setTimeout(() => child.kill(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      // An abort is the caller's decision, anything else (npx missing)
+      // is reported like a failed run
+      if (options.signal?.aborted) reject(err);
+      else resolve({ exitCode: null, output: err.message });
+    });
+    child.on('close', (exitCode) => {
+      clearTimeout(timer);
+      resolve({ exitCode, output });
+    });
+  });
+}
+
+/** Jest globs are micromatch patterns: escape glob characters in paths */
+function toGlob(relativePath: string): string {
+  return relativePath.split(path.sep).join('/').replace(/[()[\]{}*?!]/g, '\\$&');
+}
+
+function cleanOutput(text: string): string {
+  const plain = text.replace(/\u001b\[[0-9;]*m/g, '').trim();
+  return plain.length > MAX_FAILURE_CHARS ? `${plain.slice(0, MAX_FAILURE_CHARS)}…` : plain;
+}
+
+function lastLines(text: string, count: number): string {
+  return text.trim().split('\n').slice(-count).join('\n');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
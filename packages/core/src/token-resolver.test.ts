@@ -0,0 +1,104 @@
+import { findTokenForLiteral, formatTokenMapping, parseNaosTokens, resolveDesignTokens, tokenGaps } from './token-resolver';
+import type { FigmaDocument } from './figma-data';
+
+describe('parseNaosTokens', () => {
+  it('should parse nested JSON with W3C and Style Dictionary leaves', () => {
+    const tokens = parseNaosTokens(JSON.stringify({
+      color: { primary: { $value: '#0B996E', $type: 'color' }, text: { value: 'rgba(31, 41, 51, 1)' } },
+      spacing: { md: '16px' },
+      font: { weight: { bold: 600 }, family: { base: 'Inter, sans-serif' } },
+    }));
+
+    expect(tokens).toEqual([
+      { name: 'color.primary', value: '#0B996E', kind: 'color' },
+      { name: 'color.text', value: 'rgba(31, 41, 51, 1)', kind: 'color' },
+      { name: 'spacing.md', value: '16px', kind: 'dimension' },
+      { name: 'font.weight.bold', value: '600', kind: 'number' },
+      { name: 'font.family.base', value: 'Inter, sans-serif', kind: 'string' },
+    ]);
+  });
+
+  it('should parse CSS variables and markdown tables', () => {
+    const tokens = parseNaosTokens([
+      ':root {',
+      '  --sib-color-primary: #0b996e;',
+      '  --sib-radius-sm: 0.25rem;',
+      '}',
+      '| Token | Value |',
+      '|---|---|',
+      '| `space.lg` | 24px |',
+    ].join('\n'));
+
+    expect(tokens).toEqual([
+      { name: '--sib-color-primary', value: '#0b996e', kind: 'color' },
+      { name: '--sib-radius-sm', value: '0.25rem', kind: 'dimension' },
+      { name: 'space.lg', value: '24px', kind: 'dimension' },
+    ]);
+  });
+});
+
+describe('resolveDesignTokens', () => {
+  const tokens = parseNaosTokens(JSON.stringify({
+    color: { primary: '#0B996E', surface: '#FFFFFF' },
+    size: { icon: '16px' },
+    spacing: { md: '16px' },
+    radius: { sm: '4px' },
+    font: { size: { heading: '24px' }, weight: { bold: '600' } },
+  }));
+  const doc: FigmaDocument = {
+    globalVars: {
+      styles: {
+        fill_1: [{ type: 'SOLID', color: '#0C9A6F' }],
+        layout_1: { mode: 'column', gap: '16px', padding: '16px 20px' },
+        style_1: { fontFamily: 'Inter', fontWeight: 600, fontSize: 24, lineHeight: '1.5em' },
+      },
+    },
+    nodes: [{
+      id: '1:1',
+      name: 'Card',
+      type: 'FRAME',
+      fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+      layout: 'layout_1',
+      borderRadius: '4px',
+      children: [
+        { id: '2:1', name: 'Title', type: 'TEXT', text: 'Profile', textStyle: 'style_1' },
+        { id: '2:2', name: 'Badge', type: 'FRAME', fills: 'fill_1', strokes: { colors: ['#123456'] } },
+        { id: '2:3', name: 'Hidden', type: 'FRAME', visible: false, fills: ['#FF0000'] },
+      ],
+    }],
+  };
+
+  it('should match exact values and the nearest token color', () => {
+    const mapping = resolveDesignTokens(doc, tokens);
+
+    expect(mapping.matched.map(m => [m.kind, m.value, m.token, m.matchedBy])).toEqual([
+      ['color', '#FFFFFF', 'color.surface', 'exact'],
+      ['spacing', '16px', 'spacing.md', 'exact'],
+      ['radius', '4px', 'radius.sm', 'exact'],
+      ['fontSize', '24px', 'font.size.heading', 'exact'],
+      ['fontWeight', '600', 'font.weight.bold', 'exact'],
+      ['color', '#0C9A6F', 'color.primary', 'nearest'],
+    ]);
+    expect(mapping.matched[5].distance).toBeLessThan(1);
+    expect(mapping.unmatched.map(m => [m.kind, m.value])).toEqual([
+      ['spacing', '20px'],
+      ['fontFamily', 'Inter'],
+      ['color', '#123456'],
+    ]);
+    expect(tokenGaps(mapping)[0]).toBe('No Naos token for spacing 20px (node 1:1)');
+  });
+
+  it('should format the mapping for the prompt', () => {
+    const text = formatTokenMapping(resolveDesignTokens(doc, tokens));
+
+    expect(text).toContain('| #FFFFFF | color | `color.surface` |');
+    expect(text).toMatch(/\| #0C9A6F \| color \| `color\.primary` \(nearest, ΔE \d\.\d\) \|/);
+    expect(text).toContain('No Naos token matches: 20px (spacing), Inter (fontFamily), #123456 (color).');
+  });
+
+  it('should find the token for a raw literal in code', () => {
+    expect(findTokenForLiteral('#0b996e', tokens)).toBe('color.primary');
+    expect(findTokenForLiteral('1rem', tokens)).toBe('spacing.md');
+    expect(findTokenForLiteral('#FF0000', tokens)).toBeNull();
+  });
+});
@@ -0,0 +1,414 @@
+import { walkFigmaNodes, type FigmaDocument } from './figma-data';
+
+// ==============================================================================
+// Token Resolver
+// ==============================================================================
+// Maps the raw style values of a Figma design — fill and stroke colors,
+// layout gaps and padding, corner radii and text styles — to Naos design
+// tokens, so the model is told "#0B996E → color.primary" instead of
+// hard-coding the hex value.
+//
+// Colors match a token with the same value, or else the nearest token
+// color within DEFAULT_MAX_COLOR_DISTANCE (CIE76 ΔE). Everything else
+// matches by exact value, preferring tokens whose name fits the kind
+// ("spacing.md" for a gap, "radius.sm" for a corner).
+
+export type TokenKind = 'color' | 'dimension' | 'number' | 'string';
+
+export interface NaosToken {
+  /** Name as the design system exposes it, e.g. color.primary or --sib-space-4 */
+  name: string;
+  value: string;
+  kind: TokenKind;
+}
+
+export type StyleValueKind = 'color' | 'spacing' | 'radius' | 'fontSize' | 'lineHeight' | 'fontWeight' | 'fontFamily';
+
+export interface TokenMatch {
+  kind: StyleValueKind;
+  /** Normalized Figma value: #RRGGBB(AA), 16px, 600 or a font family */
+  value: string;
+  /** First node using the value */
+  nodeId: string;
+  /** Nodes using the value */
+  count: number;
+  /** Matching token name; null when there is none */
+  token: string | null;
+  matchedBy: 'exact' | 'nearest' | null;
+  /** ΔE to the token color, for nearest color matches */
+  distance?: number;
+}
+
+export interface TokenMapping {
+  matched: TokenMatch[];
+  unmatched: TokenMatch[];
+}
+
+export interface TokenResolverOptions {
+  /** Largest ΔE for a nearest color match (default 5) */
+  maxColorDistance?: number;
+}
+
+export const DEFAULT_MAX_COLOR_DISTANCE = 5;
+
+// Token name fragments that fit each kind of Figma value
+const KIND_HINTS: Record<StyleValueKind, RegExp> = {
+  color: /colou?r|fill|background|bg|text|border/i,
+  spacing: /spac|gap|pad|margin|gutter|inset/i,
+  radius: /radi|round|corner/i,
+  fontSize: /font|text|type|size/i,
+  lineHeight: /line|leading/i,
+  fontWeight: /weight/i,
+  fontFamily: /family|font/i,
+};
+
+const TOKEN_KIND: Record<StyleValueKind, TokenKind> = {
+  color: 'color',
+  spacing: 'dimension',
+  radius: 'dimension',
+  fontSize: 'dimension',
+  lineHeight: 'dimension',
+  fontWeight: 'number',
+  fontFamily: 'string',
+};
+
+/**
+ * Parse the `get_naos_design_tokens` response: JSON (nested groups, W3C
+ * `$value` or Style Dictionary `value` leaves, or a `{ name, value }`
+ * list), CSS custom properties, SCSS variables, `name: value` lines or a
+ * markdown table with the name in the first column.
+ */
+export function parseNaosTokens(raw: string): NaosToken[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return dedupe(tokensFromText(raw));
+  }
+  return dedupe(tokensFromJson(parsed, []));
+}
+
+/** Map every distinct style value of the design to a Naos token */
+export function resolveDesignTokens(
+  doc: FigmaDocument,
+  tokens: NaosToken[],
+  options: TokenResolverOptions = {},
+): TokenMapping {
+  const maxDistance = options.maxColorDistance ?? DEFAULT_MAX_COLOR_DISTANCE;
+  const entries = collectStyleValues(doc).map(entry => ({
+    ...entry,
+    ...matchToken(entry.kind, entry.value, tokens, maxDistance),
+  }));
+
+  return { matched: entries.filter(e => e.token), unmatched: entries.filter(e => !e.token) };
+}
+
+/**
+ * The token for a raw literal found in generated code ("#0b996e",
+ * "16px"), or null. Used to suggest a replacement in lint findings.
+ */
+export function findTokenForLiteral(literal: string, tokens: NaosToken[]): string | null {
+  const color = parseColor(literal);
+  if (color) {
+    return matchToken('color', formatHex(color), tokens, DEFAULT_MAX_COLOR_DISTANCE).token;
+  }
+  const px = parsePx(literal);
+  return px === null ? null : matchToken('spacing', `${px}px`, tokens, 0).token;
+}
+
+/** Markdown section for the user prompt */
+export function formatTokenMapping(mapping: TokenMapping): string {
+  const lines = [
+    'Use these Naos tokens for the design\'s style values. Never hard-code hex colors or px values that have a token.',
+  ];
+  if (mapping.matched.length > 0) {
+    lines.push('', '| Figma value | Used as | Naos token |', '|---|---|---|');
+    for (const m of mapping.matched) {
+      const nearest = m.matchedBy === 'nearest' ? ` (nearest, ΔE ${m.distance})` : '';
+      lines.push(`| ${m.value} | ${m.kind} | \`${m.token}\`${nearest} |`);
+    }
+  }
+  if (mapping.unmatched.length > 0) {
+    lines.push(
+      '',
+      `No Naos token matches: ${mapping.unmatched.map(m => `${m.value} (${m.kind})`).join(', ')}. ` +
+      'Use the closest design system prop or token and report them as design system gaps.',
+    );
+  }
+  return lines.join('\n');
+}
+
+/** One design-system gap per style value without a Naos token */
+export function tokenGaps(mapping: TokenMapping): string[] {
+  return mapping.unmatched.map(m => `No Naos token for ${m.kind} ${m.value} (node ${m.nodeId})`);
+}
+
+// ==============================================================================
+// Figma side
+// ==============================================================================
+
+/**
+ * Distinct style values of the visible nodes, in reading order. Style
+ * attributes may be inline or references into `globalVars.styles`.
+ */
+function collectStyleValues(doc: FigmaDocument): Array<Pick<TokenMatch, 'kind' | 'value' | 'nodeId' | 'count'>> {
+  const styles = doc.globalVars?.styles ?? {};
+  const resolve = (value: unknown) => typeof value === 'string' && value in styles ? styles[value] : value;
+  const entries = new Map<string, Pick<TokenMatch, 'kind' | 'value' | 'nodeId' | 'count'>>();
+
+  walkFigmaNodes(doc.nodes, (node, ancestors) => {
+    if ([...ancestors, node].some(n => n.visible === false)) return;
+
+    const found = new Set<string>();
+    const add = (kind: StyleValueKind, value: string | null) => {
+      if (value) found.add(`${kind}\u0000${value}`);
+    };
+
+    for (const attribute of [node.fills, node.strokes]) {
+      for (const color of collectColors(resolve(attribute))) add('color', color);
+    }
+
+    const layout = resolve(node.layout) as Record<string, unknown> | undefined;
+    if (layout && typeof layout === 'object') {
+      for (const key of ['gap', 'rowGap', 'columnGap', 'itemSpacing', 'padding']) {
+        for (const px of dimensions(layout[key])) add('spacing', px);
+      }
+    }
+
+    for (const px of dimensions(resolve(node.borderRadius) ?? resolve(node.cornerRadius))) add('radius', px);
+
+    const text = resolve(node.textStyle ?? node.style) as Record<string, unknown> | undefined;
+    if (node.type === 'TEXT' && text && typeof text === 'object') {
+      add('fontSize', dimensions(text.fontSize)[0] ?? null);
+      // Relative line heights ("1.5em", "150%") have no px token to match
+      if (typeof text.lineHeight === 'string' && text.lineHeight.trim().endsWith('px')) {
+        add('lineHeight', dimensions(text.lineHeight)[0] ?? null);
+      }
+      if (typeof text.fontWeight === 'number' || /^\d+$/.test(String(text.fontWeight ?? ''))) {
+        add('fontWeight', String(text.fontWeight));
+      }
+      if (typeof text.fontFamily === 'string' && text.fontFamily.trim()) add('fontFamily', text.fontFamily.trim());
+    }
+
+    for (const key of found) {
+      const [kind, value] = key.split('\u0000') as [StyleValueKind, string];
+      const existing = entries.get(key);
+      if (existing) existing.count++;
+      else entries.set(key, { kind, value, nodeId: node.id, count: 1 });
+    }
+  });
+
+  return [...entries.values()];
+}
+
+/** Solid colors in a fills/strokes value: color strings, `{ color }` paints or `{ colors }` strokes */
+function collectColors(value: unknown): string[] {
+  if (typeof value === 'string') {
+    const color = parseColor(value);
+    return color ? [formatHex(color)] : [];
+  }
+  if (Array.isArray(value)) return value.flatMap(collectColors);
+  if (!value || typeof value !== 'object') return [];
+
+  const paint = value as Record<string, unknown>;
+  if (paint.visible === false) return [];
+  if (paint.type && paint.type !== 'SOLID') return [];
+  if (paint.colors) return collectColors(paint.colors);
+  if (paint.color && typeof paint.color === 'object') {
+    const { r, g, b, a } = paint.color as Record<string, number>;
+    if ([r, g, b].some(c => typeof c !== 'number')) return [];
+    // Figma API colors are 0–1 floats; paint opacity multiplies the alpha
+    const alpha = (a ?? 1) * (typeof paint.opacity === 'number' ? paint.opacity : 1);
+    return [formatHex({ r: r * 255, g: g * 255, b: b * 255, a: alpha })];
+  }
+  return collectColors(paint.color);
+}
+
+/** "16px 24px" / 16 → ["16px", "24px"]; zero and unitless-percent values are skipped */
+function dimensions(value: unknown): string[] {
+  if (typeof value === 'number') return value > 0 ? [`${round(value)}px`] : [];
+  if (typeof value !== 'string') return [];
+  return [...new Set(value.trim().split(/\s+/)
+    .map(part => /^\d+(\.\d+)?$/.test(part) ? Number(part) : parsePx(part))
+    .filter((px): px is number => px !== null && px > 0)
+    .map(px => `${round(px)}px`))];
+}
+
+// ==============================================================================
+// Naos side
+// ==============================================================================
+
+function tokensFromJson(value: unknown, path: string[]): NaosToken[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (item && typeof item === 'object' && 'name' in item && ('value' in item || '$value' in item)) {
+        const record = item as Record<string, unknown>;
+        return tokensFromJson(record.$value ?? record.value, [...path, String(record.name)]);
+      }
+      return [];
+    });
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    // A W3C / Style Dictionary leaf; composite values (typography) become sub-tokens
+    if ('$value' in record || 'value' in record) {
+      return tokensFromJson(record.$value ?? record.value, path);
+    }
+    return Object.entries(record)
+      .filter(([key]) => !key.startsWith('$'))
+      .flatMap(([key, child]) => tokensFromJson(child, [...path, key]));
+  }
+  if ((typeof value === 'string' || typeof value === 'number') && path.length > 0) {
+    return [token(path.join('.'), String(value))];
+  }
+  return [];
+}
+
+function tokensFromText(raw: string): NaosToken[] {
+  const tokens: NaosToken[] = [];
+  for (const line of raw.split('\n')) {
+    const trimmed = line.trim();
+
+    // | `color.primary` | #0B996E | ... |
+    if (trimmed.startsWith('|')) {
+      const cells = trimmed.split('|').slice(1, -1).map(c => c.trim().replace(/`/g, ''));
+      if (cells.length < 2 || /^:?-+:?$/.test(cells[0])) continue;
+      const value = cells.slice(1).find(c => parseColor(c) || parsePx(c) !== null || /^\d+$/.test(c));
+      if (value && /^[\w$.-]+$/.test(cells[0])) tokens.push(token(cells[0], value));
+      continue;
+    }
+
+    // --color-primary: #0B996E;  $space-4: 16px;  color.primary: #0B996E
+    const match = trimmed.match(/^[-*]?\s*`?((?:--|\$)?[A-Za-z][\w.-]*)`?\s*[:=]\s*(.+?);?$/);
+    if (match) tokens.push(token(match[1], match[2].trim().replace(/^["'`]|["'`]$/g, '')));
+  }
+  return tokens;
+}
+
+function token(name: string, value: string): NaosToken {
+  let kind: TokenKind = 'string';
+  if (parseColor(value)) kind = 'color';
+  else if (parsePx(value) !== null) kind = 'dimension';
+  else if (/^-?\d+(\.\d+)?$/.test(value.trim())) kind = 'number';
+  return { name, value, kind };
+}
+
+function dedupe(tokens: NaosToken[]): NaosToken[] {
+  const seen = new Set<string>();
+  return tokens.filter(t => !seen.has(t.name) && seen.add(t.name));
+}
+
+// ==============================================================================
+// Matching
+// ==============================================================================
+
+function matchToken(
+  kind: StyleValueKind,
+  value: string,
+  tokens: NaosToken[],
+  maxDistance: number,
+): Pick<TokenMatch, 'token' | 'matchedBy' | 'distance'> {
+  const hint = KIND_HINTS[kind];
+  const candidates = tokens.filter(t => t.kind === TOKEN_KIND[kind]);
+  // Prefer tokens named for the kind when several share the value
+  const pick = (list: NaosToken[]) => list.find(t => hint.test(t.name)) ?? list[0];
+
+  if (kind === 'color') {
+    const color = parseColor(value)!;
+    const exact = candidates.filter(t => formatHex(parseColor(t.value)!) === value);
+    if (exact.length > 0) return { token: pick(exact).name, matchedBy: 'exact' };
+
+    let best: { token: NaosToken; distance: number } | null = null;
+    for (const candidate of candidates) {
+      const other = parseColor(candidate.value)!;
+      if (Math.abs(other.a - color.a) > 0.05) continue;
+      const distance = deltaE(color, other);
+      if (distance <= maxDistance && (!best || distance < best.distance)) best = { token: candidate, distance };
+    }
+    return best
+      ? { token: best.token.name, matchedBy: 'nearest', distance: Math.round(best.distance * 10) / 10 }
+      : { token: null, matchedBy: null };
+  }
+
+  const same = (t: NaosToken) => {
+    if (kind === 'fontFamily') return firstFamily(t.value) === firstFamily(value);
+    if (kind === 'fontWeight') return t.value.trim() === value;
+    const px = parsePx(t.value);
+    return px !== null && `${round(px)}px` === value;
+  };
+  const exact = candidates.filter(same);
+  return exact.length > 0 ? { token: pick(exact).name, matchedBy: 'exact' } : { token: null, matchedBy: null };
+}
+
+function firstFamily(value: string): string {
+  return value.split(',')[0].trim().replace(/^["']|["']$/g, '').toLowerCase();
+}
+
+// ==============================================================================
+// Values
+// ==============================================================================
+
+interface Rgba {
+  /** 0–255 */
+  r: number;
+  g: number;
+  b: number;
+  /** 0–1 */
+  a: number;
+}
+
+/** #RGB, #RGBA, #RRGGBB, #RRGGBBAA, rgb() and rgba() */
+function parseColor(value: string): Rgba | null {
+  const text = value.trim();
+  const hex = text.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = [...digits].map(d => d + d).join('');
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+  }
+
+  const rgb = text.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/i);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : Number(rgb[4]);
+    return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]), a: alpha };
+  }
+  return null;
+}
+
+/** "16px" → 16, "1rem" → 16 (at the 16px browser default) */
+function parsePx(value: string): number | null {
+  const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem)$/);
+  if (!match) return null;
+  return match[2] === 'rem' ? Number(match[1]) * 16 : Number(match[1]);
+}
+
+function formatHex({ r, g, b, a }: Rgba): string {
+  const hex = (n: number) => Math.round(Math.min(255, Math.max(0, n))).toString(16).padStart(2, '0');
+  return `#${hex(r)}${hex(g)}${hex(b)}${a < 1 ? hex(a * 255) : ''}`.toUpperCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** CIE76 color difference: Euclidean distance in CIELAB */
+function deltaE(a: Rgba, b: Rgba): number {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+function toLab({ r, g, b }: Rgba): [number, number, number] {
+  // sRGB → linear RGB → XYZ (D65) → CIELAB
+  const linear = (c: number) => {
+    const s = c / 255;
+    return s <= 0.04045 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { typeCheckFiles } from './type-checker';
+
+describe('typeCheckFiles', () => {
+  let dir: string;
+  let tsconfig: string;
+
+  function write(file: string, content: string): string {
+    const fullPath = path.join(dir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    return fullPath;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'designforge-tsc-'));
+    tsconfig = write('tsconfig.json', JSON.stringify({
+      compilerOptions: { strict: true, jsx: 'react-jsx', skipLibCheck: true, types: [] },
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report errors with file, position and code', () => {
+    const file = write('Button/Button.tsx', 'export const size: number = "large";\n');
+
+    const [issue, ...rest] = typeCheckFiles([file], { tsconfig });
+
+    expect(rest).toEqual([]);
+    expect(issue).toMatchObject({
+      source: 'typescript',
+      severity: 'error',
+      file,
+      line: 1,
+      column: 14,
+      code: 'TS2322',
+    });
+  });
+
+  it('should ignore missing packages but not missing relative imports', () => {
+    const file = write('Card.tsx', [
+      "import { Button } from '@dtsl/react';",
+      "import { useCard } from './useCard';",
+      'export const Card = () => <Button onClick={useCard()} />;',
+      '',
+    ].join('\n'));
+
+    const issues = typeCheckFiles([file], { tsconfig });
+
+    expect(issues.map(i => i.code)).toEqual(['TS2307']);
+    expect(issues[0].message).toContain("'./useCard'");
+  });
+
+  it('should find the nearest tsconfig above the output directory', () => {
+    const file = write('src/components/index.ts', 'export const ok: string = 1;\n');
+
+    const issues = typeCheckFiles([file], { searchFrom: path.join(dir, 'src/components') });
+
+    expect(issues.map(i => i.code)).toEqual(['TS2322']);
+  });
+
+  it('should check JSX when the tsconfig does not set jsx', () => {
+    const noJsx = write('node/tsconfig.json', JSON.stringify({
+      compilerOptions: { strict: true, module: 'commonjs', skipLibCheck: true, types: [] },
+    }));
+    const file = write('Badge.tsx', [
+      'export const Badge = (): JSX.Element => <span>{label}</span>;',
+      '',
+    ].join('\n'));
+
+    const issues = typeCheckFiles([file], { tsconfig: noJsx });
+
+    expect(issues.map(i => i.code)).toEqual(['TS2304']);
+    expect(issues[0].message).toContain("'label'");
+  });
+
+  it('should skip files that are not TypeScript', () => {
+    const file = write('README.md', '# Button\n');
+
+    expect(typeCheckFiles([file], { tsconfig })).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import * as path from 'path';
+import ts from 'typescript';
+import type { ValidationIssue } from './validation';
+
+// ==============================================================================
+// Type Checker
+// ==============================================================================
+// Runs the TypeScript compiler in-process over the generated .ts/.tsx
+// files. Compiler options come from a tsconfig — the configured one, or the
+// nearest one above the output directory — so generated code is checked the
+// way the host project builds it. Only diagnostics inside the generated
+// files are reported.
+
+export interface TypeCheckOptions {
+  /** tsconfig.json to use; searched upward from `searchFrom` when omitted */
+  tsconfig?: string;
+  /** Where to start looking for a tsconfig.json */
+  searchFrom?: string;
+}
+
+// Used when no tsconfig is found: a typical strict React project
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  strict: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+};
+
+// Diagnostics about the environment rather than the generated code, e.g.
+// `@dtsl/react` or React's types not being installed where the check runs.
+// The model cannot fix these, so they would only burn repair turns.
+const MISSING_MODULE_CODES = new Set([2307, 7016]);
+const MISSING_JSX_RUNTIME_CODES = new Set([
+  2875, // This JSX tag requires the module path 'react/jsx-runtime' to exist
+  7026, // JSX element implicitly has type 'any' (no JSX.IntrinsicElements)
+  17004, // Cannot use JSX unless the '--jsx' flag is provided
+]);
+const MISSING_NAMESPACE_CODE = 2503;
+
+const TS_FILE_REGEX = /\.tsx?$/;
+
+export function typeCheckFiles(files: string[], options: TypeCheckOptions = {}): ValidationIssue[] {
+  const rootNames = [...new Set(files.filter(f => TS_FILE_REGEX.test(f)).map(f => path.resolve(f)))];
+  if (rootNames.length === 0) return [];
+
+  const { compilerOptions, issues } = loadCompilerOptions(options);
+  const program = ts.createProgram(rootNames, { ...compilerOptions, noEmit: true });
+  const checked = new Set(rootNames);
+
+  for (const diagnostic of ts.getPreEmitDiagnostics(program)) {
+    if (!diagnostic.file || !checked.has(path.resolve(diagnostic.file.fileName))) continue;
+    if (isEnvironmentDiagnostic(diagnostic)) continue;
+    issues.push(toIssue(diagnostic));
+  }
+
+  return issues;
+}
+
+function loadCompilerOptions(options: TypeCheckOptions): {
+  compilerOptions: ts.CompilerOptions;
+  issues: ValidationIssue[];
+} {
+  const configPath = options.tsconfig
+    ? path.resolve(options.tsconfig)
+    : ts.findConfigFile(options.searchFrom ?? process.cwd(), ts.sys.fileExists);
+
+  if (!configPath) {
+    return { compilerOptions: DEFAULT_COMPILER_OPTIONS, issues: [] };
+  }
+
+  const read = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (read.error) {
+    // A broken tsconfig is a setup problem — report it, check with defaults
+    return {
+      compilerOptions: DEFAULT_COMPILER_OPTIONS,
+      issues: [{ ...toIssue(read.error), severity: 'warning' }],
+    };
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(read.config, ts.sys, path.dirname(configPath), undefined, configPath);
+  // Generated components are .tsx — a host tsconfig without `jsx` (e.g. a
+  // Node-only root config) would otherwise fail every file on setup errors
+  const compilerOptions = { ...parsed.options, jsx: parsed.options.jsx ?? DEFAULT_COMPILER_OPTIONS.jsx };
+  return { compilerOptions, issues: [] };
+}
+
+function isEnvironmentDiagnostic(diagnostic: ts.Diagnostic): boolean {
+  if (MISSING_JSX_RUNTIME_CODES.has(diagnostic.code)) return true;
+
+  const name = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n').match(/'([^']+)'/)?.[1];
+  // The global JSX namespace comes from React's types, not the generated code
+  if (diagnostic.code === MISSING_NAMESPACE_CODE) return name === 'JSX';
+  if (!MISSING_MODULE_CODES.has(diagnostic.code)) return false;
+
+  // Only package imports — a missing relative import is a missing
+  // generated file, which the model can fix.
+  return !!name && !name.startsWith('.');
+}
+
+function toIssue(diagnostic: ts.Diagnostic): ValidationIssue {
+  const issue: ValidationIssue = {
+    source: 'typescript',
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    code: `TS${diagnostic.code}`,
+  };
+
+  if (diagnostic.file) {
+    issue.file = path.resolve(diagnostic.file.fileName);
+    if (diagnostic.start !== undefined) {
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      issue.line = line + 1;
+      issue.column = character + 1;
+    }
+  }
+
+  return issue;
+}
@@ -0,0 +1,76 @@
+import * as path from 'path';
+
+// ==============================================================================
+// Output Validation
+// ==============================================================================
+// Checks that run over the generated files once the model says it is done.
+// Issues with severity 'error' are sent back to the model as a repair turn
+// (up to maxRepairIterations); whatever remains after the last iteration
+// ends up in the run result as `diagnostics`.
+
+export interface ValidationIssue {
+  /** Which check produced the issue, e.g. 'typescript' */
+  source: string;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Absolute path of the offending file, when the issue has one */
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Checker-specific code, e.g. 'TS2322' */
+  code?: string;
+}
+
+/** Cap on issues listed in one repair message; the rest are counted */
+const MAX_ISSUES_PER_REPAIR = 30;
+
+/**
+ * `Button/Button.tsx:12:5 TS2322 Type 'string' is not assignable...`,
+ * with paths relative to the output directory.
+ */
+export function formatValidationIssue(issue: ValidationIssue, outputPath: string): string {
+  const location = issue.file
+    ? `${path.relative(outputPath, issue.file)}${issue.line ? `:${issue.line}:${issue.column ?? 1}` : ''} `
+    : '';
+  const code = issue.code ? `${issue.code} ` : '';
+  return `${location}${code}${issue.message}`;
+}
+
+/**
+ * The user message for a repair turn: every blocking issue, grouped by
+ * check, with an instruction to rewrite the affected files.
+ */
+export function buildRepairPrompt(
+  issues: ValidationIssue[],
+  outputPath: string,
+  iteration: number,
+  maxIterations: number,
+): string {
+  const errors = issues.filter(i => i.severity === 'error');
+  const shown = errors.slice(0, MAX_ISSUES_PER_REPAIR);
+
+  const bySource = new Map<string, ValidationIssue[]>();
+  for (const issue of shown) {
+    const group = bySource.get(issue.source) ?? [];
+    group.push(issue);
+    bySource.set(issue.source, group);
+  }
+
+  const parts = [
+    `Validation of the generated files failed with ${errors.length} error(s) ` +
+    `(repair attempt ${iteration} of ${maxIterations}).`,
+  ];
+  for (const [source, group] of bySource) {
+    parts.push(`\n### ${source}\n${group.map(i => `- ${formatValidationIssue(i, outputPath)}`).join('\n')}`);
+  }
+  if (errors.length > shown.length) {
+    parts.push(`\n…and ${errors.length - shown.length} more.`);
+  }
+  parts.push(
+    '\nFix these errors by writing the COMPLETE corrected contents of every affected file, ' +
+    'in the same output format as before. Do not regenerate files without errors. ' +
+    'When all errors are fixed, finish the workflow again.',
+  );
+
+  return parts.join('\n');
+}
@@ -0,0 +1,30 @@
+import { ImageBudget } from './vision';
+
+describe('ImageBudget', () => {
+  const png = { data: 'iVBORw0KGgo=', mimeType: 'image/png' };
+
+  it('should attach images until the run budget is used up', () => {
+    const budget = new ImageBudget({ maxImages: 2 });
+
+    expect(budget.take([png]).blocks).toEqual([
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: png.data } },
+    ]);
+    const { blocks, notes } = budget.take([png, png]);
+    expect(blocks).toHaveLength(1);
+    expect(notes).toEqual(["[image/png image omitted: the run's 2-image budget is used up]"]);
+  });
+
+  it('should leave out oversized, unsupported and all images when disabled', () => {
+    const budget = new ImageBudget({ maxImageBytes: 4 });
+    expect(budget.take([png, { data: 'PHN2Zz4=', mimeType: 'image/svg+xml' }]).notes).toEqual([
+      '[image/png image omitted: 9 bytes is over the 4-byte limit]',
+      '[image/svg+xml image omitted: unsupported format]',
+    ]);
+
+    const disabled = new ImageBudget({ enabled: false });
+    expect(disabled.take([png])).toEqual({
+      blocks: [],
+      notes: ['[image/png image omitted: vision input is disabled]'],
+    });
+  });
+});
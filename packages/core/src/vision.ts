@@ -0,0 +1,72 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { McpImage } from './mcp-bridge';
+
+// ==============================================================================
+// Vision Input
+// ==============================================================================
+// Image content from MCP results — rendered frames, screenshots — is sent
+// to the model as image blocks. Images are large in the context window, so
+// a run has a budget: at most `maxImages`, each at most `maxImageBytes`.
+// Text-only models turn it off with `enabled: false`.
+
+export interface VisionConfig {
+  /** Default true; set to false for text-only models */
+  enabled?: boolean;
+  /** Images sent per run (default 4) */
+  maxImages?: number;
+  /** Decoded size limit per image (default 1.5 MB) */
+  maxImageBytes?: number;
+}
+
+export const DEFAULT_MAX_IMAGES = 4;
+export const DEFAULT_MAX_IMAGE_BYTES = 1_500_000;
+
+const SUPPORTED_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
+type SupportedMediaType = typeof SUPPORTED_MEDIA_TYPES[number];
+
+/**
+ * Rough context cost of one image in history characters: a full-size
+ * image is ~1,600 tokens, at ~4 characters per token.
+ */
+export const IMAGE_CHARS_ESTIMATE = 6_400;
+
+export class ImageBudget {
+  private sent = 0;
+
+  constructor(private config: VisionConfig = {}) {}
+
+  get enabled(): boolean {
+    return this.config.enabled !== false;
+  }
+
+  /**
+   * Image blocks for the images that fit the budget, plus a note for each
+   * one left out so the model knows it is missing.
+   */
+  take(images: McpImage[]): { blocks: Anthropic.Messages.ImageBlockParam[]; notes: string[] } {
+    const blocks: Anthropic.Messages.ImageBlockParam[] = [];
+    const notes: string[] = [];
+    const maxImages = this.config.maxImages ?? DEFAULT_MAX_IMAGES;
+    const maxBytes = this.config.maxImageBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+
+    for (const image of images) {
+      const bytes = Math.floor(image.data.length * 3 / 4);
+      if (!this.enabled) {
+        notes.push(`[${image.mimeType} image omitted: vision input is disabled]`);
+      } else if (!SUPPORTED_MEDIA_TYPES.includes(image.mimeType as SupportedMediaType)) {
+        notes.push(`[${image.mimeType} image omitted: unsupported format]`);
+      } else if (bytes > maxBytes) {
+        notes.push(`[${image.mimeType} image omitted: ${bytes} bytes is over the ${maxBytes}-byte limit]`);
+      } else if (this.sent >= maxImages) {
+        notes.push(`[${image.mimeType} image omitted: the run's ${maxImages}-image budget is used up]`);
+      } else {
+        this.sent++;
+        blocks.push({
+          type: 'image',
+          source: { type: 'base64', media_type: image.mimeType as SupportedMediaType, data: image.data },
+        });
+      }
+    }
+    return { blocks, notes };
+  }
+}